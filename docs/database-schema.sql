@@ -23,6 +23,33 @@ CREATE TABLE public.users (
 CREATE INDEX idx_users_username ON public.users(username);
 CREATE INDEX idx_users_is_admin ON public.users(is_admin);
 
+-- ===========================================
+-- CONVERSATIONS TABLE
+-- Named threads of messages within a module
+-- ===========================================
+CREATE TABLE public.conversations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    module TEXT NOT NULL CHECK (module IN ('ga', 'kdr', 'invoice', 'kdr_inv', 'kdr_sellout')),
+    -- NULL until renamed or named after the first message
+    title TEXT CHECK (char_length(title) <= 100),
+    -- Archived conversations are hidden from the sidebar and don't take new messages
+    archived_at TIMESTAMP WITH TIME ZONE,
+    -- Started by the app for a send without a conversation (see index below)
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    last_message_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Sidebar lists a user's conversations per module, most recently active first
+CREATE INDEX idx_conversations_user_module ON public.conversations(user_id, module, last_message_at DESC);
+
+-- At most one open default conversation per module, so two first messages sent
+-- at once can't both start one
+CREATE UNIQUE INDEX idx_conversations_default ON public.conversations(user_id, module)
+    WHERE is_default AND archived_at IS NULL;
+
 -- ===========================================
 -- CHATS TABLE
 -- Stores all chat messages (user and bot)
@@ -31,16 +58,161 @@ CREATE TABLE public.chats (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
     module TEXT NOT NULL CHECK (module IN ('ga', 'kdr', 'invoice', 'kdr_inv', 'kdr_sellout')),
+    conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
     sender TEXT NOT NULL CHECK (sender IN ('user', 'bot')),
     message TEXT NOT NULL,
     attachments JSONB DEFAULT NULL,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    -- Delivery lifecycle of user messages (NULL for bot messages)
+    status TEXT DEFAULT NULL CHECK (status IN ('queued', 'dispatched', 'acknowledged', 'answered', 'failed', 'cancelled')),
+    -- Message being replied to: the triggering user message for bot replies, a quoted message for user messages
+    reply_to UUID REFERENCES public.chats(id) ON DELETE SET NULL,
+    -- Streamed bot responses: 'streaming' while chunks arrive, then 'complete'
+    stream_state TEXT DEFAULT NULL CHECK (stream_state IN ('streaming', 'complete')),
+    -- Last chunk applied to message, only ever increases
+    stream_seq INTEGER,
+    -- Quick reply buttons on bot messages, and the value the user picked
+    actions JSONB DEFAULT NULL,
+    action_selected TEXT,
+    -- Form schema requested by a workflow, and the typed values the user submitted
+    form JSONB DEFAULT NULL,
+    form_response JSONB DEFAULT NULL,
+    -- Typed content blocks (tables, key-value lists, callouts, file lists) on bot messages
+    blocks JSONB DEFAULT NULL,
+    -- Idempotency-Key of the send or callback that created the message
+    idempotency_key TEXT,
+    -- Last edit of a user message (NULL if never edited)
+    edited_at TIMESTAMP WITH TIME ZONE,
+    -- Bot replies that arrived after the user cancelled the message they answer; hidden in the chat
+    suppressed BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    -- Retried requests find the original message instead of inserting again
+    CONSTRAINT chats_idempotency_key_unique UNIQUE (user_id, sender, idempotency_key)
 );
 
 -- Indexes for efficient queries
 CREATE INDEX idx_chats_user_id ON public.chats(user_id);
 CREATE INDEX idx_chats_user_module ON public.chats(user_id, module);
 CREATE INDEX idx_chats_created_at ON public.chats(created_at);
+-- Latest messages first; the id breaks ties for the chat's page cursor
+CREATE INDEX idx_chats_user_module_created ON public.chats(user_id, module, created_at DESC, id DESC);
+CREATE INDEX idx_chats_reply_to ON public.chats(reply_to);
+-- Pages of one conversation, same order as above
+CREATE INDEX idx_chats_conversation_created ON public.chats(conversation_id, created_at DESC, id DESC);
+
+-- ===========================================
+-- WEBHOOK OUTBOX TABLE
+-- One row per n8n dispatch, retried with backoff
+-- ===========================================
+CREATE TABLE public.webhook_outbox (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chat_id UUID NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    module TEXT NOT NULL CHECK (module IN ('ga', 'kdr', 'invoice', 'kdr_inv', 'kdr_sellout')),
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'delivered', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 6,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    delivered_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Worker picks up due rows in next_attempt_at order
+CREATE INDEX idx_webhook_outbox_due ON public.webhook_outbox(next_attempt_at)
+    WHERE status IN ('pending', 'processing');
+CREATE INDEX idx_webhook_outbox_chat_id ON public.webhook_outbox(chat_id);
+
+-- ===========================================
+-- CHAT CHUNKS TABLE
+-- Pieces of streamed bot responses, assembled in seq order
+-- ===========================================
+CREATE TABLE public.chat_chunks (
+    chat_id UUID NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL CHECK (seq >= 0),
+    content TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (chat_id, seq)
+);
+
+-- ===========================================
+-- CHAT ACTIVITY TABLE
+-- Workflow progress per user message, shown as a typing indicator
+-- ===========================================
+CREATE TABLE public.chat_activity (
+    chat_id UUID PRIMARY KEY REFERENCES public.chats(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    module TEXT NOT NULL CHECK (module IN ('ga', 'kdr', 'invoice', 'kdr_inv', 'kdr_sellout')),
+    state TEXT NOT NULL,
+    step INTEGER,
+    total_steps INTEGER,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_chat_activity_user_id ON public.chat_activity(user_id);
+
+-- ===========================================
+-- RATE LIMIT BUCKETS TABLE
+-- Token buckets for the postgres rate limit store, keyed scope:user:module
+-- ===========================================
+CREATE TABLE public.rate_limit_buckets (
+    key TEXT PRIMARY KEY,
+    tokens DOUBLE PRECISION NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_rate_limit_buckets_updated_at ON public.rate_limit_buckets(updated_at);
+
+-- ===========================================
+-- SCHEDULED MESSAGES TABLE
+-- One-off and recurring messages sent by /api/schedules/run
+-- ===========================================
+CREATE TABLE public.scheduled_messages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    module TEXT NOT NULL CHECK (module IN ('ga', 'kdr', 'invoice', 'kdr_inv', 'kdr_sellout')),
+    -- Conversation the messages go to; the module's most recent open one when NULL
+    conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL,
+    message TEXT NOT NULL DEFAULT '',
+    attachments JSONB,
+    -- Five-field cron expression; NULL sends once at next_run_at
+    cron TEXT,
+    timezone TEXT NOT NULL DEFAULT 'UTC',
+    next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    last_chat_id UUID REFERENCES public.chats(id) ON DELETE SET NULL,
+    last_error TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Runner picks up due rows in next_run_at order
+CREATE INDEX idx_scheduled_messages_due ON public.scheduled_messages(next_run_at) WHERE is_active;
+CREATE INDEX idx_scheduled_messages_user_module ON public.scheduled_messages(user_id, module);
+
+-- ===========================================
+-- JOBS TABLE
+-- The workflow run behind each user message: state, progress and timing
+-- ===========================================
+CREATE TABLE public.jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chat_id UUID NOT NULL UNIQUE REFERENCES public.chats(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    module TEXT NOT NULL CHECK (module IN ('ga', 'kdr', 'invoice', 'kdr_inv', 'kdr_sellout')),
+    state TEXT NOT NULL DEFAULT 'queued' CHECK (state IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+    progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+    step TEXT,
+    error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Jobs panel lists a user's recent jobs per module
+CREATE INDEX idx_jobs_user_module_created ON public.jobs(user_id, module, created_at DESC);
 
 -- ===========================================
 -- APP SETTINGS TABLE
@@ -53,6 +225,73 @@ CREATE TABLE public.app_settings (
     updated_by UUID REFERENCES public.users(id)
 );
 
+-- ===========================================
+-- MODULE SETTINGS TABLE
+-- Per-module webhook routing (overrides N8N_WEBHOOK_URL_* env vars),
+-- the conversation history window sent with each message,
+-- how bot replies are displayed, and rate limit overrides
+-- ===========================================
+CREATE TABLE public.module_settings (
+    module TEXT PRIMARY KEY CHECK (module IN ('ga', 'kdr', 'invoice', 'kdr_inv', 'kdr_sellout')),
+    webhook_url TEXT,
+    -- Receives 'cancelled' events (falls back to the module's webhook)
+    cancel_webhook_url TEXT,
+    sign_requests BOOLEAN NOT NULL DEFAULT FALSE,
+    history_limit INTEGER NOT NULL DEFAULT 0 CHECK (history_limit BETWEEN 0 AND 50),
+    history_max_chars INTEGER NOT NULL DEFAULT 4000 CHECK (history_max_chars >= 0),
+    history_senders TEXT[] NOT NULL DEFAULT ARRAY['user', 'bot'] CHECK (history_senders <@ ARRAY['user', 'bot']),
+    history_include_attachments BOOLEAN NOT NULL DEFAULT TRUE,
+    render_markdown BOOLEAN NOT NULL DEFAULT TRUE,
+    rate_limits JSONB NOT NULL DEFAULT '{}'::jsonb,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_by UUID REFERENCES public.users(id) ON DELETE SET NULL
+);
+
+-- ===========================================
+-- MODULE HEALTH TABLE
+-- Dispatch statistics and circuit breaker state per module
+-- ===========================================
+CREATE TABLE public.module_health (
+    module TEXT PRIMARY KEY CHECK (module IN ('ga', 'kdr', 'invoice', 'kdr_inv', 'kdr_sellout')),
+    circuit_state TEXT NOT NULL DEFAULT 'closed' CHECK (circuit_state IN ('closed', 'open', 'half_open')),
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    total_successes INTEGER NOT NULL DEFAULT 0,
+    total_failures INTEGER NOT NULL DEFAULT 0,
+    avg_latency_ms INTEGER,
+    last_success_at TIMESTAMP WITH TIME ZONE,
+    last_failure_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    opened_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ===========================================
+-- CALLBACK SECRETS TABLE
+-- Active HMAC keys accepted on n8n callbacks (several at once for rotation)
+-- ===========================================
+CREATE TABLE public.callback_secrets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    label TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_callback_secrets_active ON public.callback_secrets(is_active);
+
+-- ===========================================
+-- CALLBACK SIGNATURES SEEN TABLE
+-- Replay guard: each signature is accepted once within the timestamp window
+-- ===========================================
+CREATE TABLE public.callback_signatures_seen (
+    signature TEXT PRIMARY KEY,
+    received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_callback_signatures_seen_received_at ON public.callback_signatures_seen(received_at);
+
 -- ===========================================
 -- AUDIT LOGS TABLE
 -- Stores admin actions for security
@@ -75,9 +314,20 @@ CREATE INDEX idx_audit_logs_created_at ON public.audit_logs(created_at);
 
 -- Enable RLS on tables
 ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.chats ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.audit_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_outbox ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.module_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.module_health ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.callback_secrets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.callback_signatures_seen ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_chunks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_activity ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scheduled_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.jobs ENABLE ROW LEVEL SECURITY;
 
 -- USERS TABLE POLICIES
 -- Users can only read their own profile
@@ -90,6 +340,18 @@ CREATE POLICY "Service role can manage users" ON public.users
     FOR ALL
     USING (auth.jwt() ->> 'role' = 'service_role');
 
+-- CONVERSATIONS TABLE POLICIES
+-- Users start, rename and archive their own conversations
+CREATE POLICY "Users can manage own conversations" ON public.conversations
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+-- Sends and callbacks keep last_message_at and titles up to date
+CREATE POLICY "Service role can manage conversations" ON public.conversations
+    FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
 -- CHATS TABLE POLICIES
 -- Users can view their own chats
 CREATE POLICY "Users can view own chats" ON public.chats
@@ -106,11 +368,20 @@ CREATE POLICY "Users can delete own chats" ON public.chats
     FOR DELETE
     USING (auth.uid() = user_id);
 
+-- Chats are only updated server-side: edits go through PATCH /api/chat/messages/:id,
+-- which checks the edit window and tells n8n before writing with the service role
+REVOKE UPDATE ON public.chats FROM anon, authenticated;
+
 -- Service role can insert any chats (for n8n callback)
 CREATE POLICY "Service role can insert chats" ON public.chats
     FOR INSERT
     WITH CHECK (auth.jwt() ->> 'role' = 'service_role');
 
+-- Service role can update chats (delivery status from outbox and callbacks)
+CREATE POLICY "Service role can update chats" ON public.chats
+    FOR UPDATE
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
 -- APP SETTINGS POLICIES
 CREATE POLICY "Service role can manage settings" ON public.app_settings
     FOR ALL
@@ -121,6 +392,73 @@ CREATE POLICY "Service role can manage audit logs" ON public.audit_logs
     FOR ALL
     USING (auth.jwt() ->> 'role' = 'service_role');
 
+-- WEBHOOK OUTBOX POLICIES
+CREATE POLICY "Service role can manage webhook outbox" ON public.webhook_outbox
+    FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- MODULE SETTINGS POLICIES
+CREATE POLICY "Service role can manage module settings" ON public.module_settings
+    FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- MODULE HEALTH POLICIES
+CREATE POLICY "Service role can manage module health" ON public.module_health
+    FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- CALLBACK SECRETS POLICIES
+CREATE POLICY "Service role can manage callback secrets" ON public.callback_secrets
+    FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "Service role can manage callback signatures" ON public.callback_signatures_seen
+    FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- CHAT CHUNKS POLICIES
+CREATE POLICY "Service role can manage chat chunks" ON public.chat_chunks
+    FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- CHAT ACTIVITY POLICIES
+-- Users can read progress on their own messages (needed for realtime)
+CREATE POLICY "Users can view own chat activity" ON public.chat_activity
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage chat activity" ON public.chat_activity
+    FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- RATE LIMIT BUCKETS POLICIES
+CREATE POLICY "Service role can manage rate limit buckets" ON public.rate_limit_buckets
+    FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- SCHEDULED MESSAGES POLICIES
+-- Users manage their own schedules
+CREATE POLICY "Users can manage own schedules" ON public.scheduled_messages
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+-- The runner sends and reschedules through the service role
+CREATE POLICY "Service role can manage schedules" ON public.scheduled_messages
+    FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- JOBS POLICIES
+-- Users can view their own jobs
+CREATE POLICY "Users can view own jobs" ON public.jobs
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Jobs are created and updated by the server
+CREATE POLICY "Service role can manage jobs" ON public.jobs
+    FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
 -- ===========================================
 -- STORAGE BUCKET
 -- For chat attachments
@@ -152,6 +490,127 @@ CREATE POLICY "Public read access for attachments" ON storage.objects
     FOR SELECT
     USING (bucket_id = 'chat-attachments');
 
+-- ===========================================
+-- RATE LIMIT FUNCTION
+-- Refills a bucket for the time since it was last used and takes one token.
+-- The row lock makes concurrent requests from any app instance wait their turn.
+-- ===========================================
+CREATE OR REPLACE FUNCTION public.take_rate_limit_token(
+    p_key TEXT,
+    p_capacity INTEGER,
+    p_per_minute INTEGER
+)
+RETURNS TABLE (allowed BOOLEAN, retry_after_ms INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    rate_per_ms DOUBLE PRECISION := p_per_minute / 60000.0;
+    bucket RECORD;
+    available DOUBLE PRECISION;
+BEGIN
+    INSERT INTO public.rate_limit_buckets (key, tokens, updated_at)
+    VALUES (p_key, p_capacity, NOW())
+    ON CONFLICT (key) DO NOTHING;
+
+    SELECT tokens, updated_at INTO bucket
+    FROM public.rate_limit_buckets
+    WHERE key = p_key
+    FOR UPDATE;
+
+    available := LEAST(
+        p_capacity,
+        bucket.tokens + GREATEST(0, EXTRACT(EPOCH FROM (NOW() - bucket.updated_at)) * 1000) * rate_per_ms
+    );
+
+    IF available >= 1 THEN
+        UPDATE public.rate_limit_buckets SET tokens = available - 1, updated_at = NOW() WHERE key = p_key;
+        RETURN QUERY SELECT TRUE, 0;
+    ELSE
+        UPDATE public.rate_limit_buckets SET tokens = available, updated_at = NOW() WHERE key = p_key;
+        RETURN QUERY SELECT FALSE, CEIL((1 - available) / rate_per_ms)::INTEGER;
+    END IF;
+END;
+$$;
+
+-- Only the service role calls this
+REVOKE EXECUTE ON FUNCTION public.take_rate_limit_token(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ===========================================
+-- SEARCH FUNCTIONS
+-- Full-text search over message text and attachment names.
+-- search_chats runs as the caller, so RLS limits it to their own messages.
+-- ===========================================
+CREATE OR REPLACE FUNCTION public.chat_search_document(p_message TEXT, p_attachments JSONB)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    -- File names are split on dots, dashes and underscores so "report" finds "q3_report.pdf"
+    SELECT to_tsvector('simple',
+        COALESCE(p_message, '') || ' ' ||
+        translate(COALESCE((
+            SELECT string_agg(attachment ->> 'name', ' ')
+            FROM jsonb_array_elements(
+                CASE WHEN jsonb_typeof(p_attachments) = 'array' THEN p_attachments ELSE '[]'::jsonb END
+            ) AS attachment
+        ), ''), '._-', '   ')
+    );
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_chats_search ON public.chats
+    USING GIN (public.chat_search_document(message, attachments));
+
+-- p_query uses to_tsquery syntax and is built by the app from the user's words
+CREATE OR REPLACE FUNCTION public.search_chats(
+    p_query TEXT,
+    p_modules TEXT[],
+    p_sender TEXT DEFAULT NULL,
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    id UUID,
+    module TEXT,
+    conversation_id UUID,
+    sender TEXT,
+    message TEXT,
+    attachments JSONB,
+    created_at TIMESTAMP WITH TIME ZONE,
+    rank REAL,
+    snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT
+        c.id,
+        c.module,
+        c.conversation_id,
+        c.sender,
+        c.message,
+        c.attachments,
+        c.created_at,
+        ts_rank(public.chat_search_document(c.message, c.attachments), q) AS rank,
+        -- Matches are wrapped in \x02 ... \x03 for the app to highlight
+        ts_headline('simple', c.message, q,
+            'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=30, MinWords=10, MaxFragments=2') AS snippet
+    FROM public.chats c, to_tsquery('simple', p_query) AS q
+    WHERE c.user_id = auth.uid()
+      AND NOT c.suppressed
+      AND c.module = ANY(p_modules)
+      AND (p_sender IS NULL OR c.sender = p_sender)
+      AND (p_from IS NULL OR c.created_at >= p_from)
+      AND (p_to IS NULL OR c.created_at < p_to)
+      AND public.chat_search_document(c.message, c.attachments) @@ q
+    ORDER BY rank DESC, c.created_at DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
+
 -- ===========================================
 -- REALTIME CONFIGURATION
 -- Enable realtime for chats table
@@ -159,6 +618,9 @@ CREATE POLICY "Public read access for attachments" ON storage.objects
 
 -- Add table to realtime publication
 ALTER PUBLICATION supabase_realtime ADD TABLE public.chats;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_activity;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.jobs;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversations;
 
 -- ===========================================
 -- MIGRATION SCRIPT (for existing databases)
@@ -182,8 +644,8 @@ ALTER PUBLICATION supabase_realtime ADD TABLE public.chats;
 
 -- Check tables exist
 SELECT table_name FROM information_schema.tables 
-WHERE table_schema = 'public' AND table_name IN ('users', 'chats', 'app_settings', 'audit_logs');
+WHERE table_schema = 'public' AND table_name IN ('users', 'conversations', 'chats', 'app_settings', 'audit_logs', 'webhook_outbox', 'module_settings', 'module_health', 'callback_secrets', 'callback_signatures_seen', 'chat_chunks', 'chat_activity', 'rate_limit_buckets', 'scheduled_messages', 'jobs');
 
 -- Check RLS is enabled
 SELECT tablename, rowsecurity FROM pg_tables 
-WHERE schemaname = 'public' AND tablename IN ('users', 'chats', 'app_settings', 'audit_logs');
+WHERE schemaname = 'public' AND tablename IN ('users', 'conversations', 'chats', 'app_settings', 'audit_logs', 'webhook_outbox', 'module_settings', 'module_health', 'callback_secrets', 'callback_signatures_seen', 'chat_chunks', 'chat_activity', 'rate_limit_buckets', 'scheduled_messages', 'jobs');
@@ -0,0 +1,27 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Job Cancellation
+-- Run this in Supabase SQL Editor to let users
+-- cancel messages the workflow is still processing
+-- ===========================================
+
+-- Step 1: Allow the 'cancelled' status
+ALTER TABLE public.chats DROP CONSTRAINT IF EXISTS chats_status_check;
+ALTER TABLE public.chats ADD CONSTRAINT chats_status_check
+    CHECK (status IN ('queued', 'dispatched', 'acknowledged', 'answered', 'failed', 'cancelled'));
+
+-- Step 2: Mark bot replies that arrive after their message was cancelled
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS suppressed BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Step 3: Per-module webhook for cancel events (NULL uses the module's webhook)
+ALTER TABLE public.module_settings ADD COLUMN IF NOT EXISTS cancel_webhook_url TEXT;
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT pg_get_constraintdef(oid) FROM pg_constraint WHERE conname = 'chats_status_check';
+
+SELECT column_name, data_type FROM information_schema.columns
+WHERE table_schema = 'public'
+  AND ((table_name = 'chats' AND column_name = 'suppressed')
+    OR (table_name = 'module_settings' AND column_name = 'cancel_webhook_url'));
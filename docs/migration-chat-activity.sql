@@ -0,0 +1,61 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Chat Activity
+-- Run this in Supabase SQL Editor to show
+-- workflow progress while a reply is pending
+-- ===========================================
+
+-- Step 1: Create chat_activity table
+-- ===========================================
+-- CHAT ACTIVITY TABLE
+-- Workflow progress per user message, shown as a typing indicator
+-- ===========================================
+CREATE TABLE IF NOT EXISTS public.chat_activity (
+    chat_id UUID PRIMARY KEY REFERENCES public.chats(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    module TEXT NOT NULL CHECK (module IN ('ga', 'kdr', 'invoice', 'kdr_inv', 'kdr_sellout')),
+    state TEXT NOT NULL,
+    step INTEGER,
+    total_steps INTEGER,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_activity_user_id ON public.chat_activity(user_id);
+
+-- Step 2: Enable RLS
+ALTER TABLE public.chat_activity ENABLE ROW LEVEL SECURITY;
+
+DO $$ 
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'chat_activity' AND policyname = 'Users can view own chat activity'
+    ) THEN
+        CREATE POLICY "Users can view own chat activity" ON public.chat_activity
+            FOR SELECT
+            USING (auth.uid() = user_id);
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'chat_activity' AND policyname = 'Service role can manage chat activity'
+    ) THEN
+        CREATE POLICY "Service role can manage chat activity" ON public.chat_activity
+            FOR ALL
+            USING (auth.jwt() ->> 'role' = 'service_role');
+    END IF;
+END $$;
+
+-- Step 3: Enable realtime
+DO $$ 
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'chat_activity'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_activity;
+    END IF;
+END $$;
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT tablename, rowsecurity FROM pg_tables
+WHERE schemaname = 'public' AND tablename = 'chat_activity';
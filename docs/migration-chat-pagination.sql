@@ -0,0 +1,18 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Chat Pagination
+-- Run this in Supabase SQL Editor so the chat can
+-- page through long histories newest first
+-- ===========================================
+
+-- Step 1: Rebuild the conversation index with id as a tie-breaker,
+-- matching the (created_at, id) cursor the chat pages with
+DROP INDEX IF EXISTS public.idx_chats_user_module_created;
+CREATE INDEX IF NOT EXISTS idx_chats_user_module_created
+    ON public.chats(user_id, module, created_at DESC, id DESC);
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT indexname, indexdef FROM pg_indexes
+WHERE schemaname = 'public' AND tablename = 'chats' AND indexname = 'idx_chats_user_module_created';
@@ -0,0 +1,48 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Chat Delivery Status
+-- Run this in Supabase SQL Editor to track the
+-- delivery lifecycle of user messages
+-- ===========================================
+
+-- Step 1: Add status column to chats
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS status TEXT DEFAULT NULL;
+
+DO $$ 
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'chats_status_check'
+    ) THEN
+        ALTER TABLE public.chats ADD CONSTRAINT chats_status_check
+            CHECK (status IN ('queued', 'dispatched', 'acknowledged', 'answered', 'failed'));
+    END IF;
+END $$;
+
+-- Step 2: Backfill existing user messages
+-- Messages that already have a later bot reply are answered, the rest were delivered
+UPDATE public.chats c SET status = CASE
+    WHEN EXISTS (
+        SELECT 1 FROM public.chats b
+        WHERE b.user_id = c.user_id AND b.module = c.module
+          AND b.sender = 'bot' AND b.created_at > c.created_at
+    ) THEN 'answered'
+    ELSE 'dispatched'
+END
+WHERE c.sender = 'user' AND c.status IS NULL;
+
+-- Step 3: Allow the service role to update chats
+DO $$ 
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'chats' AND policyname = 'Service role can update chats'
+    ) THEN
+        CREATE POLICY "Service role can update chats" ON public.chats
+            FOR UPDATE
+            USING (auth.jwt() ->> 'role' = 'service_role');
+    END IF;
+END $$;
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT sender, status, COUNT(*) FROM public.chats GROUP BY sender, status;
@@ -0,0 +1,15 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Content Blocks
+-- Run this in Supabase SQL Editor to store
+-- typed content blocks on bot messages
+-- ===========================================
+
+-- Step 1: Add blocks column to chats
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS blocks JSONB DEFAULT NULL;
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT column_name, data_type FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'chats' AND column_name = 'blocks';
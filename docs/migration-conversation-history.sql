@@ -0,0 +1,22 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Conversation History
+-- Run this in Supabase SQL Editor to send a
+-- configurable history window to n8n per module
+-- ===========================================
+
+-- Step 1: Add history columns to module_settings
+ALTER TABLE public.module_settings
+    ADD COLUMN IF NOT EXISTS history_limit INTEGER NOT NULL DEFAULT 0 CHECK (history_limit BETWEEN 0 AND 50),
+    ADD COLUMN IF NOT EXISTS history_max_chars INTEGER NOT NULL DEFAULT 4000 CHECK (history_max_chars >= 0),
+    ADD COLUMN IF NOT EXISTS history_senders TEXT[] NOT NULL DEFAULT ARRAY['user', 'bot'] CHECK (history_senders <@ ARRAY['user', 'bot']),
+    ADD COLUMN IF NOT EXISTS history_include_attachments BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- Step 2: Index for loading the latest messages of a conversation
+CREATE INDEX IF NOT EXISTS idx_chats_user_module_created ON public.chats(user_id, module, created_at DESC);
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT module, history_limit, history_max_chars, history_senders, history_include_attachments
+FROM public.module_settings;
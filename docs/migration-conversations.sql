@@ -0,0 +1,155 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Conversations
+-- Run this in Supabase SQL Editor to split each module's
+-- chat into named conversations
+-- ===========================================
+
+-- Step 1: Create conversations table
+CREATE TABLE IF NOT EXISTS public.conversations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    module TEXT NOT NULL CHECK (module IN ('ga', 'kdr', 'invoice', 'kdr_inv', 'kdr_sellout')),
+    -- NULL until renamed or named after the first message
+    title TEXT CHECK (char_length(title) <= 100),
+    -- Archived conversations are hidden from the sidebar and don't take new messages
+    archived_at TIMESTAMP WITH TIME ZONE,
+    -- Started by the app for a send without a conversation (see index below)
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    last_message_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- (for databases that ran an earlier version of this script)
+ALTER TABLE public.conversations ADD COLUMN IF NOT EXISTS is_default BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_user_module ON public.conversations(user_id, module, last_message_at DESC);
+
+-- Step 2: Link messages and schedules to conversations
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE;
+ALTER TABLE public.scheduled_messages ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL;
+
+-- Step 3: Move each user's existing messages per module into one "General" conversation
+INSERT INTO public.conversations (user_id, module, title, is_default, last_message_at, created_at)
+SELECT c.user_id, c.module, 'General', TRUE, MAX(c.created_at), MIN(c.created_at)
+FROM public.chats c
+WHERE c.conversation_id IS NULL
+  AND NOT EXISTS (
+      SELECT 1 FROM public.conversations v WHERE v.user_id = c.user_id AND v.module = c.module
+  )
+GROUP BY c.user_id, c.module;
+
+UPDATE public.chats c
+SET conversation_id = (
+    SELECT v.id FROM public.conversations v
+    WHERE v.user_id = c.user_id AND v.module = c.module
+    ORDER BY v.created_at
+    LIMIT 1
+)
+WHERE c.conversation_id IS NULL;
+
+ALTER TABLE public.chats ALTER COLUMN conversation_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_chats_conversation_created ON public.chats(conversation_id, created_at DESC, id DESC);
+
+-- At most one open default conversation per module, so two first messages sent
+-- at once can't both start one
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversations_default ON public.conversations(user_id, module)
+    WHERE is_default AND archived_at IS NULL;
+
+-- Step 4: Enable RLS and create policies
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'conversations' AND policyname = 'Users can manage own conversations'
+    ) THEN
+        CREATE POLICY "Users can manage own conversations" ON public.conversations
+            FOR ALL
+            USING (auth.uid() = user_id)
+            WITH CHECK (auth.uid() = user_id);
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'conversations' AND policyname = 'Service role can manage conversations'
+    ) THEN
+        CREATE POLICY "Service role can manage conversations" ON public.conversations
+            FOR ALL
+            USING (auth.jwt() ->> 'role' = 'service_role');
+    END IF;
+END $$;
+
+-- Step 5: Return conversation_id from search (the result columns change, so drop first)
+DROP FUNCTION IF EXISTS public.search_chats(TEXT, TEXT[], TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_chats(
+    p_query TEXT,
+    p_modules TEXT[],
+    p_sender TEXT DEFAULT NULL,
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    id UUID,
+    module TEXT,
+    conversation_id UUID,
+    sender TEXT,
+    message TEXT,
+    attachments JSONB,
+    created_at TIMESTAMP WITH TIME ZONE,
+    rank REAL,
+    snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT
+        c.id,
+        c.module,
+        c.conversation_id,
+        c.sender,
+        c.message,
+        c.attachments,
+        c.created_at,
+        ts_rank(public.chat_search_document(c.message, c.attachments), q) AS rank,
+        -- Matches are wrapped in \x02 ... \x03 for the app to highlight
+        ts_headline('simple', c.message, q,
+            'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=30, MinWords=10, MaxFragments=2') AS snippet
+    FROM public.chats c, to_tsquery('simple', p_query) AS q
+    WHERE c.user_id = auth.uid()
+      AND NOT c.suppressed
+      AND c.module = ANY(p_modules)
+      AND (p_sender IS NULL OR c.sender = p_sender)
+      AND (p_from IS NULL OR c.created_at >= p_from)
+      AND (p_to IS NULL OR c.created_at < p_to)
+      AND public.chat_search_document(c.message, c.attachments) @@ q
+    ORDER BY rank DESC, c.created_at DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
+
+
+-- Step 6: Enable realtime
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'conversations'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.conversations;
+    END IF;
+END $$;
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT tablename, rowsecurity FROM pg_tables
+WHERE schemaname = 'public' AND tablename = 'conversations';
+
+SELECT policyname, cmd FROM pg_policies WHERE tablename = 'conversations';
+
+-- Should return 0
+SELECT COUNT(*) FROM public.chats WHERE conversation_id IS NULL;
@@ -0,0 +1,28 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Idempotent Requests
+-- Run this in Supabase SQL Editor so retried sends
+-- and callbacks don't insert duplicate messages
+-- ===========================================
+
+-- Step 1: Add idempotency_key to chats
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+-- Step 2: One message per key, per user and sender (NULL keys are not compared)
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'chats_idempotency_key_unique'
+    ) THEN
+        ALTER TABLE public.chats
+            ADD CONSTRAINT chats_idempotency_key_unique UNIQUE (user_id, sender, idempotency_key);
+    END IF;
+END $$;
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT column_name, data_type FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'chats' AND column_name = 'idempotency_key';
+
+SELECT conname FROM pg_constraint WHERE conname = 'chats_idempotency_key_unique';
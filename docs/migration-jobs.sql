@@ -0,0 +1,64 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Jobs
+-- Run this in Supabase SQL Editor to record the
+-- workflow run behind each message with its progress
+-- ===========================================
+
+-- Step 1: Create the jobs table
+CREATE TABLE IF NOT EXISTS public.jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chat_id UUID NOT NULL UNIQUE REFERENCES public.chats(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    module TEXT NOT NULL CHECK (module IN ('ga', 'kdr', 'invoice', 'kdr_inv', 'kdr_sellout')),
+    state TEXT NOT NULL DEFAULT 'queued' CHECK (state IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+    progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+    step TEXT,
+    error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_user_module_created ON public.jobs(user_id, module, created_at DESC);
+
+-- Step 2: Enable RLS; users read their own jobs, the server writes them
+ALTER TABLE public.jobs ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'jobs' AND policyname = 'Users can view own jobs'
+    ) THEN
+        CREATE POLICY "Users can view own jobs" ON public.jobs
+            FOR SELECT
+            USING (auth.uid() = user_id);
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'jobs' AND policyname = 'Service role can manage jobs'
+    ) THEN
+        CREATE POLICY "Service role can manage jobs" ON public.jobs
+            FOR ALL
+            USING (auth.jwt() ->> 'role' = 'service_role');
+    END IF;
+END $$;
+
+-- Step 3: Enable realtime
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'jobs'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.jobs;
+    END IF;
+END $$;
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT tablename, rowsecurity FROM pg_tables
+WHERE schemaname = 'public' AND tablename = 'jobs';
+
+SELECT policyname, cmd FROM pg_policies WHERE tablename = 'jobs';
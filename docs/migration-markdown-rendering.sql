@@ -0,0 +1,15 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Markdown Rendering
+-- Run this in Supabase SQL Editor to add the
+-- per-module Markdown rendering switch
+-- ===========================================
+
+-- Step 1: Add render_markdown to module_settings (on by default)
+ALTER TABLE public.module_settings
+    ADD COLUMN IF NOT EXISTS render_markdown BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT module, render_markdown FROM public.module_settings;
@@ -0,0 +1,29 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Message Edits
+-- Run this in Supabase SQL Editor to let users
+-- edit recent messages and delete single messages
+-- ===========================================
+
+-- Step 1: Add edited_at to chats
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+
+-- Step 2: Edits only go through PATCH /api/chat/messages/:id, which checks the
+-- 15-minute window, notifies n8n and writes with the service role. Drops the
+-- client edit policy and grant from earlier versions of this script.
+-- (deleting already works through "Users can delete own chats")
+DROP POLICY IF EXISTS "Users can edit own recent messages" ON public.chats;
+REVOKE UPDATE ON public.chats FROM anon, authenticated;
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT column_name, data_type FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'chats' AND column_name = 'edited_at';
+
+SELECT policyname, cmd FROM pg_policies WHERE tablename = 'chats';
+
+-- Should return no rows
+SELECT grantee, column_name FROM information_schema.column_privileges
+WHERE table_schema = 'public' AND table_name = 'chats' AND privilege_type = 'UPDATE'
+  AND grantee IN ('anon', 'authenticated');
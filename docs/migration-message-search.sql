@@ -0,0 +1,83 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Message Search
+-- Run this in Supabase SQL Editor to enable
+-- full-text search across a user's conversations
+-- ===========================================
+
+-- Step 1: Search document, GIN index and search function
+CREATE OR REPLACE FUNCTION public.chat_search_document(p_message TEXT, p_attachments JSONB)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    -- File names are split on dots, dashes and underscores so "report" finds "q3_report.pdf"
+    SELECT to_tsvector('simple',
+        COALESCE(p_message, '') || ' ' ||
+        translate(COALESCE((
+            SELECT string_agg(attachment ->> 'name', ' ')
+            FROM jsonb_array_elements(
+                CASE WHEN jsonb_typeof(p_attachments) = 'array' THEN p_attachments ELSE '[]'::jsonb END
+            ) AS attachment
+        ), ''), '._-', '   ')
+    );
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_chats_search ON public.chats
+    USING GIN (public.chat_search_document(message, attachments));
+
+-- p_query uses to_tsquery syntax and is built by the app from the user's words
+CREATE OR REPLACE FUNCTION public.search_chats(
+    p_query TEXT,
+    p_modules TEXT[],
+    p_sender TEXT DEFAULT NULL,
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    id UUID,
+    module TEXT,
+    sender TEXT,
+    message TEXT,
+    attachments JSONB,
+    created_at TIMESTAMP WITH TIME ZONE,
+    rank REAL,
+    snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT
+        c.id,
+        c.module,
+        c.sender,
+        c.message,
+        c.attachments,
+        c.created_at,
+        ts_rank(public.chat_search_document(c.message, c.attachments), q) AS rank,
+        -- Matches are wrapped in \x02 ... \x03 for the app to highlight
+        ts_headline('simple', c.message, q,
+            'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=30, MinWords=10, MaxFragments=2') AS snippet
+    FROM public.chats c, to_tsquery('simple', p_query) AS q
+    WHERE c.user_id = auth.uid()
+      AND NOT c.suppressed
+      AND c.module = ANY(p_modules)
+      AND (p_sender IS NULL OR c.sender = p_sender)
+      AND (p_from IS NULL OR c.created_at >= p_from)
+      AND (p_to IS NULL OR c.created_at < p_to)
+      AND public.chat_search_document(c.message, c.attachments) @@ q
+    ORDER BY rank DESC, c.created_at DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT indexname FROM pg_indexes
+WHERE schemaname = 'public' AND tablename = 'chats' AND indexname = 'idx_chats_search';
+
+SELECT proname, prosecdef FROM pg_proc
+WHERE proname IN ('chat_search_document', 'search_chats');
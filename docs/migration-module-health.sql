@@ -0,0 +1,44 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Module Health
+-- Run this in Supabase SQL Editor to track webhook
+-- health and enable the per-module circuit breaker
+-- ===========================================
+
+-- Step 1: Create module_health table
+-- ===========================================
+-- MODULE HEALTH TABLE
+-- Dispatch statistics and circuit breaker state per module
+-- ===========================================
+CREATE TABLE IF NOT EXISTS public.module_health (
+    module TEXT PRIMARY KEY CHECK (module IN ('ga', 'kdr', 'invoice', 'kdr_inv', 'kdr_sellout')),
+    circuit_state TEXT NOT NULL DEFAULT 'closed' CHECK (circuit_state IN ('closed', 'open', 'half_open')),
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    total_successes INTEGER NOT NULL DEFAULT 0,
+    total_failures INTEGER NOT NULL DEFAULT 0,
+    avg_latency_ms INTEGER,
+    last_success_at TIMESTAMP WITH TIME ZONE,
+    last_failure_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    opened_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Step 2: Enable RLS (health is read through /api/modules/health)
+ALTER TABLE public.module_health ENABLE ROW LEVEL SECURITY;
+
+DO $$ 
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'module_health' AND policyname = 'Service role can manage module health'
+    ) THEN
+        CREATE POLICY "Service role can manage module health" ON public.module_health
+            FOR ALL
+            USING (auth.jwt() ->> 'role' = 'service_role');
+    END IF;
+END $$;
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT module, circuit_state, consecutive_failures, avg_latency_ms, last_success_at FROM public.module_health;
@@ -0,0 +1,38 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Module Routing
+-- Run this in Supabase SQL Editor to manage
+-- per-module webhook URLs from the admin panel
+-- ===========================================
+
+-- Step 1: Create module_settings table
+-- ===========================================
+-- MODULE SETTINGS TABLE
+-- Per-module webhook routing (overrides N8N_WEBHOOK_URL_* env vars)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS public.module_settings (
+    module TEXT PRIMARY KEY CHECK (module IN ('ga', 'kdr', 'invoice', 'kdr_inv', 'kdr_sellout')),
+    webhook_url TEXT,
+    sign_requests BOOLEAN NOT NULL DEFAULT FALSE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_by UUID REFERENCES public.users(id) ON DELETE SET NULL
+);
+
+-- Step 2: Enable RLS (only the service role reads routing)
+ALTER TABLE public.module_settings ENABLE ROW LEVEL SECURITY;
+
+DO $$ 
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'module_settings' AND policyname = 'Service role can manage module settings'
+    ) THEN
+        CREATE POLICY "Service role can manage module settings" ON public.module_settings
+            FOR ALL
+            USING (auth.jwt() ->> 'role' = 'service_role');
+    END IF;
+END $$;
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT module, webhook_url, sign_requests, updated_at FROM public.module_settings;
@@ -0,0 +1,16 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Quick Replies
+-- Run this in Supabase SQL Editor to store
+-- quick reply buttons on bot messages
+-- ===========================================
+
+-- Step 1: Add quick reply columns to chats
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS actions JSONB DEFAULT NULL;
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS action_selected TEXT;
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT column_name, data_type FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'chats' AND column_name IN ('actions', 'action_selected');
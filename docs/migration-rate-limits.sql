@@ -0,0 +1,91 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Rate Limits
+-- Run this in Supabase SQL Editor to add per-module
+-- rate limit overrides and the postgres bucket store
+-- ===========================================
+
+-- Step 1: Add rate_limits to module_settings ({} means the built-in defaults)
+ALTER TABLE public.module_settings
+    ADD COLUMN IF NOT EXISTS rate_limits JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Step 2: Create rate_limit_buckets table
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+    key TEXT PRIMARY KEY,
+    tokens DOUBLE PRECISION NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_updated_at ON public.rate_limit_buckets(updated_at);
+
+-- Step 3: Enable RLS, service role only
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE tablename = 'rate_limit_buckets' AND policyname = 'Service role can manage rate limit buckets'
+    ) THEN
+        CREATE POLICY "Service role can manage rate limit buckets" ON public.rate_limit_buckets
+            FOR ALL
+            USING (auth.jwt() ->> 'role' = 'service_role');
+    END IF;
+END $$;
+
+-- Step 4: Create the function that takes a token
+CREATE OR REPLACE FUNCTION public.take_rate_limit_token(
+    p_key TEXT,
+    p_capacity INTEGER,
+    p_per_minute INTEGER
+)
+RETURNS TABLE (allowed BOOLEAN, retry_after_ms INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    rate_per_ms DOUBLE PRECISION := p_per_minute / 60000.0;
+    bucket RECORD;
+    available DOUBLE PRECISION;
+BEGIN
+    INSERT INTO public.rate_limit_buckets (key, tokens, updated_at)
+    VALUES (p_key, p_capacity, NOW())
+    ON CONFLICT (key) DO NOTHING;
+
+    SELECT tokens, updated_at INTO bucket
+    FROM public.rate_limit_buckets
+    WHERE key = p_key
+    FOR UPDATE;
+
+    available := LEAST(
+        p_capacity,
+        bucket.tokens + GREATEST(0, EXTRACT(EPOCH FROM (NOW() - bucket.updated_at)) * 1000) * rate_per_ms
+    );
+
+    IF available >= 1 THEN
+        UPDATE public.rate_limit_buckets SET tokens = available - 1, updated_at = NOW() WHERE key = p_key;
+        RETURN QUERY SELECT TRUE, 0;
+    ELSE
+        UPDATE public.rate_limit_buckets SET tokens = available, updated_at = NOW() WHERE key = p_key;
+        RETURN QUERY SELECT FALSE, CEIL((1 - available) / rate_per_ms)::INTEGER;
+    END IF;
+END;
+$$;
+
+-- Only the service role calls this
+REVOKE EXECUTE ON FUNCTION public.take_rate_limit_token(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Step 5 (optional): Clear buckets that have long since refilled
+-- DELETE FROM public.rate_limit_buckets WHERE updated_at < NOW() - INTERVAL '1 day';
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT module, rate_limits FROM public.module_settings;
+
+SELECT tablename, rowsecurity FROM pg_tables
+WHERE schemaname = 'public' AND tablename = 'rate_limit_buckets';
+
+SELECT * FROM public.take_rate_limit_token('verify:migration', 5, 10);
+DELETE FROM public.rate_limit_buckets WHERE key = 'verify:migration';
@@ -0,0 +1,20 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Reply Linkage
+-- Run this in Supabase SQL Editor to link bot
+-- replies and quoted messages to their original
+-- ===========================================
+
+-- Step 1: Add reply_to column to chats
+ALTER TABLE public.chats
+    ADD COLUMN IF NOT EXISTS reply_to UUID REFERENCES public.chats(id) ON DELETE SET NULL;
+
+-- Step 2: Index for looking up replies to a message
+CREATE INDEX IF NOT EXISTS idx_chats_reply_to ON public.chats(reply_to);
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'chats' AND column_name = 'reply_to';
@@ -0,0 +1,60 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Scheduled Messages
+-- Run this in Supabase SQL Editor to let users
+-- schedule one-off and recurring messages per module
+-- ===========================================
+
+-- Step 1: Create the scheduled_messages table
+CREATE TABLE IF NOT EXISTS public.scheduled_messages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    module TEXT NOT NULL CHECK (module IN ('ga', 'kdr', 'invoice', 'kdr_inv', 'kdr_sellout')),
+    message TEXT NOT NULL DEFAULT '',
+    attachments JSONB,
+    -- Five-field cron expression; NULL sends once at next_run_at
+    cron TEXT,
+    timezone TEXT NOT NULL DEFAULT 'UTC',
+    next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    last_chat_id UUID REFERENCES public.chats(id) ON DELETE SET NULL,
+    last_error TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_due ON public.scheduled_messages(next_run_at) WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_user_module ON public.scheduled_messages(user_id, module);
+
+-- Step 2: Enable RLS
+ALTER TABLE public.scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+-- Step 3: Users manage their own schedules, the runner uses the service role
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'scheduled_messages' AND policyname = 'Users can manage own schedules'
+    ) THEN
+        CREATE POLICY "Users can manage own schedules" ON public.scheduled_messages
+            FOR ALL
+            USING (auth.uid() = user_id)
+            WITH CHECK (auth.uid() = user_id);
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'scheduled_messages' AND policyname = 'Service role can manage schedules'
+    ) THEN
+        CREATE POLICY "Service role can manage schedules" ON public.scheduled_messages
+            FOR ALL
+            USING (auth.jwt() ->> 'role' = 'service_role');
+    END IF;
+END $$;
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT column_name, data_type FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'scheduled_messages';
+
+SELECT policyname, cmd FROM pg_policies WHERE tablename = 'scheduled_messages';
@@ -0,0 +1,63 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Signed Callbacks
+-- Run this in Supabase SQL Editor to add rotating
+-- callback signing keys and the replay guard
+-- ===========================================
+
+-- Step 1: Create callback_secrets table
+-- ===========================================
+-- CALLBACK SECRETS TABLE
+-- Active HMAC keys accepted on n8n callbacks (several at once for rotation)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS public.callback_secrets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    label TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_callback_secrets_active ON public.callback_secrets(is_active);
+
+-- Step 2: Create callback_signatures_seen table
+-- ===========================================
+-- CALLBACK SIGNATURES SEEN TABLE
+-- Replay guard: each signature is accepted once within the timestamp window
+-- ===========================================
+CREATE TABLE IF NOT EXISTS public.callback_signatures_seen (
+    signature TEXT PRIMARY KEY,
+    received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_callback_signatures_seen_received_at ON public.callback_signatures_seen(received_at);
+
+-- Step 3: Enable RLS (only the service role reads keys)
+ALTER TABLE public.callback_secrets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.callback_signatures_seen ENABLE ROW LEVEL SECURITY;
+
+DO $$ 
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'callback_secrets' AND policyname = 'Service role can manage callback secrets'
+    ) THEN
+        CREATE POLICY "Service role can manage callback secrets" ON public.callback_secrets
+            FOR ALL
+            USING (auth.jwt() ->> 'role' = 'service_role');
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'callback_signatures_seen' AND policyname = 'Service role can manage callback signatures'
+    ) THEN
+        CREATE POLICY "Service role can manage callback signatures" ON public.callback_signatures_seen
+            FOR ALL
+            USING (auth.jwt() ->> 'role' = 'service_role');
+    END IF;
+END $$;
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT label, is_active, created_at, revoked_at FROM public.callback_secrets;
@@ -0,0 +1,56 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Streaming Responses
+-- Run this in Supabase SQL Editor to let n8n
+-- deliver bot responses in chunks
+-- ===========================================
+
+-- Step 1: Add stream columns to chats
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS stream_state TEXT DEFAULT NULL;
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS stream_seq INTEGER;
+
+DO $$ 
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'chats_stream_state_check'
+    ) THEN
+        ALTER TABLE public.chats ADD CONSTRAINT chats_stream_state_check
+            CHECK (stream_state IN ('streaming', 'complete'));
+    END IF;
+END $$;
+
+-- Step 2: Create chat_chunks table
+-- ===========================================
+-- CHAT CHUNKS TABLE
+-- Pieces of streamed bot responses, assembled in seq order
+-- ===========================================
+CREATE TABLE IF NOT EXISTS public.chat_chunks (
+    chat_id UUID NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL CHECK (seq >= 0),
+    content TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (chat_id, seq)
+);
+
+-- Step 3: Enable RLS (only the service role touches chunks)
+ALTER TABLE public.chat_chunks ENABLE ROW LEVEL SECURITY;
+
+DO $$ 
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'chat_chunks' AND policyname = 'Service role can manage chat chunks'
+    ) THEN
+        CREATE POLICY "Service role can manage chat chunks" ON public.chat_chunks
+            FOR ALL
+            USING (auth.jwt() ->> 'role' = 'service_role');
+    END IF;
+END $$;
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT column_name, data_type FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'chats' AND column_name IN ('stream_state', 'stream_seq');
+
+SELECT tablename, rowsecurity FROM pg_tables
+WHERE schemaname = 'public' AND tablename = 'chat_chunks';
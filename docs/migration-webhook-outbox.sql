@@ -0,0 +1,48 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Webhook Outbox
+-- Run this in Supabase SQL Editor to add durable,
+-- retried delivery of chat messages to n8n
+-- ===========================================
+
+-- Step 1: Create webhook_outbox table
+CREATE TABLE IF NOT EXISTS public.webhook_outbox (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chat_id UUID NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    module TEXT NOT NULL CHECK (module IN ('ga', 'kdr', 'invoice', 'kdr_inv', 'kdr_sellout')),
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'delivered', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 6,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    delivered_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Step 2: Create indexes
+CREATE INDEX IF NOT EXISTS idx_webhook_outbox_due ON public.webhook_outbox(next_attempt_at)
+    WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_webhook_outbox_chat_id ON public.webhook_outbox(chat_id);
+
+-- Step 3: Enable RLS (only the service role touches the outbox)
+ALTER TABLE public.webhook_outbox ENABLE ROW LEVEL SECURITY;
+
+DO $$ 
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'webhook_outbox' AND policyname = 'Service role can manage webhook outbox'
+    ) THEN
+        CREATE POLICY "Service role can manage webhook outbox" ON public.webhook_outbox
+            FOR ALL
+            USING (auth.jwt() ->> 'role' = 'service_role');
+    END IF;
+END $$;
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+-- Check pending and failed dispatches
+SELECT status, COUNT(*) FROM public.webhook_outbox GROUP BY status;
@@ -0,0 +1,16 @@
+-- ===========================================
+-- MIGRATION SCRIPT: Workflow Forms
+-- Run this in Supabase SQL Editor to store
+-- forms requested by workflows and their answers
+-- ===========================================
+
+-- Step 1: Add form columns to chats
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS form JSONB DEFAULT NULL;
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS form_response JSONB DEFAULT NULL;
+
+-- ===========================================
+-- VERIFY MIGRATION
+-- ===========================================
+
+SELECT column_name, data_type FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'chats' AND column_name IN ('form', 'form_response');
@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomBytes } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { invalidateCallbackSecretCache } from '@/lib/callback-auth';
+import { CallbackSecret } from '@/types';
+
+// Service role client for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+// Check if user is admin
+async function isAdmin(userId: string): Promise<boolean> {
+  const { data } = await supabaseAdmin
+    .from('users')
+    .select('is_admin')
+    .eq('id', userId)
+    .single();
+  
+  return data?.is_admin === true;
+}
+
+// Log admin action
+async function logAuditAction(
+  adminId: string, 
+  action: string, 
+  details?: Record<string, unknown>
+) {
+  try {
+    await supabaseAdmin.from('audit_logs').insert({
+      admin_id: adminId,
+      action,
+      details: details || {},
+    });
+  } catch (error) {
+    console.error('Failed to log audit action:', error);
+  }
+}
+
+// Only the last characters of a secret are ever sent back after creation
+function toPublicSecret(row: Record<string, unknown>): CallbackSecret {
+  return {
+    id: row.id as string,
+    label: row.label as string,
+    secret_hint: `••••${(row.secret as string).slice(-4)}`,
+    is_active: row.is_active as boolean,
+    created_at: row.created_at as string,
+    revoked_at: (row.revoked_at as string | null) || null,
+  };
+}
+
+// GET - List callback signing secrets
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check admin status
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('callback_secrets')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Failed to fetch callback secrets:', error);
+      return NextResponse.json({ error: 'Failed to fetch callback secrets' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      secrets: (data || []).map(toPublicSecret),
+      has_env_secret: !!process.env.N8N_CALLBACK_SECRET,
+    });
+
+  } catch (error) {
+    console.error('Get callback secrets error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Generate a new callback signing secret
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check admin status
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { label } = await request.json();
+
+    if (!label || typeof label !== 'string' || !label.trim()) {
+      return NextResponse.json({ error: 'Label is required' }, { status: 400 });
+    }
+
+    const secret = randomBytes(32).toString('hex');
+
+    const { data, error } = await supabaseAdmin
+      .from('callback_secrets')
+      .insert({
+        label: label.trim(),
+        secret,
+        is_active: true,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Failed to create callback secret:', error);
+      return NextResponse.json({ error: 'Failed to create callback secret' }, { status: 500 });
+    }
+
+    invalidateCallbackSecretCache();
+
+    // Log audit (never the secret itself)
+    await logAuditAction(user.id, 'CREATE_CALLBACK_SECRET', { id: data.id, label: data.label });
+
+    // The full secret is returned once, so it can be copied into n8n
+    return NextResponse.json({
+      success: true,
+      secret: toPublicSecret(data),
+      value: secret,
+    });
+
+  } catch (error) {
+    console.error('Create callback secret error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Revoke a callback signing secret
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check admin status
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const secretId = searchParams.get('id');
+
+    if (!secretId) {
+      return NextResponse.json({ error: 'Secret ID required' }, { status: 400 });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('callback_secrets')
+      .update({
+        is_active: false,
+        revoked_at: new Date().toISOString(),
+      })
+      .eq('id', secretId);
+
+    if (error) {
+      console.error('Failed to revoke callback secret:', error);
+      return NextResponse.json({ error: 'Failed to revoke callback secret' }, { status: 500 });
+    }
+
+    invalidateCallbackSecretCache();
+
+    // Log audit
+    await logAuditAction(user.id, 'REVOKE_CALLBACK_SECRET', { id: secretId });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Revoke callback secret error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
 
 // This endpoint creates users using the Supabase Admin API
 // which properly handles password hashing
@@ -15,14 +16,31 @@ const supabaseAdmin = createClient(
   }
 );
 
+// Check if user is admin
+async function isAdmin(userId: string): Promise<boolean> {
+  const { data } = await supabaseAdmin
+    .from('users')
+    .select('is_admin')
+    .eq('id', userId)
+    .single();
+  
+  return data?.is_admin === true;
+}
+
 export async function POST(request: NextRequest) {
   try {
-    // Simple admin protection - in production use better auth
-    const adminSecret = request.headers.get('x-admin-secret');
-    if (adminSecret !== process.env.N8N_CALLBACK_SECRET) {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    // Check admin status
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
     const { username, password, modules, is_admin } = await request.json();
 
     if (!username || !password) {
@@ -0,0 +1,241 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { invalidateModuleSettingsCache, resolveWebhook, getEnvWebhookUrl } from '@/lib/module-settings';
+import { isSigningEnabled } from '@/lib/webhook-signing';
+import { HISTORY_DEFAULTS, HISTORY_MAX_MESSAGES } from '@/lib/history';
+import { RATE_LIMIT_SCOPES, resolveRateLimits, validateRateLimitRule } from '@/lib/rate-limit';
+import { ModuleType, ModuleSettings, RateLimitRule, RateLimitScope, MODULE_CONFIG } from '@/types';
+
+// Service role client for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+// Check if user is admin
+async function isAdmin(userId: string): Promise<boolean> {
+  const { data } = await supabaseAdmin
+    .from('users')
+    .select('is_admin')
+    .eq('id', userId)
+    .single();
+  
+  return data?.is_admin === true;
+}
+
+// Log admin action
+async function logAuditAction(
+  adminId: string, 
+  action: string, 
+  details?: Record<string, unknown>
+) {
+  try {
+    await supabaseAdmin.from('audit_logs').insert({
+      admin_id: adminId,
+      action,
+      details: details || {},
+    });
+  } catch (error) {
+    console.error('Failed to log audit action:', error);
+  }
+}
+
+// GET - Get settings for every module
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check admin status
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { data: rows, error } = await supabaseAdmin
+      .from('module_settings')
+      .select('*');
+
+    if (error) {
+      console.error('Failed to fetch module settings:', error);
+      return NextResponse.json({ error: 'Failed to fetch module settings' }, { status: 500 });
+    }
+
+    const rowMap = new Map((rows as ModuleSettings[] || []).map(r => [r.module, r]));
+    const allModules = Object.keys(MODULE_CONFIG) as ModuleType[];
+
+    // Bypass the cache so the panel always shows what's stored
+    invalidateModuleSettingsCache();
+
+    const modules = await Promise.all(allModules.map(async (module) => {
+      const row = rowMap.get(module);
+      const effective = await resolveWebhook(supabaseAdmin, module);
+
+      return {
+        module,
+        webhook_url: row?.webhook_url || '',
+        cancel_webhook_url: row?.cancel_webhook_url || '',
+        sign_requests: row?.sign_requests === true,
+        history_limit: row?.history_limit ?? HISTORY_DEFAULTS.history_limit,
+        history_max_chars: row?.history_max_chars ?? HISTORY_DEFAULTS.history_max_chars,
+        history_senders: row?.history_senders ?? HISTORY_DEFAULTS.history_senders,
+        history_include_attachments: row?.history_include_attachments ?? HISTORY_DEFAULTS.history_include_attachments,
+        render_markdown: row?.render_markdown ?? true,
+        rate_limits: resolveRateLimits(row?.rate_limits),
+        env_webhook_url: getEnvWebhookUrl(module) || null,
+        env_signing: isSigningEnabled(module),
+        effective_url: effective?.url || null,
+        source: effective?.source || null,
+      };
+    }));
+
+    return NextResponse.json({ modules });
+
+  } catch (error) {
+    console.error('Get module settings error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT - Update settings for one module; omitted fields keep their value
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check admin status
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { module } = body;
+
+    if (!Object.keys(MODULE_CONFIG).includes(module)) {
+      return NextResponse.json({ error: 'Invalid module' }, { status: 400 });
+    }
+
+    const updates: Record<string, unknown> = {};
+
+    if (body.webhook_url !== undefined) {
+      // Validate URL if provided
+      if (body.webhook_url) {
+        try {
+          new URL(body.webhook_url);
+        } catch {
+          return NextResponse.json({ error: 'Invalid webhook URL' }, { status: 400 });
+        }
+      }
+      updates.webhook_url = body.webhook_url || null;
+    }
+
+    if (body.cancel_webhook_url !== undefined) {
+      if (body.cancel_webhook_url) {
+        try {
+          new URL(body.cancel_webhook_url);
+        } catch {
+          return NextResponse.json({ error: 'Invalid cancel webhook URL' }, { status: 400 });
+        }
+      }
+      updates.cancel_webhook_url = body.cancel_webhook_url || null;
+    }
+
+    if (body.sign_requests !== undefined) {
+      updates.sign_requests = body.sign_requests === true;
+    }
+
+    if (body.history_limit !== undefined) {
+      const limit = Number(body.history_limit);
+      if (!Number.isInteger(limit) || limit < 0 || limit > HISTORY_MAX_MESSAGES) {
+        return NextResponse.json(
+          { error: `History limit must be between 0 and ${HISTORY_MAX_MESSAGES}` },
+          { status: 400 }
+        );
+      }
+      updates.history_limit = limit;
+    }
+
+    if (body.history_max_chars !== undefined) {
+      const maxChars = Number(body.history_max_chars);
+      if (!Number.isInteger(maxChars) || maxChars < 0 || maxChars > 100000) {
+        return NextResponse.json({ error: 'History size must be between 0 and 100000 characters' }, { status: 400 });
+      }
+      updates.history_max_chars = maxChars;
+    }
+
+    if (body.history_senders !== undefined) {
+      const senders = body.history_senders;
+      if (!Array.isArray(senders) || senders.some((s: unknown) => s !== 'user' && s !== 'bot')) {
+        return NextResponse.json({ error: 'History senders must be "user" and/or "bot"' }, { status: 400 });
+      }
+      updates.history_senders = Array.from(new Set(senders));
+    }
+
+    if (body.history_include_attachments !== undefined) {
+      updates.history_include_attachments = body.history_include_attachments === true;
+    }
+
+    if (body.render_markdown !== undefined) {
+      updates.render_markdown = body.render_markdown === true;
+    }
+
+    if (body.rate_limits !== undefined) {
+      if (!body.rate_limits || typeof body.rate_limits !== 'object' || Array.isArray(body.rate_limits)) {
+        return NextResponse.json({ error: 'Rate limits must be an object' }, { status: 400 });
+      }
+
+      const rateLimits: Partial<Record<RateLimitScope, RateLimitRule>> = {};
+      for (const [scope, rule] of Object.entries(body.rate_limits)) {
+        if (!RATE_LIMIT_SCOPES.includes(scope as RateLimitScope)) {
+          return NextResponse.json({ error: `Unknown rate limit "${scope}"` }, { status: 400 });
+        }
+        const validation = validateRateLimitRule(rule);
+        if (!validation.valid) {
+          return NextResponse.json({ error: `${scope}: ${validation.error}` }, { status: 400 });
+        }
+        rateLimits[scope as RateLimitScope] = validation.value;
+      }
+      updates.rate_limits = rateLimits;
+    }
+
+    // Upsert only writes the columns sent, so stored values for omitted fields survive
+    const { error } = await supabaseAdmin
+      .from('module_settings')
+      .upsert({
+        module,
+        ...updates,
+        updated_at: new Date().toISOString(),
+        updated_by: user.id,
+      });
+
+    if (error) {
+      console.error('Failed to update module settings:', error);
+      return NextResponse.json({ error: 'Failed to update module settings' }, { status: 500 });
+    }
+
+    invalidateModuleSettingsCache();
+
+    // Log audit
+    await logAuditAction(user.id, 'UPDATE_MODULE_SETTINGS', { module, ...updates });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Update module settings error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { invalidateModuleSettingsCache } from '@/lib/module-settings';
 
 // Service role client for admin operations
 const supabaseAdmin = createClient(
@@ -121,6 +122,9 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to update settings' }, { status: 500 });
     }
 
+    // The default webhook is part of routing, drop the cached copy
+    invalidateModuleSettingsCache();
+
     // Log audit
     await logAuditAction(user.id, 'UPDATE_SETTINGS', { webhook_url });
 
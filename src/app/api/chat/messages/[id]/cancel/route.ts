@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { Chat, N8nPayload } from '@/types';
+import { updateChatStatus } from '@/lib/chat-status';
+import { clearChatActivity } from '@/lib/chat-activity';
+import { enqueueDispatch, processOutboxEntry } from '@/lib/outbox';
+import { isCancellable, abandonPendingDispatches } from '@/lib/cancellation';
+
+// POST - Cancel the workflow job for a user message
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    // Check authentication
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { data: chat } = await supabase
+      .from('chats')
+      .select('*')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!chat) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      );
+    }
+
+    const original = chat as Chat;
+
+    if (!isCancellable(original)) {
+      return NextResponse.json(
+        { error: 'This message is no longer being processed' },
+        { status: 409 }
+      );
+    }
+
+    const serviceClient = await createServiceRoleClient();
+
+    // The transition check makes this lose cleanly to a reply that lands first
+    const cancelled = await updateChatStatus(serviceClient, original.id, 'cancelled', user.id);
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: 'This message is no longer being processed' },
+        { status: 409 }
+      );
+    }
+
+    await abandonPendingDispatches(serviceClient, original.id);
+    await clearChatActivity(serviceClient, original.id);
+
+    const n8nPayload: N8nPayload = {
+      event: 'cancelled',
+      user_id: user.id,
+      chat_id: original.id,
+      module: original.module,
+      conversation_id: original.conversation_id,
+      message: original.message,
+      attachments: original.attachments,
+      callback_url: `${process.env.NEXT_PUBLIC_APP_URL}/api/n8n/callback`,
+    };
+
+    // The message stays cancelled either way; late replies are suppressed regardless
+    try {
+      const outboxEntry = await enqueueDispatch(serviceClient, n8nPayload);
+      await processOutboxEntry(serviceClient, outboxEntry);
+    } catch (enqueueError) {
+      console.error('Failed to queue n8n cancel event:', enqueueError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      chat: { ...original, status: 'cancelled' },
+    });
+  } catch (error) {
+    console.error('Chat cancel error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { Chat, ModuleType, N8nPayload } from '@/types';
+import { enqueueDispatch, processOutboxEntry } from '@/lib/outbox';
+import { isEditable, EDIT_WINDOW_MINUTES, EDIT_WINDOW_MS } from '@/lib/message-edits';
+import { checkRateLimit, tooManyRequests } from '@/lib/rate-limit';
+
+// PATCH - Edit a user message and forward the edit to n8n
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    // Check authentication
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const message = typeof body.message === 'string' ? body.message.trim() : '';
+
+    const { data: chat } = await supabase
+      .from('chats')
+      .select('*')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!chat) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      );
+    }
+
+    const original = chat as Chat;
+
+    if (original.sender !== 'user') {
+      return NextResponse.json(
+        { error: 'Only your own messages can be edited' },
+        { status: 403 }
+      );
+    }
+
+    if (!isEditable(original)) {
+      return NextResponse.json(
+        { error: `Messages can only be edited within ${EDIT_WINDOW_MINUTES} minutes of sending` },
+        { status: 403 }
+      );
+    }
+
+    if (!message && !(original.attachments && original.attachments.length > 0)) {
+      return NextResponse.json(
+        { error: 'Message cannot be empty' },
+        { status: 400 }
+      );
+    }
+
+    if (message === original.message) {
+      return NextResponse.json({ success: true, chat: original });
+    }
+
+    // Check user still has access to this module
+    const { data: userData } = await supabase
+      .from('users')
+      .select('modules')
+      .eq('id', user.id)
+      .single();
+
+    const userModules = (userData?.modules || []) as ModuleType[];
+
+    if (!userModules.includes(original.module)) {
+      return NextResponse.json(
+        { error: 'Access denied to this module' },
+        { status: 403 }
+      );
+    }
+
+    const serviceClient = await createServiceRoleClient();
+
+    // An edit runs the workflow again, so it counts like a send
+    const limit = await checkRateLimit(serviceClient, { scope: 'send', userId: user.id, module: original.module });
+    if (!limit.ok) {
+      return tooManyRequests(
+        limit.retryAfterSeconds,
+        `Too many messages, try again in ${limit.retryAfterSeconds} seconds`
+      );
+    }
+
+    // Users can't update chats themselves, so edits are written here after the
+    // checks above; the created_at bound keeps the edit window if it just ran out
+    const { data: updated, error: updateError } = await serviceClient
+      .from('chats')
+      .update({
+        message,
+        edited_at: new Date().toISOString(),
+      })
+      .eq('id', original.id)
+      .eq('user_id', user.id)
+      .eq('sender', 'user')
+      .gt('created_at', new Date(Date.now() - EDIT_WINDOW_MS).toISOString())
+      .select()
+      .maybeSingle();
+
+    if (updateError || !updated) {
+      console.error('Failed to edit chat:', updateError);
+      return NextResponse.json(
+        { error: 'Failed to edit message' },
+        { status: updateError ? 500 : 403 }
+      );
+    }
+
+    const n8nPayload: N8nPayload = {
+      event: 'edited',
+      user_id: user.id,
+      chat_id: original.id,
+      module: original.module,
+      conversation_id: original.conversation_id,
+      message,
+      previous_message: original.message,
+      attachments: original.attachments,
+      callback_url: `${process.env.NEXT_PUBLIC_APP_URL}/api/n8n/callback`,
+    };
+
+    let outboxEntry;
+
+    try {
+      outboxEntry = await enqueueDispatch(serviceClient, n8nPayload);
+    } catch (enqueueError) {
+      console.error('Failed to queue n8n edit event:', enqueueError);
+      // Rollback: the workflow would never hear about the edit
+      await serviceClient
+        .from('chats')
+        .update({ message: original.message, edited_at: original.edited_at })
+        .eq('id', original.id);
+      return NextResponse.json(
+        { error: 'Failed to queue edit' },
+        { status: 500 }
+      );
+    }
+
+    // First attempt inline, the outbox worker retries failures
+    await processOutboxEntry(serviceClient, outboxEntry);
+
+    return NextResponse.json({
+      success: true,
+      chat: updated,
+    });
+  } catch (error) {
+    console.error('Chat edit error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { ModuleType, MODULE_CONFIG } from '@/types';
+import { buildSearchQuery, MAX_SEARCH_QUERY_LENGTH } from '@/lib/search';
+
+const DEFAULT_RESULT_LIMIT = 20;
+
+/**
+ * Parse an optional date filter; undefined when missing, null when invalid
+ */
+function parseDateParam(value: string | null): string | null | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : new Date(time).toISOString();
+}
+
+// GET - Full-text search over the user's messages and attachment names
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const text = searchParams.get('q') || '';
+    const module = searchParams.get('module') as ModuleType | null;
+    const sender = searchParams.get('sender');
+    const from = parseDateParam(searchParams.get('from'));
+    const to = parseDateParam(searchParams.get('to'));
+    const limit = parseInt(searchParams.get('limit') || '', 10) || DEFAULT_RESULT_LIMIT;
+
+    if (text.length > MAX_SEARCH_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `Search must be at most ${MAX_SEARCH_QUERY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (module && !Object.keys(MODULE_CONFIG).includes(module)) {
+      return NextResponse.json({ error: 'Invalid module' }, { status: 400 });
+    }
+
+    if (sender && sender !== 'user' && sender !== 'bot') {
+      return NextResponse.json({ error: "sender must be 'user' or 'bot'" }, { status: 400 });
+    }
+
+    if (from === null || to === null) {
+      return NextResponse.json({ error: 'from and to must be dates' }, { status: 400 });
+    }
+
+    const query = buildSearchQuery(text);
+    if (!query) {
+      return NextResponse.json({ results: [] });
+    }
+
+    // Only modules the user can still open
+    const { data: userData } = await supabase
+      .from('users')
+      .select('modules')
+      .eq('id', user.id)
+      .single();
+
+    const userModules = (userData?.modules || []) as ModuleType[];
+    const modules = module ? userModules.filter((m) => m === module) : userModules;
+
+    if (modules.length === 0) {
+      return NextResponse.json({ results: [] });
+    }
+
+    // Runs as the user, so RLS keeps results to their own messages
+    const { data, error } = await supabase.rpc('search_chats', {
+      p_query: query,
+      p_modules: modules,
+      p_sender: sender || null,
+      p_from: from || null,
+      p_to: to || null,
+      p_limit: limit,
+    });
+
+    if (error) {
+      console.error('Chat search failed:', error);
+      return NextResponse.json({ error: 'Search failed' }, { status: 500 });
+    }
+
+    return NextResponse.json({ results: data || [] });
+
+  } catch (error) {
+    console.error('Chat search error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,30 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerSupabaseClient } from '@/lib/supabase/server';
-import { v4 as uuidv4 } from 'uuid';
-import { SendMessagePayload, N8nPayload, ModuleType, MODULE_CONFIG } from '@/types';
-
-// Module-specific webhook URLs
-// Falls back to N8N_WEBHOOK_URL if module-specific URL is not set
-function getWebhookUrl(module: ModuleType): string | undefined {
-  const moduleWebhookEnvMap: Record<ModuleType, string> = {
-    ga: 'N8N_WEBHOOK_URL_GA',
-    kdr: 'N8N_WEBHOOK_URL_KDR',
-    invoice: 'N8N_WEBHOOK_URL_INVOICE',
-    kdr_inv: 'N8N_WEBHOOK_URL_KDR_INV',
-    kdr_sellout: 'N8N_WEBHOOK_URL_KDR_SELLOUT',
-  };
-
-  // Try module-specific URL first, then fall back to default
-  return process.env[moduleWebhookEnvMap[module]] || process.env.N8N_WEBHOOK_URL;
-}
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { SendMessagePayload } from '@/types';
+import { sendChatMessage } from '@/lib/send-message';
+import { readIdempotencyKey, IDEMPOTENT_REPLAYED_HEADER } from '@/lib/idempotency';
+import { tooManyRequests } from '@/lib/rate-limit';
 
 export async function POST(request: NextRequest) {
   try {
     const supabase = await createServerSupabaseClient();
-    
+
     // Check authentication
     const { data: { user } } = await supabase.auth.getUser();
-    
+
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -32,104 +19,43 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const body: SendMessagePayload = await request.json();
-    const { module, message, attachments } = body;
-
-    // Validate module
-    if (!Object.keys(MODULE_CONFIG).includes(module)) {
+    const idempotency = readIdempotencyKey(request);
+    if (!idempotency.valid) {
       return NextResponse.json(
-        { error: 'Invalid module' },
+        { error: idempotency.error },
         { status: 400 }
       );
     }
 
-    // Check user has access to this module
-    const { data: userData } = await supabase
-      .from('users')
-      .select('modules')
-      .eq('id', user.id)
-      .single();
-
-    const userModules = (userData?.modules || []) as ModuleType[];
-    
-    if (!userModules.includes(module)) {
-      return NextResponse.json(
-        { error: 'Access denied to this module' },
-        { status: 403 }
-      );
-    }
-
-    // Generate chat ID
-    const chatId = uuidv4();
+    const body: SendMessagePayload = await request.json();
+    const serviceClient = await createServiceRoleClient();
 
-    // Insert user message into chats table
-    const { data: chatData, error: chatError } = await supabase
-      .from('chats')
-      .insert({
-        id: chatId,
-        user_id: user.id,
-        module,
-        sender: 'user',
-        message,
-        attachments: attachments || null,
-      })
-      .select()
-      .single();
+    const result = await sendChatMessage(
+      { supabase, serviceClient },
+      { userId: user.id, payload: body, idempotencyKey: idempotency.key }
+    );
 
-    if (chatError) {
-      console.error('Failed to insert chat:', chatError);
+    if (!result.ok) {
+      if (result.status === 429 && result.retryAfterSeconds !== undefined) {
+        return tooManyRequests(result.retryAfterSeconds, result.error);
+      }
       return NextResponse.json(
-        { error: 'Failed to save message' },
-        { status: 500 }
+        { error: result.error, errors: result.errors },
+        { status: result.status }
       );
     }
 
-    // Prepare n8n webhook payload
-    const callbackUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/n8n/callback`;
-    
-    const n8nPayload: N8nPayload = {
-      user_id: user.id,
-      chat_id: chatId,
-      module,
-      message,
-      attachments: attachments || null,
-      callback_url: callbackUrl,
-    };
-
-    // Get module-specific webhook URL
-    const n8nWebhookUrl = getWebhookUrl(module);
-    
-    if (!n8nWebhookUrl) {
-      console.error(`No webhook URL configured for module: ${module}`);
+    // A retried request gets the message the first one saved
+    if (result.replayed) {
       return NextResponse.json(
-        { error: 'Webhook not configured for this module' },
-        { status: 500 }
+        { success: true, chat: result.chat, replayed: true },
+        { headers: { [IDEMPOTENT_REPLAYED_HEADER]: 'true' } }
       );
     }
 
-    console.log(`Sending to webhook for module ${module}: ${n8nWebhookUrl}`);
-
-    try {
-      const webhookResponse = await fetch(n8nWebhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(n8nPayload),
-      });
-
-      if (!webhookResponse.ok) {
-        console.error('n8n webhook failed:', await webhookResponse.text());
-        // Don't fail the request - message is saved, n8n will retry or handle errors
-      }
-    } catch (webhookError) {
-      console.error('Failed to send to n8n webhook:', webhookError);
-      // Don't fail - message is saved
-    }
-
     return NextResponse.json({
       success: true,
-      chat: chatData,
+      chat: result.chat,
     });
   } catch (error) {
     console.error('Chat send error:', error);
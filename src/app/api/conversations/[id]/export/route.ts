@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { Chat, Conversation, ModuleType } from '@/types';
+import { isValidTimeZone } from '@/lib/cron';
+import {
+  renderTranscript,
+  ExportFormat,
+  EXPORT_FORMATS,
+  MAX_EXPORT_MESSAGES,
+} from '@/lib/export';
+
+// Rows per query; PostgREST caps responses at 1000 by default
+const EXPORT_BATCH_SIZE = 1000;
+
+/**
+ * Parse an optional date filter; undefined when missing, null when invalid
+ */
+function parseDateParam(value: string | null): string | null | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : new Date(time).toISOString();
+}
+
+// GET - Download a conversation transcript, optionally limited to a date range
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'pdf') as ExportFormat;
+    const from = parseDateParam(searchParams.get('from'));
+    const to = parseDateParam(searchParams.get('to'));
+    const timeZone = searchParams.get('tz') || 'UTC';
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (from === null || to === null) {
+      return NextResponse.json({ error: 'from and to must be dates' }, { status: 400 });
+    }
+
+    if (from && to && from >= to) {
+      return NextResponse.json({ error: 'from must be before to' }, { status: 400 });
+    }
+
+    if (!isValidTimeZone(timeZone)) {
+      return NextResponse.json({ error: 'Invalid time zone' }, { status: 400 });
+    }
+
+    const { data: conversation } = await supabase
+      .from('conversations')
+      .select('*')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    // Only modules the user can still open
+    const { data: userData } = await supabase
+      .from('users')
+      .select('modules')
+      .eq('id', user.id)
+      .single();
+
+    const userModules = (userData?.modules || []) as ModuleType[];
+
+    if (!userModules.includes(conversation.module)) {
+      return NextResponse.json({ error: 'Access denied to this module' }, { status: 403 });
+    }
+
+    // Oldest first, in batches; one extra row tells us the export was cut short
+    const messages: Chat[] = [];
+    let last: Chat | null = null;
+
+    while (messages.length <= MAX_EXPORT_MESSAGES) {
+      let query = supabase
+        .from('chats')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('conversation_id', conversation.id)
+        // Replies that arrived after the user cancelled are kept but not shown
+        .eq('suppressed', false);
+
+      if (from) query = query.gte('created_at', from);
+      if (to) query = query.lt('created_at', to);
+
+      if (last) {
+        query = query.or(
+          `created_at.gt."${last.created_at}",and(created_at.eq."${last.created_at}",id.gt.${last.id})`
+        );
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(Math.min(EXPORT_BATCH_SIZE, MAX_EXPORT_MESSAGES + 1 - messages.length));
+
+      if (error) {
+        console.error('Failed to load messages for export:', error);
+        return NextResponse.json({ error: 'Failed to export conversation' }, { status: 500 });
+      }
+
+      const rows = (data || []) as Chat[];
+      messages.push(...rows);
+
+      if (rows.length === 0 || rows.length < EXPORT_BATCH_SIZE) break;
+      last = rows[rows.length - 1];
+    }
+
+    const truncated = messages.length > MAX_EXPORT_MESSAGES;
+
+    const rendered = renderTranscript({
+      conversation: conversation as Conversation,
+      messages: messages.slice(0, MAX_EXPORT_MESSAGES),
+      from: from || null,
+      to: to || null,
+      timeZone,
+      exportedAt: new Date().toISOString(),
+      truncated,
+    }, format);
+
+    return new NextResponse(rendered.body, {
+      headers: {
+        'Content-Type': rendered.contentType,
+        'Content-Disposition': `attachment; filename="${rendered.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error) {
+    console.error('Export conversation error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
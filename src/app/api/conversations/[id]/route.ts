@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { validateConversationTitle } from '@/lib/conversations';
+
+// PATCH - Rename, archive or restore a conversation
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+    if (body.title !== undefined) {
+      const title = validateConversationTitle(body.title);
+      if (!title.valid) {
+        return NextResponse.json({ error: title.error }, { status: 400 });
+      }
+      updates.title = title.value;
+    }
+
+    if (body.archived !== undefined) {
+      if (typeof body.archived !== 'boolean') {
+        return NextResponse.json({ error: 'archived must be a boolean' }, { status: 400 });
+      }
+      updates.archived_at = body.archived ? new Date().toISOString() : null;
+    }
+
+    const { data: updated, error } = await supabase
+      .from('conversations')
+      .update(updates)
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to update conversation:', error);
+      return NextResponse.json({ error: 'Failed to update conversation' }, { status: 500 });
+    }
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, conversation: updated });
+
+  } catch (error) {
+    console.error('Update conversation error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { ModuleType, MODULE_CONFIG } from '@/types';
+import { validateConversationTitle } from '@/lib/conversations';
+
+// GET - The user's conversations in a module, most recently active first
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const module = searchParams.get('module') as ModuleType | null;
+    const archived = searchParams.get('archived') === 'true';
+
+    if (!module || !Object.keys(MODULE_CONFIG).includes(module)) {
+      return NextResponse.json({ error: 'Invalid module' }, { status: 400 });
+    }
+
+    let query = supabase
+      .from('conversations')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('module', module);
+
+    query = archived ? query.not('archived_at', 'is', null) : query.is('archived_at', null);
+
+    const { data: conversations, error } = await query.order('last_message_at', { ascending: false });
+
+    if (error) {
+      console.error('Failed to load conversations:', error);
+      return NextResponse.json({ error: 'Failed to load conversations' }, { status: 500 });
+    }
+
+    return NextResponse.json({ conversations: conversations || [] });
+
+  } catch (error) {
+    console.error('Get conversations error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Start a new conversation in a module
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const module = body.module as ModuleType;
+
+    if (!Object.keys(MODULE_CONFIG).includes(module)) {
+      return NextResponse.json({ error: 'Invalid module' }, { status: 400 });
+    }
+
+    const title = validateConversationTitle(body.title === undefined ? null : body.title);
+    if (!title.valid) {
+      return NextResponse.json({ error: title.error }, { status: 400 });
+    }
+
+    // Check user has access to this module
+    const { data: userData } = await supabase
+      .from('users')
+      .select('modules')
+      .eq('id', user.id)
+      .single();
+
+    const userModules = (userData?.modules || []) as ModuleType[];
+
+    if (!userModules.includes(module)) {
+      return NextResponse.json({ error: 'Access denied to this module' }, { status: 403 });
+    }
+
+    const { data: conversation, error } = await supabase
+      .from('conversations')
+      .insert({
+        user_id: user.id,
+        module,
+        title: title.value,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Failed to create conversation:', error);
+      return NextResponse.json({ error: 'Failed to create conversation' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, conversation });
+
+  } catch (error) {
+    console.error('Create conversation error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { getModuleHealthRow, getHealthStatus } from '@/lib/module-health';
+import { ModuleType, MODULE_CONFIG } from '@/types';
+
+// GET - Current health of a module's n8n workflow
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const module = searchParams.get('module') as ModuleType | null;
+
+    if (!module || !Object.keys(MODULE_CONFIG).includes(module)) {
+      return NextResponse.json({ error: 'Invalid module' }, { status: 400 });
+    }
+
+    // Health is service-role only; expose a summary without error details
+    const serviceClient = await createServiceRoleClient();
+    const health = await getModuleHealthRow(serviceClient, module);
+
+    return NextResponse.json({
+      module,
+      status: getHealthStatus(health),
+      consecutive_failures: health?.consecutive_failures || 0,
+      avg_latency_ms: health?.avg_latency_ms ?? null,
+      last_success_at: health?.last_success_at || null,
+      last_failure_at: health?.last_failure_at || null,
+    });
+
+  } catch (error) {
+    console.error('Get module health error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { N8nJobPayload, MODULE_CONFIG } from '@/types';
+import { authenticateCallback } from '@/lib/callback-auth';
+import { checkRateLimit, tooManyRequests } from '@/lib/rate-limit';
+import { updateChatStatus } from '@/lib/chat-status';
+import { updateJob, MAX_JOB_STEP_LENGTH, MAX_JOB_ERROR_LENGTH } from '@/lib/jobs';
+
+// Job progress for the jobs panel: state, percent complete, current step and
+// error reason. Running and failed states also move the message's status.
+// Signed the same way as /api/n8n/callback.
+
+const REPORTABLE_STATES = ['running', 'succeeded', 'failed'];
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServiceRoleClient();
+
+    // Verify HMAC signature, timestamp window and replay guard
+    const auth = await authenticateCallback(request, supabase);
+
+    if (!auth.ok) {
+      console.error('[n8n Job] Authentication failed:', auth.error);
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    let body: N8nJobPayload;
+    try {
+      body = JSON.parse(auth.rawBody);
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const { chat_id, user_id, module, state, progress, step, error } = body;
+
+    if (!chat_id || !user_id || !module) {
+      return NextResponse.json(
+        { error: 'Missing required fields: chat_id, user_id, module' },
+        { status: 400 }
+      );
+    }
+
+    if (!Object.keys(MODULE_CONFIG).includes(module)) {
+      return NextResponse.json({ error: 'Invalid module' }, { status: 400 });
+    }
+
+    // Shares the callback budget with replies
+    const limit = await checkRateLimit(supabase, { scope: 'callback', userId: user_id, module });
+    if (!limit.ok) {
+      return tooManyRequests(limit.retryAfterSeconds, 'Too many callbacks for this user and module');
+    }
+
+    if (state !== undefined && !REPORTABLE_STATES.includes(state)) {
+      return NextResponse.json(
+        { error: `state must be one of: ${REPORTABLE_STATES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (progress !== undefined && (typeof progress !== 'number' || !isFinite(progress) || progress < 0 || progress > 100)) {
+      return NextResponse.json(
+        { error: 'progress must be a number between 0 and 100' },
+        { status: 400 }
+      );
+    }
+
+    if (step !== undefined && (typeof step !== 'string' || step.length > MAX_JOB_STEP_LENGTH)) {
+      return NextResponse.json(
+        { error: `step must be a string of at most ${MAX_JOB_STEP_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (error !== undefined && (typeof error !== 'string' || error.length > MAX_JOB_ERROR_LENGTH)) {
+      return NextResponse.json(
+        { error: `error must be a string of at most ${MAX_JOB_ERROR_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (state === undefined && progress === undefined && step === undefined && error === undefined) {
+      return NextResponse.json(
+        { error: 'Provide at least one of: state, progress, step, error' },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateJob(
+      supabase,
+      chat_id,
+      {
+        state,
+        progress: progress !== undefined ? Math.round(progress) : undefined,
+        step,
+        error,
+      },
+      user_id
+    );
+
+    if (!result.ok) {
+      // The user cancelled the job; updates are accepted but change nothing, like replies
+      if (result.state === 'cancelled') {
+        return NextResponse.json({ success: true, suppressed: true });
+      }
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    // Keep the chat bubble in step; answered is left to the reply itself
+    if (state === 'running') {
+      await updateChatStatus(supabase, chat_id, 'acknowledged', user_id);
+    } else if (state === 'failed') {
+      await updateChatStatus(supabase, chat_id, 'failed', user_id);
+    }
+
+    console.log(`[n8n Job] Job for chat ${chat_id} is ${result.job.state} (${result.job.progress}%)`);
+
+    return NextResponse.json({ success: true, job: result.job });
+
+  } catch (error) {
+    console.error('[n8n Job] Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,8 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
-import { N8nCallbackPayload, ModuleType, MODULE_CONFIG, Attachment } from '@/types';
+import { N8nCallbackPayload, ModuleType, MODULE_CONFIG, Attachment, Chat, QuickReplyAction, FormSchema, ContentBlock } from '@/types';
 import { validateFile, sanitizeFilename, ALLOWED_MIME_TYPES, MAX_FILE_SIZE } from '@/lib/file-handling';
+import { isChatStatus, updateChatStatus } from '@/lib/chat-status';
+import { authenticateCallback } from '@/lib/callback-auth';
+import { clearChatActivity } from '@/lib/chat-activity';
+import { validateQuickReplies } from '@/lib/quick-replies';
+import { validateFormSchema } from '@/lib/forms';
+import { validateContentBlocks } from '@/lib/content-blocks';
+import {
+  readIdempotencyKey,
+  findIdempotentChat,
+  isIdempotencyConflict,
+  IDEMPOTENT_REPLAYED_HEADER,
+} from '@/lib/idempotency';
+import { checkRateLimit, tooManyRequests } from '@/lib/rate-limit';
+import { resolveReplyConversation, touchConversation } from '@/lib/conversations';
 
 // Extended payload to support binary files from n8n
 interface N8nCallbackWithFiles extends N8nCallbackPayload {
@@ -14,6 +28,16 @@ interface N8nCallbackWithFiles extends N8nCallbackPayload {
   }>;
 }
 
+/**
+ * Answer a retried callback with the bot message the first attempt saved
+ */
+function replayResponse(chat: Chat) {
+  return NextResponse.json(
+    { success: true, chat, replayed: true },
+    { headers: { [IDEMPOTENT_REPLAYED_HEADER]: 'true' } }
+  );
+}
+
 // Create service role client directly in this file to avoid any import issues
 function getServiceRoleClient() {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -40,26 +64,68 @@ export async function POST(request: NextRequest) {
   console.log('[n8n Callback] Received request');
   
   try {
-    // Validate secret header
-    const secret = request.headers.get('x-n8n-secret');
-    const expectedSecret = process.env.N8N_CALLBACK_SECRET;
-
-    console.log('[n8n Callback] Secret check:', { 
-      hasSecret: !!secret, 
-      hasExpectedSecret: !!expectedSecret,
-      secretMatch: secret === expectedSecret 
-    });
+    // Create service role client
+    let supabase;
+    try {
+      supabase = getServiceRoleClient();
+      console.log('[n8n Callback] Service role client created successfully');
+    } catch (clientError) {
+      console.error('[n8n Callback] Failed to create Supabase client:', clientError);
+      return NextResponse.json(
+        { error: 'Database configuration error', details: String(clientError) },
+        { status: 500 }
+      );
+    }
 
-    if (!expectedSecret || secret !== expectedSecret) {
-      console.error('[n8n Callback] Invalid or missing secret');
+    const idempotency = readIdempotencyKey(request);
+    if (!idempotency.valid) {
       return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
+        { error: idempotency.error },
+        { status: 400 }
       );
     }
+    const idempotencyKey = idempotency.key;
 
-    const body: N8nCallbackWithFiles = await request.json();
-    const { chat_id, user_id, module, message, attachments, files } = body;
+    // Verify HMAC signature, timestamp window and replay guard
+    const auth = await authenticateCallback(request, supabase);
+
+    // An exact resend of a signed request that already saved its reply gets the original result
+    if (!auth.ok && auth.replayedBody && idempotencyKey) {
+      let replayedUserId: unknown;
+      try {
+        replayedUserId = JSON.parse(auth.replayedBody).user_id;
+      } catch {
+        replayedUserId = null;
+      }
+
+      const existing = typeof replayedUserId === 'string'
+        ? await findIdempotentChat(supabase, { userId: replayedUserId, sender: 'bot', key: idempotencyKey })
+        : null;
+      if (existing) {
+        console.log(`[n8n Callback] Replaying resent request for idempotency key ${idempotencyKey}`);
+        return replayResponse(existing);
+      }
+    }
+
+    if (!auth.ok) {
+      console.error('[n8n Callback] Authentication failed:', auth.error);
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    let body: N8nCallbackWithFiles;
+    try {
+      body = JSON.parse(auth.rawBody);
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const { chat_id, user_id, module, conversation_id, message, attachments, files, status, actions, form, blocks } = body;
 
     console.log('[n8n Callback] Received body:', { 
       chat_id, 
@@ -67,11 +133,13 @@ export async function POST(request: NextRequest) {
       module, 
       messageLength: message?.length,
       hasAttachments: !!attachments,
-      hasFiles: !!files
+      hasFiles: !!files,
+      blockCount: Array.isArray(blocks) ? blocks.length : 0,
+      status
     });
 
-    // Validate required fields
-    if (!user_id || !module || !message) {
+    // Validate required fields (a status-only update carries no message, and blocks can stand in for one)
+    if (!user_id || !module || (!message && !status && !(Array.isArray(blocks) && blocks.length > 0))) {
       console.error('[n8n Callback] Missing required fields:', { user_id: !!user_id, module: !!module, message: !!message });
       return NextResponse.json(
         { error: 'Missing required fields: user_id, module, message' },
@@ -79,6 +147,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (status !== undefined && (!isChatStatus(status) || !['acknowledged', 'answered', 'failed'].includes(status))) {
+      return NextResponse.json(
+        { error: 'Invalid status: expected acknowledged, answered or failed' },
+        { status: 400 }
+      );
+    }
+
+    if (status && !chat_id) {
+      return NextResponse.json(
+        { error: 'chat_id is required for status updates' },
+        { status: 400 }
+      );
+    }
+
     // Validate module
     if (!Object.keys(MODULE_CONFIG).includes(module)) {
       console.error('[n8n Callback] Invalid module:', module);
@@ -88,16 +170,109 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create service role client
-    let supabase;
-    try {
-      supabase = getServiceRoleClient();
-      console.log('[n8n Callback] Service role client created successfully');
-    } catch (clientError) {
-      console.error('[n8n Callback] Failed to create Supabase client:', clientError);
+    // A looping workflow shouldn't flood a user's chat
+    const limit = await checkRateLimit(supabase, { scope: 'callback', userId: user_id, module });
+    if (!limit.ok) {
+      return tooManyRequests(limit.retryAfterSeconds, 'Too many callbacks for this user and module');
+    }
+
+    // Quick replies only make sense alongside a message
+    let quickReplies: QuickReplyAction[] | null = null;
+    if (actions !== undefined && actions !== null) {
+      const validation = validateQuickReplies(actions);
+      if (!validation.valid) {
+        return NextResponse.json(
+          { error: validation.error },
+          { status: 400 }
+        );
+      }
+      quickReplies = validation.actions.length > 0 ? validation.actions : null;
+    }
+
+    let formSchema: FormSchema | null = null;
+    if (form !== undefined && form !== null) {
+      const validation = validateFormSchema(form);
+      if (!validation.valid) {
+        return NextResponse.json(
+          { error: validation.error },
+          { status: 400 }
+        );
+      }
+      formSchema = validation.value;
+    }
+
+    let contentBlocks: ContentBlock[] | null = null;
+    if (blocks !== undefined && blocks !== null) {
+      const validation = validateContentBlocks(blocks);
+      if (!validation.valid) {
+        return NextResponse.json(
+          { error: validation.error },
+          { status: 400 }
+        );
+      }
+      contentBlocks = validation.value.length > 0 ? validation.value : null;
+    }
+
+    // Status-only update: move the user message along without inserting a bot reply
+    if (!message && !contentBlocks && status) {
+      const updated = await updateChatStatus(supabase, chat_id, status, user_id);
+
+      // The workflow is done with the message either way
+      if (status !== 'acknowledged') {
+        await clearChatActivity(supabase, chat_id);
+      }
+      console.log(`[n8n Callback] Status update for chat ${chat_id} to ${status}: ${updated ? 'applied' : 'skipped'}`);
+
+      return NextResponse.json({
+        success: true,
+        status_updated: updated,
+      });
+    }
+
+    // A retried workflow step gets the reply the first attempt saved, before any files are uploaded again
+    if (idempotencyKey) {
+      const existing = await findIdempotentChat(supabase, { userId: user_id, sender: 'bot', key: idempotencyKey });
+      if (existing) {
+        console.log(`[n8n Callback] Replaying callback for idempotency key ${idempotencyKey}`);
+        return replayResponse(existing);
+      }
+    }
+
+    // Link the reply to the message that triggered it, when that message is the user's own
+    let replyTo: string | null = null;
+    let originalConversationId: string | null = null;
+    // Replies to a cancelled message are kept for the record but not shown
+    let suppressed = false;
+
+    if (chat_id) {
+      const { data: original } = await supabase
+        .from('chats')
+        .select('id, status, conversation_id')
+        .eq('id', chat_id)
+        .eq('user_id', user_id)
+        .maybeSingle();
+
+      if (original) {
+        replyTo = original.id;
+        originalConversationId = original.conversation_id;
+        suppressed = original.status === 'cancelled';
+      } else {
+        console.warn(`[n8n Callback] chat_id ${chat_id} not found for user ${user_id}, saving reply unlinked`);
+      }
+    }
+
+    // The reply joins the triggering message's conversation
+    const conversation = await resolveReplyConversation(supabase, {
+      userId: user_id,
+      module: module as ModuleType,
+      originalConversationId,
+      conversationId: conversation_id,
+    });
+
+    if (!conversation.ok) {
       return NextResponse.json(
-        { error: 'Database configuration error', details: String(clientError) },
-        { status: 500 }
+        { error: conversation.error },
+        { status: conversation.status }
       );
     }
 
@@ -171,9 +346,16 @@ export async function POST(request: NextRequest) {
       id: uuidv4(),
       user_id,
       module: module as ModuleType,
+      conversation_id: conversation.conversationId,
       sender: 'bot',
-      message,
+      message: message || '',
       attachments: processedAttachments.length > 0 ? processedAttachments : null,
+      reply_to: replyTo,
+      actions: quickReplies,
+      form: formSchema,
+      blocks: contentBlocks,
+      idempotency_key: idempotencyKey,
+      suppressed,
     };
     
     console.log('[n8n Callback] Chat payload:', JSON.stringify(chatPayload, null, 2));
@@ -184,6 +366,15 @@ export async function POST(request: NextRequest) {
       .select()
       .single();
 
+    // A concurrent retry with the same key saved the reply first
+    if (isIdempotencyConflict(chatError) && idempotencyKey) {
+      const existing = await findIdempotentChat(supabase, { userId: user_id, sender: 'bot', key: idempotencyKey });
+      if (existing) {
+        console.log(`[n8n Callback] Lost race for idempotency key ${idempotencyKey}, replaying`);
+        return replayResponse(existing);
+      }
+    }
+
     if (chatError) {
       console.error('[n8n Callback] Database error:', {
         message: chatError.message,
@@ -202,11 +393,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`[n8n Callback] Successfully saved bot response for user ${user_id}, module ${module}`);
+    if (!suppressed) {
+      await touchConversation(supabase, conversation.conversationId);
+    }
+
+    console.log(`[n8n Callback] Successfully saved ${suppressed ? 'suppressed ' : ''}bot response for user ${user_id}, module ${module}`);
+
+    // A reply marks the triggering message answered, unless the workflow reports a failure
+    if (replyTo && !suppressed) {
+      await clearChatActivity(supabase, replyTo);
+      await updateChatStatus(supabase, replyTo, status === 'failed' ? 'failed' : 'answered', user_id);
+    }
 
     return NextResponse.json({
       success: true,
       chat: chatData,
+      suppressed,
       filesProcessed: files?.length || 0,
       attachmentsCount: processedAttachments.length,
     });
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { N8nActivityPayload, MODULE_CONFIG } from '@/types';
+import { authenticateCallback } from '@/lib/callback-auth';
+import { checkRateLimit, tooManyRequests } from '@/lib/rate-limit';
+import { setChatActivity, MAX_ACTIVITY_STATE_LENGTH } from '@/lib/chat-activity';
+
+// Lightweight progress updates ("received", "processing", "step 3/5") shown as a
+// typing indicator. Nothing is added to the chat history.
+// Signed the same way as /api/n8n/callback.
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServiceRoleClient();
+
+    // Verify HMAC signature, timestamp window and replay guard
+    const auth = await authenticateCallback(request, supabase);
+
+    if (!auth.ok) {
+      console.error('[n8n Status] Authentication failed:', auth.error);
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    let body: N8nActivityPayload;
+    try {
+      body = JSON.parse(auth.rawBody);
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const { chat_id, user_id, module, state, step, total_steps } = body;
+
+    if (!chat_id || !user_id || !module || !state) {
+      return NextResponse.json(
+        { error: 'Missing required fields: chat_id, user_id, module, state' },
+        { status: 400 }
+      );
+    }
+
+    if (!Object.keys(MODULE_CONFIG).includes(module)) {
+      return NextResponse.json({ error: 'Invalid module' }, { status: 400 });
+    }
+
+    // Shares the callback budget with replies
+    const limit = await checkRateLimit(supabase, { scope: 'callback', userId: user_id, module });
+    if (!limit.ok) {
+      return tooManyRequests(limit.retryAfterSeconds, 'Too many callbacks for this user and module');
+    }
+
+    if (typeof state !== 'string' || state.length > MAX_ACTIVITY_STATE_LENGTH) {
+      return NextResponse.json(
+        { error: `state must be a string of at most ${MAX_ACTIVITY_STATE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const isStep = (value: unknown) => value === undefined || (Number.isInteger(value) && (value as number) >= 0);
+    if (!isStep(step) || !isStep(total_steps)) {
+      return NextResponse.json(
+        { error: 'step and total_steps must be non-negative integers' },
+        { status: 400 }
+      );
+    }
+
+    const recorded = await setChatActivity(supabase, {
+      chatId: chat_id,
+      userId: user_id,
+      module,
+      state,
+      step,
+      totalSteps: total_steps,
+    });
+
+    if (!recorded) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('[n8n Status] Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
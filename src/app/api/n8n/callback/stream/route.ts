@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { N8nStreamPayload, MODULE_CONFIG } from '@/types';
+import { resolveReplyConversation } from '@/lib/conversations';
+import { authenticateCallback } from '@/lib/callback-auth';
+import { checkRateLimit, tooManyRequests } from '@/lib/rate-limit';
+import {
+  openStream,
+  appendChunk,
+  finishStream,
+  MAX_STREAM_CHUNKS,
+  MAX_CHUNK_LENGTH,
+} from '@/lib/streaming';
+
+// Streamed bot responses: n8n opens a message, appends numbered chunks,
+// then marks it done. Signed the same way as /api/n8n/callback.
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServiceRoleClient();
+
+    // Verify HMAC signature, timestamp window and replay guard
+    const auth = await authenticateCallback(request, supabase);
+
+    if (!auth.ok) {
+      console.error('[n8n Stream] Authentication failed:', auth.error);
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    let body: N8nStreamPayload;
+    try {
+      body = JSON.parse(auth.rawBody);
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const { action, user_id, module, chat_id, conversation_id, stream_id } = body;
+
+    if (!user_id || !module || !action) {
+      return NextResponse.json(
+        { error: 'Missing required fields: action, user_id, module' },
+        { status: 400 }
+      );
+    }
+
+    if (!Object.keys(MODULE_CONFIG).includes(module)) {
+      return NextResponse.json({ error: 'Invalid module' }, { status: 400 });
+    }
+
+    // Opening a stream counts like a reply; its chunks are capped by MAX_STREAM_CHUNKS instead
+    if (action === 'open') {
+      const limit = await checkRateLimit(supabase, { scope: 'callback', userId: user_id, module });
+      if (!limit.ok) {
+        return tooManyRequests(limit.retryAfterSeconds, 'Too many callbacks for this user and module');
+      }
+    }
+
+    if (action !== 'open' && !stream_id) {
+      return NextResponse.json({ error: 'stream_id is required' }, { status: 400 });
+    }
+
+    let result;
+
+    switch (action) {
+      case 'open': {
+        // Only link to a user message that belongs to this user
+        let replyTo: string | null = null;
+        let originalConversationId: string | null = null;
+        let suppressed = false;
+        if (chat_id) {
+          const { data: original } = await supabase
+            .from('chats')
+            .select('id, status, conversation_id')
+            .eq('id', chat_id)
+            .eq('user_id', user_id)
+            .maybeSingle();
+          replyTo = original?.id || null;
+          originalConversationId = original?.conversation_id || null;
+          suppressed = original?.status === 'cancelled';
+        }
+
+        const conversation = await resolveReplyConversation(supabase, {
+          userId: user_id,
+          module,
+          originalConversationId,
+          conversationId: conversation_id,
+        });
+
+        if (!conversation.ok) {
+          return NextResponse.json({ error: conversation.error }, { status: conversation.status });
+        }
+
+        result = await openStream(supabase, {
+          userId: user_id,
+          module,
+          conversationId: conversation.conversationId,
+          replyTo,
+          streamId: stream_id,
+          suppressed,
+        });
+        if (result.ok) {
+          console.log(`[n8n Stream] Opened ${suppressed ? 'suppressed ' : ''}stream ${result.data.id} for user ${user_id}, module ${module}`);
+          return NextResponse.json({
+            success: true,
+            stream_id: result.data.id,
+            conversation_id: result.data.conversation_id,
+            suppressed,
+          });
+        }
+        break;
+      }
+
+      case 'append': {
+        const { seq, chunk } = body;
+
+        if (!Number.isInteger(seq) || seq! < 0 || seq! >= MAX_STREAM_CHUNKS) {
+          return NextResponse.json(
+            { error: `seq must be an integer between 0 and ${MAX_STREAM_CHUNKS - 1}` },
+            { status: 400 }
+          );
+        }
+
+        if (typeof chunk !== 'string' || chunk.length > MAX_CHUNK_LENGTH) {
+          return NextResponse.json(
+            { error: `chunk must be a string of at most ${MAX_CHUNK_LENGTH} characters` },
+            { status: 400 }
+          );
+        }
+
+        result = await appendChunk(supabase, { userId: user_id, streamId: stream_id!, seq: seq!, content: chunk });
+        if (result.ok) {
+          return NextResponse.json({ success: true, ...result.data });
+        }
+        break;
+      }
+
+      case 'done': {
+        const { total_chunks, message, attachments, status } = body;
+
+        if (total_chunks !== undefined && (!Number.isInteger(total_chunks) || total_chunks < 0 || total_chunks > MAX_STREAM_CHUNKS)) {
+          return NextResponse.json({ error: 'Invalid total_chunks' }, { status: 400 });
+        }
+
+        if (status !== undefined && status !== 'answered' && status !== 'failed') {
+          return NextResponse.json({ error: 'Invalid status: expected answered or failed' }, { status: 400 });
+        }
+
+        result = await finishStream(supabase, {
+          userId: user_id,
+          streamId: stream_id!,
+          totalChunks: total_chunks,
+          message,
+          attachments,
+          failed: status === 'failed',
+        });
+        if (result.ok) {
+          console.log(`[n8n Stream] Completed stream ${stream_id}`);
+          return NextResponse.json({ success: true, chat: result.data });
+        }
+        break;
+      }
+
+      default:
+        return NextResponse.json(
+          { error: 'Invalid action: expected open, append or done' },
+          { status: 400 }
+        );
+    }
+
+    return NextResponse.json(
+      { error: result.error, ...result.details },
+      { status: result.status }
+    );
+
+  } catch (error) {
+    console.error('[n8n Stream] Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
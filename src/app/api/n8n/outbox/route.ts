@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { drainOutbox } from '@/lib/outbox';
+
+// Worker endpoint that retries pending n8n dispatches.
+// Call it on a schedule (Vercel Cron, n8n Schedule Trigger, etc.) with
+// an `Authorization: Bearer <CRON_SECRET>` header.
+
+async function handleDrain(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const authorization = request.headers.get('authorization');
+
+  if (!cronSecret || authorization !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = await createServiceRoleClient();
+    const summary = await drainOutbox(supabase);
+
+    if (summary.processed > 0) {
+      console.log('[Outbox] Drain complete:', summary);
+    }
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('[Outbox] Drain error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Vercel Cron issues GET requests
+export async function GET(request: NextRequest) {
+  return handleDrain(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleDrain(request);
+}
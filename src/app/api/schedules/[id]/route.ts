@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { ScheduledMessage } from '@/types';
+import { validateScheduleTiming } from '@/lib/scheduled-messages';
+
+// PATCH - Pause, resume or reschedule a scheduled message
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+
+    const { data: existing } = await supabase
+      .from('scheduled_messages')
+      .select('*')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+
+    const schedule = existing as ScheduledMessage;
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+    if (body.message !== undefined) {
+      const message = typeof body.message === 'string' ? body.message.trim() : '';
+      if (!message && !(schedule.attachments && schedule.attachments.length > 0)) {
+        return NextResponse.json({ error: 'Message cannot be empty' }, { status: 400 });
+      }
+      updates.message = message;
+    }
+
+    if (body.is_active !== undefined) {
+      updates.is_active = body.is_active === true;
+    }
+
+    // New timing, or resuming: next_run_at is worked out again from now
+    const retime = body.cron !== undefined || body.run_at !== undefined || body.timezone !== undefined;
+
+    if (retime || (updates.is_active && !schedule.is_active)) {
+      const timing = validateScheduleTiming({
+        cron: body.cron !== undefined ? body.cron : schedule.cron,
+        run_at: body.run_at !== undefined ? body.run_at : schedule.next_run_at,
+        timezone: body.timezone !== undefined ? body.timezone : schedule.timezone,
+      });
+
+      if (!timing.valid) {
+        return NextResponse.json({ error: timing.error }, { status: 400 });
+      }
+
+      Object.assign(updates, timing.value);
+    }
+
+    const { data: updated, error } = await supabase
+      .from('scheduled_messages')
+      .update(updates)
+      .eq('id', schedule.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Failed to update scheduled message:', error);
+      return NextResponse.json({ error: 'Failed to update schedule' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, schedule: updated });
+
+  } catch (error) {
+    console.error('Update schedule error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a scheduled message; messages it already sent stay in the chat
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: deleted, error } = await supabase
+      .from('scheduled_messages')
+      .delete()
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .select('id');
+
+    if (error) {
+      console.error('Failed to delete scheduled message:', error);
+      return NextResponse.json({ error: 'Failed to delete schedule' }, { status: 500 });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Delete schedule error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
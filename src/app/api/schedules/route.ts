@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { Attachment, ModuleType, MODULE_CONFIG } from '@/types';
+import { validateScheduleTiming } from '@/lib/scheduled-messages';
+import { getConversation } from '@/lib/conversations';
+
+// GET - The user's scheduled messages for a module
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const module = searchParams.get('module') as ModuleType | null;
+
+    if (!module || !Object.keys(MODULE_CONFIG).includes(module)) {
+      return NextResponse.json({ error: 'Invalid module' }, { status: 400 });
+    }
+
+    const { data: schedules, error } = await supabase
+      .from('scheduled_messages')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('module', module)
+      .order('next_run_at', { ascending: true });
+
+    if (error) {
+      console.error('Failed to load scheduled messages:', error);
+      return NextResponse.json({ error: 'Failed to load schedules' }, { status: 500 });
+    }
+
+    return NextResponse.json({ schedules: schedules || [] });
+
+  } catch (error) {
+    console.error('Get schedules error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Schedule a message, once at run_at or repeating on a cron expression
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const module = body.module as ModuleType;
+    const message = typeof body.message === 'string' ? body.message.trim() : '';
+    const attachments: Attachment[] = Array.isArray(body.attachments) ? body.attachments : [];
+
+    if (!Object.keys(MODULE_CONFIG).includes(module)) {
+      return NextResponse.json({ error: 'Invalid module' }, { status: 400 });
+    }
+
+    if (!message && attachments.length === 0) {
+      return NextResponse.json({ error: 'Message cannot be empty' }, { status: 400 });
+    }
+
+    const timing = validateScheduleTiming(body);
+    if (!timing.valid) {
+      return NextResponse.json({ error: timing.error }, { status: 400 });
+    }
+
+    // Check user has access to this module
+    const { data: userData } = await supabase
+      .from('users')
+      .select('modules')
+      .eq('id', user.id)
+      .single();
+
+    const userModules = (userData?.modules || []) as ModuleType[];
+
+    if (!userModules.includes(module)) {
+      return NextResponse.json({ error: 'Access denied to this module' }, { status: 403 });
+    }
+
+    // Without a conversation, each run goes to the module's default one
+    let conversationId: string | null = null;
+    if (body.conversation_id !== undefined && body.conversation_id !== null) {
+      const conversation = await getConversation(supabase, {
+        conversationId: body.conversation_id,
+        userId: user.id,
+        module,
+      });
+
+      if (!conversation.ok) {
+        return NextResponse.json({ error: conversation.error }, { status: conversation.status });
+      }
+      conversationId = conversation.conversation.id;
+    }
+
+    const { data: schedule, error } = await supabase
+      .from('scheduled_messages')
+      .insert({
+        user_id: user.id,
+        module,
+        conversation_id: conversationId,
+        message,
+        attachments: attachments.length > 0 ? attachments : null,
+        ...timing.value,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Failed to create scheduled message:', error);
+      return NextResponse.json({ error: 'Failed to create schedule' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, schedule });
+
+  } catch (error) {
+    console.error('Create schedule error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { runDueSchedules } from '@/lib/scheduled-messages';
+
+// Worker endpoint that sends due scheduled messages.
+// Call it every minute (Vercel Cron, n8n Schedule Trigger, etc.) with
+// an `Authorization: Bearer <CRON_SECRET>` header.
+
+async function handleRun(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const authorization = request.headers.get('authorization');
+
+  if (!cronSecret || authorization !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = await createServiceRoleClient();
+    const summary = await runDueSchedules(supabase);
+
+    if (summary.processed > 0) {
+      console.log('[Schedules] Run complete:', summary);
+    }
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('[Schedules] Run error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Vercel Cron issues GET requests
+export async function GET(request: NextRequest) {
+  return handleRun(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleRun(request);
+}
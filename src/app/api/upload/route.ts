@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
 import { v4 as uuidv4 } from 'uuid';
 import { validateFile, sanitizeFilename, MAX_FILE_SIZE } from '@/lib/file-handling';
+import { checkRateLimit, tooManyRequests } from '@/lib/rate-limit';
+import { MODULE_CONFIG } from '@/types';
 
 export async function POST(request: NextRequest) {
   try {
@@ -18,7 +20,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { filename, contentType, size } = body;
+    const { filename, contentType, size, module } = body;
 
     if (!filename || !contentType) {
       return NextResponse.json(
@@ -27,6 +29,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Uploads are limited per module, like sends
+    if (!Object.keys(MODULE_CONFIG).includes(module)) {
+      return NextResponse.json(
+        { error: 'Invalid module' },
+        { status: 400 }
+      );
+    }
+
     // Validate file
     const fileSize = size || 0;
     const validation = validateFile(filename, contentType, fileSize);
@@ -48,6 +58,14 @@ export async function POST(request: NextRequest) {
     // Use service role client for storage operations
     const serviceClient = await createServiceRoleClient();
 
+    const limit = await checkRateLimit(serviceClient, { scope: 'upload', userId: user.id, module });
+    if (!limit.ok) {
+      return tooManyRequests(
+        limit.retryAfterSeconds,
+        `Too many uploads, try again in ${limit.retryAfterSeconds} seconds`
+      );
+    }
+
     // Create signed upload URL
     const { data: uploadData, error: uploadError } = await serviceClient.storage
       .from('chat-attachments')
@@ -1,6 +1,8 @@
 import { redirect, notFound } from 'next/navigation';
 import dynamic from 'next/dynamic';
-import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { getModuleSettings } from '@/lib/module-settings';
+import { getConversation, findLatestConversation } from '@/lib/conversations';
 import { ModuleType, MODULE_CONFIG } from '@/types';
 import Link from 'next/link';
 
@@ -21,10 +23,14 @@ interface ChatPageProps {
   params: Promise<{
     module: string;
   }>;
+  searchParams: Promise<{
+    conversation?: string;
+  }>;
 }
 
-export default async function ChatPage({ params }: ChatPageProps) {
+export default async function ChatPage({ params, searchParams }: ChatPageProps) {
   const { module } = await params;
+  const { conversation: requestedConversation } = await searchParams;
   
   // Validate module
   if (!Object.keys(MODULE_CONFIG).includes(module)) {
@@ -78,11 +84,26 @@ export default async function ChatPage({ params }: ChatPageProps) {
     );
   }
 
+  // The conversation in the URL, else the most recent open one; none yet is fine,
+  // the first message starts one
+  const conversation = requestedConversation
+    ? await getConversation(supabase, { conversationId: requestedConversation, userId: user.id, module: module as ModuleType })
+    : null;
+  const initialConversation = conversation?.ok
+    ? conversation.conversation
+    : await findLatestConversation(supabase, { userId: user.id, module: module as ModuleType });
+
+  // Module settings are only readable with the service role
+  const settings = await getModuleSettings(await createServiceRoleClient(), module as ModuleType);
+
   return (
     <ChatInterface 
       userId={user.id} 
       username={userData.username}
       module={module as ModuleType} 
+      userModules={userModules}
+      initialConversationId={initialConversation?.id || null}
+      renderMarkdown={settings?.render_markdown ?? true}
     />
   );
 }
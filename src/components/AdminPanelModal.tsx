@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback, memo } from 'react';
 import { createClient } from '@/lib/supabase/client';
-import { User, ModuleType, MODULE_CONFIG } from '@/types';
+import { User, ModuleType, MODULE_CONFIG, CallbackSecret, RateLimitRule, RateLimitScope } from '@/types';
 
 interface AdminPanelModalProps {
   isOpen: boolean;
@@ -18,6 +18,42 @@ interface WebhookSettings {
   webhook_url: string;
 }
 
+// Editable per-module settings
+interface ModuleSettingsDraft {
+  webhook_url: string;
+  cancel_webhook_url: string;
+  sign_requests: boolean;
+  history_limit: number;
+  history_max_chars: number;
+  history_senders: Array<'user' | 'bot'>;
+  history_include_attachments: boolean;
+  render_markdown: boolean;
+  rate_limits: Record<RateLimitScope, RateLimitRule>;
+}
+
+interface ModuleSettingsView extends ModuleSettingsDraft {
+  module: ModuleType;
+  env_webhook_url: string | null;
+  env_signing: boolean;
+  effective_url: string | null;
+  source: 'module' | 'module_env' | 'default' | 'default_env' | null;
+}
+
+const RATE_LIMIT_SCOPES: RateLimitScope[] = ['send', 'upload', 'callback'];
+
+const RATE_LIMIT_LABELS: Record<RateLimitScope, string> = {
+  send: 'Messages',
+  upload: 'Uploads',
+  callback: 'Callbacks',
+};
+
+const ROUTING_SOURCE_LABELS: Record<NonNullable<ModuleSettingsView['source']>, string> = {
+  module: 'module URL',
+  module_env: 'module env variable',
+  default: 'default webhook',
+  default_env: 'N8N_WEBHOOK_URL',
+};
+
 // Loading spinner
 const Spinner = memo(() => (
   <svg className="animate-spin h-5 w-5 text-white" viewBox="0 0 24 24">
@@ -216,10 +252,7 @@ const CreateUserForm = memo(({
     try {
       const response = await fetch('/api/admin/create-user', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-admin-secret': process.env.NEXT_PUBLIC_ADMIN_SECRET || '9f3c2b7e-41d8-4c0c-9a46-ccf2e7b1a8d4',
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           username,
           password,
@@ -420,7 +453,7 @@ const WebhookSettingsForm = memo(({
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       <div>
-        <label className="block text-sm text-gray-400 mb-1">n8n Webhook URL</label>
+        <label className="block text-sm text-gray-400 mb-1">Default n8n Webhook URL</label>
         <input
           type="url"
           value={webhookUrl}
@@ -428,7 +461,7 @@ const WebhookSettingsForm = memo(({
           placeholder="https://your-n8n-instance.com/webhook/..."
           className="w-full px-4 py-2 bg-[#242938] border border-[#2a3144] rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-[#4A90F5]"
         />
-        <p className="text-xs text-gray-500 mt-1">The webhook URL that receives chat messages</p>
+        <p className="text-xs text-gray-500 mt-1">Receives chat messages for modules without a URL of their own</p>
       </div>
 
       {error && (
@@ -456,6 +489,504 @@ const WebhookSettingsForm = memo(({
 });
 WebhookSettingsForm.displayName = 'WebhookSettingsForm';
 
+// Module Settings Row Component
+const ModuleSettingsRow = memo(({ 
+  view, 
+  onSave, 
+  saving 
+}: { 
+  view: ModuleSettingsView;
+  onSave: (module: ModuleType, draft: ModuleSettingsDraft) => Promise<boolean>;
+  saving: boolean;
+}) => {
+  const toDraft = (v: ModuleSettingsView): ModuleSettingsDraft => ({
+    webhook_url: v.webhook_url,
+    cancel_webhook_url: v.cancel_webhook_url,
+    sign_requests: v.sign_requests,
+    history_limit: v.history_limit,
+    history_max_chars: v.history_max_chars,
+    history_senders: v.history_senders,
+    history_include_attachments: v.history_include_attachments,
+    render_markdown: v.render_markdown,
+    rate_limits: v.rate_limits,
+  });
+
+  const [draft, setDraft] = useState<ModuleSettingsDraft>(() => toDraft(view));
+  const [expanded, setExpanded] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(toDraft(view));
+
+  const update = <K extends keyof ModuleSettingsDraft>(key: K, value: ModuleSettingsDraft[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+    setSaved(false);
+  };
+
+  const updateRateLimit = (scope: RateLimitScope, field: keyof RateLimitRule, value: number) => {
+    update('rate_limits', {
+      ...draft.rate_limits,
+      [scope]: { ...draft.rate_limits[scope], [field]: value },
+    });
+  };
+
+  const toggleSender = (sender: 'user' | 'bot') => {
+    update('history_senders', draft.history_senders.includes(sender)
+      ? draft.history_senders.filter(s => s !== sender)
+      : [...draft.history_senders, sender]
+    );
+  };
+
+  const handleSave = async () => {
+    setSaved(false);
+    if (await onSave(view.module, draft)) {
+      setSaved(true);
+    }
+  };
+
+  return (
+    <div className="border border-[#2a3144] rounded-lg overflow-hidden">
+      <div 
+        className="flex items-center justify-between p-3 cursor-pointer hover:bg-[#1a1f2e]/50 transition-colors"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <p className="text-sm text-white font-medium">
+          {MODULE_CONFIG[view.module].icon} {MODULE_CONFIG[view.module].name}
+        </p>
+        <div className="flex items-center gap-3">
+          <p className="text-xs text-gray-500">
+            {view.source ? `Using ${ROUTING_SOURCE_LABELS[view.source]}` : 'No webhook configured'}
+          </p>
+          <svg 
+            className={`w-4 h-4 text-gray-400 transition-transform ${expanded ? 'rotate-180' : ''}`} 
+            fill="none" 
+            stroke="currentColor" 
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="p-3 border-t border-[#2a3144] bg-[#0d1117]/50 space-y-4">
+          {/* Routing */}
+          <div className="space-y-2">
+            <label className="block text-xs text-gray-400">Webhook URL</label>
+            <input
+              type="url"
+              value={draft.webhook_url}
+              onChange={(e) => update('webhook_url', e.target.value)}
+              placeholder={view.env_webhook_url || 'Falls back to the default webhook'}
+              className="w-full px-3 py-1.5 text-sm bg-[#242938] border border-[#2a3144] rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-[#4A90F5]"
+            />
+            <label className="block text-xs text-gray-400">Cancel webhook URL</label>
+            <input
+              type="url"
+              value={draft.cancel_webhook_url}
+              onChange={(e) => update('cancel_webhook_url', e.target.value)}
+              placeholder="Cancelled jobs are reported to the webhook above"
+              className="w-full px-3 py-1.5 text-sm bg-[#242938] border border-[#2a3144] rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-[#4A90F5]"
+            />
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.sign_requests || view.env_signing}
+                onChange={(e) => update('sign_requests', e.target.checked)}
+                disabled={saving || view.env_signing}
+                className="w-4 h-4 rounded border-[#2a3144] bg-[#242938] text-[#4A90F5] focus:ring-[#4A90F5]/50 disabled:opacity-50"
+              />
+              <span className="text-xs text-gray-300">
+                Sign requests (HMAC){view.env_signing && ' — enabled by N8N_SIGNED_MODULES'}
+              </span>
+            </label>
+          </div>
+
+          {/* Conversation history */}
+          <div className="space-y-2">
+            <p className="text-xs text-gray-400">Conversation history sent to n8n</p>
+            <div className="flex flex-wrap gap-4">
+              <label className="flex items-center gap-2 text-xs text-gray-300">
+                Last
+                <input
+                  type="number"
+                  min={0}
+                  max={50}
+                  value={draft.history_limit}
+                  onChange={(e) => update('history_limit', Number(e.target.value))}
+                  className="w-16 px-2 py-1 bg-[#242938] border border-[#2a3144] rounded text-white focus:outline-none focus:border-[#4A90F5]"
+                />
+                messages
+              </label>
+              <label className="flex items-center gap-2 text-xs text-gray-300">
+                Max
+                <input
+                  type="number"
+                  min={0}
+                  step={500}
+                  value={draft.history_max_chars}
+                  onChange={(e) => update('history_max_chars', Number(e.target.value))}
+                  className="w-24 px-2 py-1 bg-[#242938] border border-[#2a3144] rounded text-white focus:outline-none focus:border-[#4A90F5]"
+                />
+                characters
+              </label>
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {(['user', 'bot'] as const).map((sender) => (
+                <label key={sender} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={draft.history_senders.includes(sender)}
+                    onChange={() => toggleSender(sender)}
+                    disabled={saving}
+                    className="w-4 h-4 rounded border-[#2a3144] bg-[#242938] text-[#4A90F5] focus:ring-[#4A90F5]/50 disabled:opacity-50"
+                  />
+                  <span className="text-xs text-gray-300">{sender === 'user' ? 'User messages' : 'Bot replies'}</span>
+                </label>
+              ))}
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={draft.history_include_attachments}
+                  onChange={(e) => update('history_include_attachments', e.target.checked)}
+                  disabled={saving}
+                  className="w-4 h-4 rounded border-[#2a3144] bg-[#242938] text-[#4A90F5] focus:ring-[#4A90F5]/50 disabled:opacity-50"
+                />
+                <span className="text-xs text-gray-300">Include attachments</span>
+              </label>
+            </div>
+          </div>
+
+          {/* Display */}
+          <div className="space-y-2">
+            <p className="text-xs text-gray-400">Display</p>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.render_markdown}
+                onChange={(e) => update('render_markdown', e.target.checked)}
+                disabled={saving}
+                className="w-4 h-4 rounded border-[#2a3144] bg-[#242938] text-[#4A90F5] focus:ring-[#4A90F5]/50 disabled:opacity-50"
+              />
+              <span className="text-xs text-gray-300">Render bot replies as Markdown</span>
+            </label>
+          </div>
+
+          {/* Rate limits */}
+          <div className="space-y-2">
+            <p className="text-xs text-gray-400">Rate limits per user (0 per minute turns a limit off)</p>
+            {RATE_LIMIT_SCOPES.map((scope) => (
+              <div key={scope} className="flex flex-wrap items-center gap-2 text-xs text-gray-300">
+                <span className="w-20">{RATE_LIMIT_LABELS[scope]}</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.rate_limits[scope].per_minute}
+                  onChange={(e) => updateRateLimit(scope, 'per_minute', Number(e.target.value))}
+                  className="w-16 px-2 py-1 bg-[#242938] border border-[#2a3144] rounded text-white focus:outline-none focus:border-[#4A90F5]"
+                />
+                per minute, bursts of
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.rate_limits[scope].burst}
+                  onChange={(e) => updateRateLimit(scope, 'burst', Number(e.target.value))}
+                  className="w-16 px-2 py-1 bg-[#242938] border border-[#2a3144] rounded text-white focus:outline-none focus:border-[#4A90F5]"
+                />
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={handleSave}
+            disabled={saving || !dirty}
+            className="px-4 py-1.5 text-sm bg-gradient-to-r from-[#4A90F5] to-[#C74AFF] text-white rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saved && !dirty ? 'Saved' : 'Save'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+});
+ModuleSettingsRow.displayName = 'ModuleSettingsRow';
+
+// Module Settings Component
+const ModuleSettingsForm = memo(({ 
+  saving, 
+  setSaving 
+}: { 
+  saving: boolean;
+  setSaving: (saving: boolean) => void;
+}) => {
+  const [modules, setModules] = useState<ModuleSettingsView[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchModules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/modules');
+      if (response.ok) {
+        const data = await response.json();
+        setModules(data.modules || []);
+      }
+    } catch (err) {
+      console.error('Failed to fetch module settings:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchModules();
+  }, [fetchModules]);
+
+  const handleSave = useCallback(async (module: ModuleType, draft: ModuleSettingsDraft) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/modules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ module, ...draft }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to save module settings');
+      }
+
+      // Reload to pick up the new effective URL
+      await fetchModules();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save module settings');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [fetchModules, setSaving]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Spinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-white font-medium">Module Settings</h3>
+        <p className="text-xs text-gray-500 mt-1">
+          A module URL overrides its environment variable. Changes apply without a redeploy.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {modules.map((view) => (
+          <ModuleSettingsRow
+            key={view.module}
+            view={view}
+            onSave={handleSave}
+            saving={saving}
+          />
+        ))}
+      </div>
+    </div>
+  );
+});
+ModuleSettingsForm.displayName = 'ModuleSettingsForm';
+
+// Callback Signing Keys Component
+const CallbackSecretsManager = memo(({ 
+  saving, 
+  setSaving 
+}: { 
+  saving: boolean;
+  setSaving: (saving: boolean) => void;
+}) => {
+  const [secrets, setSecrets] = useState<CallbackSecret[]>([]);
+  const [hasEnvSecret, setHasEnvSecret] = useState(false);
+  const [label, setLabel] = useState('');
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSecrets = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/callback-secrets');
+      if (response.ok) {
+        const data = await response.json();
+        setSecrets(data.secrets || []);
+        setHasEnvSecret(data.has_env_secret === true);
+      }
+    } catch (err) {
+      console.error('Failed to fetch callback secrets:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSecrets();
+  }, [fetchSecrets]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (saving || !label.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    setNewSecret(null);
+
+    try {
+      const response = await fetch('/api/admin/callback-secrets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create key');
+      }
+
+      setNewSecret(data.value);
+      setLabel('');
+      setSecrets(prev => [data.secret, ...prev]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create key');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (secret: CallbackSecret) => {
+    if (!confirm(`Revoke key "${secret.label}"? Workflows still signing with it will be rejected.`)) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/callback-secrets?id=${secret.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to revoke key');
+      }
+
+      setSecrets(prev => prev.map(s => s.id === secret.id 
+        ? { ...s, is_active: false, revoked_at: new Date().toISOString() } 
+        : s
+      ));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke key');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Spinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-white font-medium">Callback Signing Keys</h3>
+        <p className="text-xs text-gray-500 mt-1">
+          n8n signs callbacks with any active key. Add a new key, update the workflows, then revoke the old one.
+        </p>
+      </div>
+
+      <form onSubmit={handleCreate} className="flex gap-2">
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Key label, e.g. n8n production 2026-10"
+          className="flex-1 px-4 py-2 bg-[#242938] border border-[#2a3144] rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-[#4A90F5]"
+        />
+        <button
+          type="submit"
+          disabled={saving || !label.trim()}
+          className="px-4 py-2 bg-gradient-to-r from-[#4A90F5] to-[#C74AFF] text-white text-sm font-medium rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Generate Key
+        </button>
+      </form>
+
+      {newSecret && (
+        <div className="p-3 bg-emerald-500/10 border border-emerald-500/20 rounded-lg space-y-1">
+          <p className="text-emerald-400 text-sm">Copy this key into n8n now. It won&apos;t be shown again.</p>
+          <code className="block text-xs text-white break-all bg-[#0d1117] p-2 rounded">{newSecret}</code>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {hasEnvSecret && (
+          <div className="flex items-center justify-between p-3 border border-[#2a3144] rounded-lg">
+            <div>
+              <p className="text-sm text-white">N8N_CALLBACK_SECRET</p>
+              <p className="text-xs text-gray-500">Environment variable, remove it from the deployment to revoke</p>
+            </div>
+            <span className="px-2 py-1 text-xs rounded-full bg-emerald-500/20 text-emerald-400">Active</span>
+          </div>
+        )}
+        {secrets.map((secret) => (
+          <div key={secret.id} className="flex items-center justify-between p-3 border border-[#2a3144] rounded-lg">
+            <div>
+              <p className="text-sm text-white">{secret.label}</p>
+              <p className="text-xs text-gray-500">
+                {secret.secret_hint} · created {new Date(secret.created_at).toLocaleDateString()}
+                {secret.revoked_at && ` · revoked ${new Date(secret.revoked_at).toLocaleDateString()}`}
+              </p>
+            </div>
+            {secret.is_active ? (
+              <button
+                onClick={() => handleRevoke(secret)}
+                disabled={saving}
+                className="px-3 py-1.5 text-xs text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded-lg transition-colors disabled:opacity-50"
+              >
+                Revoke
+              </button>
+            ) : (
+              <span className="px-2 py-1 text-xs rounded-full bg-red-500/20 text-red-400">Revoked</span>
+            )}
+          </div>
+        ))}
+        {!hasEnvSecret && secrets.length === 0 && (
+          <p className="text-center text-gray-400 text-sm py-4">No callback keys configured</p>
+        )}
+      </div>
+    </div>
+  );
+});
+CallbackSecretsManager.displayName = 'CallbackSecretsManager';
+
 // Main Admin Panel Modal
 export default function AdminPanelModal({ isOpen, onClose, currentUserId }: AdminPanelModalProps) {
   const [activeTab, setActiveTab] = useState<'users' | 'create' | 'settings'>('users');
@@ -641,7 +1172,11 @@ export default function AdminPanelModal({ isOpen, onClose, currentUserId }: Admi
           )}
 
           {activeTab === 'settings' && (
-            <WebhookSettingsForm saving={saving} setSaving={setSaving} />
+            <div className="space-y-8">
+              <WebhookSettingsForm saving={saving} setSaving={setSaving} />
+              <ModuleSettingsForm saving={saving} setSaving={setSaving} />
+              <CallbackSecretsManager saving={saving} setSaving={setSaving} />
+            </div>
           )}
         </div>
       </div>
@@ -1,12 +1,19 @@
 'use client';
 
-import { useState, useRef, useCallback, memo, useMemo } from 'react';
-import { Attachment } from '@/types';
-import { formatFileSize, ALLOWED_MIME_TYPES, MAX_FILE_SIZE } from '@/lib/file-handling';
+import { useState, useRef, useCallback, useEffect, memo, useMemo } from 'react';
+import { Attachment, Chat, ModuleHealthStatus, ModuleType } from '@/types';
+import { formatFileSize, uploadAttachment, ALLOWED_MIME_TYPES, MAX_FILE_SIZE } from '@/lib/file-handling';
+import { getQuotePreview } from './ChatMessage';
 
 interface ChatInputProps {
   onSend: (message: string, attachments: Attachment[]) => Promise<void>;
   disabled?: boolean;
+  health?: ModuleHealthStatus;
+  replyTo?: Chat | null;
+  onCancelReply?: () => void;
+  module: ModuleType;
+  // Sends are rate-limited until this time (ms since epoch)
+  cooldownUntil?: number | null;
 }
 
 interface PendingFile {
@@ -81,49 +88,49 @@ const FilePreview = memo(({
 });
 FilePreview.displayName = 'FilePreview';
 
-export default function ChatInput({ onSend, disabled }: ChatInputProps) {
+export default function ChatInput({ 
+  onSend, 
+  disabled, 
+  health = 'online', 
+  replyTo, 
+  onCancelReply, 
+  module, 
+  cooldownUntil 
+}: ChatInputProps) {
   const [message, setMessage] = useState('');
+  const [cooldownSeconds, setCooldownSeconds] = useState(0);
   const [pendingFiles, setPendingFiles] = useState<PendingFile[]>([]);
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
-  const uploadFile = useCallback(async (file: File) => {
-    const urlResponse = await fetch('/api/upload', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        filename: file.name,
-        contentType: file.type,
-        size: file.size,
-      }),
-    });
-
-    if (!urlResponse.ok) {
-      const errorData = await urlResponse.json();
-      throw new Error(errorData.error || 'Failed to get upload URL');
+  // Focus the input when the user picks a message to reply to
+  useEffect(() => {
+    if (replyTo) {
+      textareaRef.current?.focus();
     }
+  }, [replyTo]);
 
-    const { uploadUrl, publicUrl, sanitizedFilename } = await urlResponse.json();
+  // Count down the rate limit cooldown
+  useEffect(() => {
+    if (!cooldownUntil) return;
 
-    const uploadResponse = await fetch(uploadUrl, {
-      method: 'PUT',
-      headers: { 'Content-Type': file.type },
-      body: file,
-    });
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((cooldownUntil - Date.now()) / 1000));
+      setCooldownSeconds(remaining);
+      if (remaining === 0) clearInterval(interval);
+    };
+    const interval = setInterval(tick, 1000);
+    tick();
 
-    if (!uploadResponse.ok) {
-      throw new Error('Failed to upload file');
-    }
+    return () => clearInterval(interval);
+  }, [cooldownUntil]);
 
-    return {
-      name: sanitizedFilename || file.name,
-      url: publicUrl,
-      type: file.type,
-      size: file.size,
-    };
-  }, []);
+  const uploadFile = useCallback(
+    (file: File) => uploadAttachment(file, module),
+    [module]
+  );
 
   const handleFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
@@ -227,7 +234,7 @@ export default function ChatInput({ onSend, disabled }: ChatInputProps) {
       .map((pf) => pf.attachment!);
 
     if (!trimmedMessage && uploadedAttachments.length === 0) return;
-    if (disabled || uploading) return;
+    if (disabled || uploading || cooldownSeconds > 0) return;
 
     if (pendingFiles.some((pf) => pf.uploading)) {
       setError('Please wait for files to finish uploading');
@@ -239,6 +246,11 @@ export default function ChatInput({ onSend, disabled }: ChatInputProps) {
       return;
     }
 
+    if (health === 'offline') {
+      const confirmed = window.confirm('This workflow is currently offline. Your message will be queued and delivered when it recovers. Send anyway?');
+      if (!confirmed) return;
+    }
+
     setMessage('');
     setPendingFiles([]);
     setError(null);
@@ -248,14 +260,16 @@ export default function ChatInput({ onSend, disabled }: ChatInputProps) {
     }
 
     await onSend(trimmedMessage, uploadedAttachments);
-  }, [message, pendingFiles, disabled, uploading, onSend]);
+  }, [message, pendingFiles, disabled, uploading, cooldownSeconds, health, onSend]);
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
+    } else if (e.key === 'Escape' && replyTo) {
+      onCancelReply?.();
     }
-  }, [handleSend]);
+  }, [handleSend, replyTo, onCancelReply]);
 
   const handleTextareaChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setMessage(e.target.value);
@@ -266,6 +280,7 @@ export default function ChatInput({ onSend, disabled }: ChatInputProps) {
 
   const hasContent = message.trim() || pendingFiles.some((pf) => pf.uploaded);
   const isDisabled = disabled || uploading;
+  const coolingDown = cooldownSeconds > 0;
 
   return (
     <div className="border-t border-[#2a3144]/50 bg-[#0d1117]/80 backdrop-blur-xl">
@@ -275,7 +290,50 @@ export default function ChatInput({ onSend, disabled }: ChatInputProps) {
             <p className="text-red-400 text-sm">{error}</p>
           </div>
         )}
+
+        {coolingDown && (
+          <div className="mb-3 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg">
+            <p className="text-amber-400 text-sm">
+              You&apos;re sending messages too quickly. You can send again in {cooldownSeconds}s.
+            </p>
+          </div>
+        )}
+
+        {health !== 'online' && (
+          <div className={`mb-3 p-3 rounded-lg border ${
+            health === 'offline' 
+              ? 'bg-red-500/10 border-red-500/20' 
+              : 'bg-amber-500/10 border-amber-500/20'
+          }`}>
+            <p className={`text-sm ${health === 'offline' ? 'text-red-400' : 'text-amber-400'}`}>
+              {health === 'offline'
+                ? 'This workflow is not responding. Messages will be queued and delivered when it recovers.'
+                : 'This workflow is responding slowly or with errors. Replies may be delayed.'}
+            </p>
+          </div>
+        )}
         
+        {replyTo && (
+          <div className="mb-3 flex items-center gap-3 p-2 pl-3 rounded-lg bg-[#1a1f2e] border-l-2 border-[#4A90F5]">
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-medium text-[#4A90F5]">
+                Replying to {replyTo.sender === 'user' ? 'yourself' : 'Assistant'}
+              </p>
+              <p className="text-sm text-gray-400 truncate">{getQuotePreview(replyTo)}</p>
+            </div>
+            <button
+              type="button"
+              onClick={onCancelReply}
+              className="p-1 rounded hover:bg-[#242938] text-gray-400 hover:text-white transition-colors"
+              title="Cancel reply"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        )}
+
         {pendingFiles.length > 0 && (
           <div className="mb-3 flex flex-wrap gap-2">
             {pendingFiles.map((pf, index) => (
@@ -330,10 +388,11 @@ export default function ChatInput({ onSend, disabled }: ChatInputProps) {
           <button
             type="button"
             onClick={handleSend}
-            disabled={isDisabled || !hasContent}
+            disabled={isDisabled || !hasContent || coolingDown}
+            title={coolingDown ? `Wait ${cooldownSeconds}s` : undefined}
             className={`
               flex-shrink-0 p-3 rounded-xl transition-all
-              ${hasContent && !isDisabled
+              ${hasContent && !isDisabled && !coolingDown
                 ? 'bg-gradient-to-r from-[#4A90F5] to-[#C74AFF] text-white shadow-lg shadow-[#4A90F5]/25 hover:opacity-90 active:scale-95'
                 : 'bg-[#1a1f2e] text-gray-500 cursor-not-allowed'
               }
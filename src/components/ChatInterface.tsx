@@ -1,19 +1,74 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback, useMemo, memo } from 'react';
+import { useState, useEffect, useLayoutEffect, useRef, useCallback, useMemo, memo } from 'react';
+import { v4 as uuidv4 } from 'uuid';
 import { createClient } from '@/lib/supabase/client';
-import { Chat, Attachment, ModuleType, MODULE_CONFIG } from '@/types';
+import { Chat, ChatActivity, Attachment, FormValues, QuickReplyAction, SendMessagePayload, ModuleType, ModuleHealthStatus, MODULE_CONFIG } from '@/types';
 import ChatMessage from './ChatMessage';
+import { formatFormSummary } from '@/lib/forms';
 import ChatInput from './ChatInput';
+import ScheduleManagerModal from './ScheduleManagerModal';
+import JobsPanel from './JobsPanel';
+import SearchPalette from './SearchPalette';
+import ExportChatModal from './ExportChatModal';
+import ConversationSidebar from './ConversationSidebar';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 
 interface ChatInterfaceProps {
   userId: string;
   username: string;
   module: ModuleType;
+  // Modules the user can search across
+  userModules: ModuleType[];
+  // Conversation opened first; null until the user's first message starts one
+  initialConversationId: string | null;
+  // Render bot messages as Markdown (module setting)
+  renderMarkdown?: boolean;
 }
 
+// Waits before retrying a send that failed in transit
+const SEND_RETRY_DELAYS_MS = [1000, 3000];
+
+/**
+ * POST to /api/chat/send, retrying network errors and gateway failures
+ * Safe because every attempt carries the same Idempotency-Key
+ */
+async function sendWithRetry(init: RequestInit): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await fetch('/api/chat/send', init);
+      if (![502, 503, 504].includes(response.status) || attempt >= SEND_RETRY_DELAYS_MS.length) {
+        return response;
+      }
+    } catch (err) {
+      if (attempt >= SEND_RETRY_DELAYS_MS.length) throw err;
+    }
+    await new Promise((resolve) => setTimeout(resolve, SEND_RETRY_DELAYS_MS[attempt]));
+  }
+}
+
+// Messages loaded per page; older pages load as the user scrolls up
+const CHAT_PAGE_SIZE = 50;
+
+// Start loading the previous page this close to the top
+const LOAD_OLDER_THRESHOLD_PX = 200;
+
+// How often the header badge refreshes module health
+const HEALTH_POLL_INTERVAL_MS = 30 * 1000;
+
+// How long a jumped-to message stays highlighted
+const HIGHLIGHT_DURATION_MS = 2000;
+
+// Pages loaded looking for a message opened from search before giving up
+const MAX_JUMP_PAGES = 20;
+
+// Hide a progress indicator the workflow stopped updating
+const ACTIVITY_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Activity timestamped on arrival, so timeouts don't depend on server clock skew
+type ActivityEntry = ChatActivity & { receivedAt: number };
+
 // Loading skeleton component
 const MessageSkeleton = memo(() => (
   <div className="space-y-4">
@@ -55,21 +110,125 @@ const ModuleIcon = memo(({ module }: { module: ModuleType }) => {
 });
 ModuleIcon.displayName = 'ModuleIcon';
 
-export default function ChatInterface({ userId, username, module }: ChatInterfaceProps) {
+// "Workflow is working" indicator
+const ActivityIndicator = memo(({ activity }: { activity: ActivityEntry }) => {
+  const progress = activity.step !== null && activity.total_steps
+    ? Math.min(activity.step / activity.total_steps, 1)
+    : null;
+
+  return (
+    <div className="flex justify-start animate-slide-up">
+      <div className="max-w-[70%] bg-[#1a1f2e]/90 border border-[#2a3144] rounded-2xl px-4 py-3">
+        <div className="flex items-center gap-3">
+          <span className="inline-flex items-center gap-1" aria-hidden="true">
+            {[0, 150, 300].map((delay) => (
+              <span
+                key={delay}
+                className="w-1.5 h-1.5 rounded-full bg-gray-400 animate-bounce"
+                style={{ animationDelay: `${delay}ms` }}
+              />
+            ))}
+          </span>
+          <span className="text-sm text-gray-300">
+            {activity.state}
+            {activity.step !== null && activity.total_steps
+              ? <span className="text-gray-500"> · step {activity.step}/{activity.total_steps}</span>
+              : null}
+          </span>
+        </div>
+        {progress !== null && (
+          <div className="mt-2 h-1 w-48 rounded-full bg-[#242938] overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-[#4A90F5] to-[#C74AFF] transition-all duration-500"
+              style={{ width: `${progress * 100}%` }}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
+ActivityIndicator.displayName = 'ActivityIndicator';
+
+// Workflow health badge
+const HEALTH_BADGES: Record<ModuleHealthStatus, { label: string; dot: string; text: string }> = {
+  online: { label: 'Online', dot: 'bg-emerald-400 animate-pulse', text: 'text-emerald-400' },
+  degraded: { label: 'Degraded', dot: 'bg-amber-400', text: 'text-amber-400' },
+  offline: { label: 'Offline', dot: 'bg-red-400', text: 'text-red-400' },
+};
+
+const HealthBadge = memo(({ status }: { status: ModuleHealthStatus }) => {
+  const badge = HEALTH_BADGES[status];
+  return (
+    <div className="flex items-center gap-1.5">
+      <span className={`w-2 h-2 rounded-full ${badge.dot}`} />
+      <span className={`${badge.text} text-xs`}>{badge.label}</span>
+    </div>
+  );
+});
+HealthBadge.displayName = 'HealthBadge';
+
+export default function ChatInterface({ userId, username, module, userModules, initialConversationId, renderMarkdown = true }: ChatInterfaceProps) {
+  const [conversationId, setConversationId] = useState<string | null>(initialConversationId);
   const [chats, setChats] = useState<Chat[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  // Whether there are messages before the oldest one loaded
+  const [hasMore, setHasMore] = useState(false);
   const [sending, setSending] = useState(false);
   const [clearing, setClearing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [health, setHealth] = useState<ModuleHealthStatus>('online');
+  const [replyTo, setReplyTo] = useState<Chat | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  // Set when the server rate-limits sends; ChatInput counts down to it
+  const [cooldownUntil, setCooldownUntil] = useState<number | null>(null);
+  const [showSchedules, setShowSchedules] = useState(false);
+  const [showJobs, setShowJobs] = useState(true);
+  const [showSearch, setShowSearch] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  // Conversation list as an overlay on small screens; always shown on wider ones
+  const [showConversations, setShowConversations] = useState(false);
+  // Workflow progress keyed by the user message it belongs to
+  const [activities, setActivities] = useState<Record<string, ActivityEntry>>({});
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const sentMessageIdsRef = useRef<Set<string>>(new Set());
+  const loadingOlderRef = useRef(false);
+  // Scroll height and offset before older messages were prepended
+  const scrollRestoreRef = useRef<{ height: number; top: number } | null>(null);
+  // Status updates that arrive before /api/chat/send has returned the real row
+  const earlyUpdatesRef = useRef<Map<string, Chat>>(new Map());
+  // Pages loaded so far looking for the message opened from search
+  const jumpPagesRef = useRef(0);
+  // For realtime handlers, which outlive a conversation switch
+  const conversationIdRef = useRef(conversationId);
+  // Conversation whose first page is in `chats`
+  const loadedConversationRef = useRef<string | null>(null);
   const supabase = createClient();
   const router = useRouter();
+  // Message opened from search, via ?message=
+  const jumpToMessageId = useSearchParams().get('message');
   
   const moduleConfig = useMemo(() => MODULE_CONFIG[module], [module]);
 
+  // Opening a search result in another conversation changes the prop
+  useEffect(() => {
+    setConversationId(initialConversationId);
+  }, [initialConversationId]);
+
+  useEffect(() => {
+    conversationIdRef.current = conversationId;
+  }, [conversationId]);
+
+  // Keep the open conversation in the URL so a reload comes back to it
+  const selectConversation = useCallback((id: string | null) => {
+    setConversationId(id);
+    setShowConversations(false);
+    router.replace(id ? `/chat/${module}?conversation=${id}` : `/chat/${module}`, { scroll: false });
+  }, [router, module]);
+
   // Auto-scroll to bottom
   const scrollToBottom = useCallback((instant = false) => {
     if (messagesEndRef.current) {
@@ -80,26 +239,64 @@ export default function ChatInterface({ userId, username, module }: ChatInterfac
     }
   }, []);
 
-  // Fetch initial chats
+  // One page of messages, newest first from the server and returned oldest first
+  const fetchChatPage = useCallback(async (before: Chat | null) => {
+    if (!conversationId) {
+      return { chats: [] as Chat[], hasMore: false };
+    }
+
+    let query = supabase
+      .from('chats')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('conversation_id', conversationId)
+      // Replies that arrived after the user cancelled are kept but not shown
+      .eq('suppressed', false);
+
+    // Keyset cursor; the id breaks ties between messages saved in the same instant
+    if (before) {
+      query = query.or(
+        `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+      );
+    }
+
+    const { data, error: fetchError } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(CHAT_PAGE_SIZE + 1);
+
+    if (fetchError) throw fetchError;
+
+    const rows = (data || []) as Chat[];
+    return {
+      chats: rows.slice(0, CHAT_PAGE_SIZE).reverse(),
+      hasMore: rows.length > CHAT_PAGE_SIZE,
+    };
+  }, [userId, conversationId, supabase]);
+
+  // Fetch the latest page
   useEffect(() => {
     let isMounted = true;
+
+    // Start the newly opened conversation from a clean slate
+    loadedConversationRef.current = null;
+    setLoading(true);
+    setChats([]);
+    setHasMore(false);
+    setReplyTo(null);
+    sentMessageIdsRef.current.clear();
+    earlyUpdatesRef.current.clear();
     
     const fetchChats = async () => {
       try {
-        const { data, error: fetchError } = await supabase
-          .from('chats')
-          .select('*')
-          .eq('user_id', userId)
-          .eq('module', module)
-          .order('created_at', { ascending: true })
-          .limit(100);
-
-        if (fetchError) throw fetchError;
+        const page = await fetchChatPage(null);
         
         if (isMounted) {
-          setChats(data || []);
+          loadedConversationRef.current = conversationId;
+          setChats(page.chats);
+          setHasMore(page.hasMore);
           // Track existing message IDs
-          data?.forEach(chat => sentMessageIdsRef.current.add(chat.id));
+          page.chats.forEach(chat => sentMessageIdsRef.current.add(chat.id));
           setLoading(false);
           setTimeout(() => scrollToBottom(true), 50);
         }
@@ -117,10 +314,98 @@ export default function ChatInterface({ userId, username, module }: ChatInterfac
     return () => {
       isMounted = false;
     };
-  }, [userId, module, supabase, scrollToBottom]);
+  }, [conversationId, fetchChatPage, scrollToBottom]);
+
+  // Prepend the page before the oldest loaded message
+  const loadOlderChats = useCallback(async () => {
+    const oldest = chats[0];
+    if (!oldest || !hasMore || loadingOlderRef.current) return;
+
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
 
-  // Real-time subscription - only for BOT messages (user messages are added optimistically)
+    try {
+      const page = await fetchChatPage(oldest);
+      const container = chatContainerRef.current;
+
+      if (container) {
+        scrollRestoreRef.current = { height: container.scrollHeight, top: container.scrollTop };
+      }
+
+      page.chats.forEach(chat => sentMessageIdsRef.current.add(chat.id));
+      setChats((prev) => {
+        const loaded = new Set(prev.map((c) => c.id));
+        return [...page.chats.filter((c) => !loaded.has(c.id)), ...prev];
+      });
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error('[ChatInterface] Error fetching older chats:', err);
+      setError('Failed to load older messages');
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
+    }
+  }, [chats, hasMore, fetchChatPage]);
+
+  // Keep the messages the user was reading in place when older ones are prepended
+  useLayoutEffect(() => {
+    const restore = scrollRestoreRef.current;
+    const container = chatContainerRef.current;
+    if (!restore || !container) return;
+
+    scrollRestoreRef.current = null;
+    container.scrollTop = container.scrollHeight - restore.height + restore.top;
+  }, [chats]);
+
+  // A page too short to scroll can't trigger loading the next one
   useEffect(() => {
+    const container = chatContainerRef.current;
+    if (loading || !hasMore || !container) return;
+
+    if (container.scrollHeight <= container.clientHeight) {
+      loadOlderChats();
+    }
+  }, [loading, hasMore, chats, loadOlderChats]);
+
+  const handleScroll = useCallback(() => {
+    const container = chatContainerRef.current;
+    if (container && container.scrollTop < LOAD_OLDER_THRESHOLD_PX) {
+      loadOlderChats();
+    }
+  }, [loadOlderChats]);
+
+  const clearActivity = useCallback((chatId: string) => {
+    setActivities((prev) => {
+      if (!(chatId in prev)) return prev;
+      const next = { ...prev };
+      delete next[chatId];
+      return next;
+    });
+  }, []);
+
+  // Drop a deleted message; replies to it lose their quote, as the reply_to foreign key does
+  const removeChat = useCallback((chatId: string) => {
+    setChats((prev) => prev
+      .filter((c) => c.id !== chatId)
+      .map((c) => c.reply_to === chatId ? { ...c, reply_to: null } : c)
+    );
+    setReplyTo((prev) => prev?.id === chatId ? null : prev);
+    sentMessageIdsRef.current.delete(chatId);
+    clearActivity(chatId);
+  }, [clearActivity]);
+
+  // Real-time subscription - INSERT for BOT messages (user messages are added optimistically),
+  // UPDATE for delivery status, edits and streamed bot text, DELETE for messages removed elsewhere
+  useEffect(() => {
+    const handleActivity = (activity: ChatActivity) => {
+      if (activity.module !== module) return;
+      setActivities((prev) => ({
+        ...prev,
+        [activity.chat_id]: { ...activity, receivedAt: Date.now() },
+      }));
+      setTimeout(() => scrollToBottom(false), 50);
+    };
+
     const channel = supabase
       .channel(`chats:${userId}:${module}`)
       .on(
@@ -134,8 +419,8 @@ export default function ChatInterface({ userId, username, module }: ChatInterfac
         (payload) => {
           const newChat = payload.new as Chat;
           
-          // Only process if it's for this module
-          if (newChat.module !== module) return;
+          // Only process if it's for the open conversation
+          if (newChat.conversation_id !== conversationIdRef.current || newChat.suppressed) return;
           
           // Skip if we already have this message (prevents duplicates)
           if (sentMessageIdsRef.current.has(newChat.id)) {
@@ -145,21 +430,143 @@ export default function ChatInterface({ userId, username, module }: ChatInterfac
           // Only add bot messages via realtime (user messages are added optimistically)
           if (newChat.sender === 'bot') {
             sentMessageIdsRef.current.add(newChat.id);
+            if (newChat.reply_to) clearActivity(newChat.reply_to);
             setChats((prev) => [...prev, newChat]);
             setTimeout(() => scrollToBottom(false), 50);
           }
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'chats',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          const updatedChat = payload.new as Chat;
+          
+          if (updatedChat.conversation_id !== conversationIdRef.current) return;
+          
+          if (updatedChat.status === 'answered' || updatedChat.status === 'failed' || updatedChat.status === 'cancelled') {
+            clearActivity(updatedChat.id);
+          }
+          
+          if (!sentMessageIdsRef.current.has(updatedChat.id)) {
+            earlyUpdatesRef.current.set(updatedChat.id, updatedChat);
+            return;
+          }
+          
+          setChats((prev) => 
+            prev.map((c) => c.id === updatedChat.id ? { ...c, ...updatedChat } : c)
+          );
+          
+          // Keep a growing streamed response in view
+          if (updatedChat.stream_state === 'streaming') {
+            setTimeout(() => scrollToBottom(false), 50);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // Unfiltered like chat_activity below; ids not in this chat are ignored
+          event: 'DELETE',
+          schema: 'public',
+          table: 'chats',
+        },
+        (payload) => {
+          const chatId = (payload.old as Partial<Chat>).id;
+          if (chatId && sentMessageIdsRef.current.has(chatId)) removeChat(chatId);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'chat_activity',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => handleActivity(payload.new as ChatActivity)
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'chat_activity',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => handleActivity(payload.new as ChatActivity)
+      )
+      .on(
+        'postgres_changes',
+        {
+          // DELETE events can't be filtered and only carry the primary key
+          event: 'DELETE',
+          schema: 'public',
+          table: 'chat_activity',
+        },
+        (payload) => {
+          const chatId = (payload.old as Partial<ChatActivity>).chat_id;
+          if (chatId) clearActivity(chatId);
+        }
+      )
       .subscribe();
 
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [userId, module, supabase, scrollToBottom]);
+  }, [userId, module, supabase, scrollToBottom, clearActivity, removeChat]);
+
+  // Drop indicators the workflow stopped updating
+  useEffect(() => {
+    const entries = Object.values(activities);
+    if (entries.length === 0) return;
+
+    const nextExpiry = Math.min(...entries.map((a) => a.receivedAt)) + ACTIVITY_TIMEOUT_MS;
+    const timeout = setTimeout(() => {
+      const now = Date.now();
+      setActivities((prev) => Object.fromEntries(
+        Object.entries(prev).filter(([, a]) => now - a.receivedAt < ACTIVITY_TIMEOUT_MS)
+      ));
+    }, Math.max(nextExpiry - Date.now(), 0));
+
+    return () => clearTimeout(timeout);
+  }, [activities]);
 
-  // Clear all chats for this module
+  // Most recently updated progress in this conversation is the one shown
+  const currentActivity = useMemo(() => {
+    const shown = new Set(chats.map((chat) => chat.id));
+    const entries = Object.values(activities).filter((a) => shown.has(a.chat_id));
+    if (entries.length === 0) return null;
+    return entries.reduce((latest, a) => a.receivedAt > latest.receivedAt ? a : latest);
+  }, [activities, chats]);
+
+  // Poll workflow health for the header badge and send warnings
+  const refreshHealth = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/modules/health?module=${module}`);
+      if (response.ok) {
+        const data = await response.json();
+        setHealth(data.status);
+      }
+    } catch (err) {
+      console.error('[ChatInterface] Error fetching module health:', err);
+    }
+  }, [module]);
+
+  useEffect(() => {
+    refreshHealth();
+    const interval = setInterval(refreshHealth, HEALTH_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refreshHealth]);
+
+  // Clear all messages in the open conversation
   const handleClearChats = useCallback(async () => {
-    if (clearing) return;
+    if (clearing || !conversationId) return;
     
     const confirmed = window.confirm('Are you sure you want to clear all messages in this chat? This action cannot be undone.');
     if (!confirmed) return;
@@ -172,13 +579,17 @@ export default function ChatInterface({ userId, username, module }: ChatInterfac
         .from('chats')
         .delete()
         .eq('user_id', userId)
-        .eq('module', module);
+        .eq('conversation_id', conversationId);
       
       if (deleteError) throw deleteError;
       
       // Clear local state
       setChats([]);
+      setHasMore(false);
+      setReplyTo(null);
+      setActivities({});
       sentMessageIdsRef.current.clear();
+      earlyUpdatesRef.current.clear();
       
     } catch (err) {
       console.error('[ChatInterface] Error clearing chats:', err);
@@ -186,7 +597,7 @@ export default function ChatInterface({ userId, username, module }: ChatInterfac
     } finally {
       setClearing(false);
     }
-  }, [clearing, userId, module, supabase]);
+  }, [clearing, userId, conversationId, supabase]);
 
   // Logout handler
   const handleLogout = useCallback(async () => {
@@ -196,21 +607,47 @@ export default function ChatInterface({ userId, username, module }: ChatInterfac
   }, [supabase, router]);
 
   // Send message handler
-  const handleSend = useCallback(async (message: string, attachments: Attachment[]) => {
+  // Quick replies and forms pass their marker in extras
+  const handleSend = useCallback(async (
+    message: string, 
+    attachments: Attachment[], 
+    extras: Pick<SendMessagePayload, 'action' | 'form_submission'> = {}
+  ) => {
     if (sending) return;
+    const { action, form_submission } = extras;
     
     setSending(true);
     setError(null);
 
+    const quotedId = replyTo?.id;
+    setReplyTo(null);
+
+    // Retries of this send reuse the key, so the server saves and dispatches it once
+    const idempotencyKey = uuidv4();
+
     // Create optimistic message
-    const optimisticId = `optimistic-${Date.now()}`;
+    const optimisticId = `optimistic-${idempotencyKey}`;
     const optimisticChat: Chat = {
       id: optimisticId,
       user_id: userId,
       module,
+      // Filled in by the server when this message starts the first conversation
+      conversation_id: conversationId || '',
       sender: 'user',
       message,
       attachments: attachments.length > 0 ? attachments : null,
+      status: 'queued',
+      reply_to: quotedId || null,
+      stream_state: null,
+      stream_seq: null,
+      actions: null,
+      action_selected: null,
+      form: null,
+      form_response: null,
+      blocks: null,
+      idempotency_key: idempotencyKey,
+      edited_at: null,
+      suppressed: false,
       created_at: new Date().toISOString(),
     };
 
@@ -218,46 +655,241 @@ export default function ChatInterface({ userId, username, module }: ChatInterfac
     setChats((prev) => [...prev, optimisticChat]);
     setTimeout(() => scrollToBottom(false), 50);
 
+    let rateLimited = false;
+
     try {
-      const response = await fetch('/api/chat/send', {
+      const response = await sendWithRetry({
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ module, message, attachments }),
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': idempotencyKey },
+        body: JSON.stringify({
+          module,
+          conversation_id: conversationId || undefined,
+          message,
+          attachments,
+          reply_to: quotedId,
+          action,
+          form_submission,
+        }),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
+        if (response.status === 429) {
+          const retryAfter = Number(response.headers.get('Retry-After')) || errorData.retry_after || 1;
+          rateLimited = true;
+          setCooldownUntil(Date.now() + retryAfter * 1000);
+        }
         throw new Error(errorData.error || 'Failed to send message');
       }
 
-      const { chat: savedChat } = await response.json();
+      const { chat: sentChat } = await response.json();
       
       // Track the real message ID to prevent duplicate from realtime
-      sentMessageIdsRef.current.add(savedChat.id);
+      sentMessageIdsRef.current.add(sentChat.id);
+      
+      // Apply any status change that raced ahead of the response
+      const earlyUpdate = earlyUpdatesRef.current.get(sentChat.id);
+      earlyUpdatesRef.current.delete(sentChat.id);
+      const savedChat: Chat = earlyUpdate ? { ...sentChat, ...earlyUpdate } : sentChat;
       
       // Replace optimistic message with real one
       setChats((prev) => 
         prev.map((c) => c.id === optimisticId ? savedChat : c)
       );
+
+      // The first message started a conversation; open it
+      if (!conversationId) {
+        selectConversation(savedChat.conversation_id);
+      }
+      
+      // An undelivered message may mean the workflow just went down
+      if (savedChat.status === 'queued') {
+        refreshHealth();
+      }
     } catch (err) {
       console.error('[ChatInterface] Send error:', err);
-      setChats((prev) => prev.filter((c) => c.id !== optimisticId));
-      setError(err instanceof Error ? err.message : 'Failed to send message');
+      setChats((prev) => prev
+        .filter((c) => c.id !== optimisticId)
+        // Re-enable the quick replies or form if the submission didn't go through
+        .map((c) => {
+          if (action && c.id === action.chat_id && c.action_selected === action.value) {
+            return { ...c, action_selected: null };
+          }
+          if (form_submission && c.id === form_submission.chat_id) {
+            return { ...c, form_response: null };
+          }
+          return c;
+        })
+      );
+      // The input shows the cooldown instead
+      if (!rateLimited) {
+        setError(err instanceof Error ? err.message : 'Failed to send message');
+      }
     } finally {
       setSending(false);
     }
-  }, [sending, userId, module, scrollToBottom]);
+  }, [sending, replyTo, userId, module, conversationId, selectConversation, scrollToBottom, refreshHealth]);
+
+  // Quick reply buttons send their value as a message
+  const handleAction = useCallback((chat: Chat, action: QuickReplyAction) => {
+    if (sending || chat.action_selected) return;
+
+    setChats((prev) => 
+      prev.map((c) => c.id === chat.id ? { ...c, action_selected: action.value } : c)
+    );
+    handleSend(action.value, [], { action: { chat_id: chat.id, value: action.value } });
+  }, [sending, handleSend]);
+
+  // Form values are sent typed; the summary is only for the chat bubble
+  const handleFormSubmit = useCallback((chat: Chat, values: FormValues) => {
+    if (sending || !chat.form || chat.form_response) return;
+
+    setChats((prev) => 
+      prev.map((c) => c.id === chat.id ? { ...c, form_response: values } : c)
+    );
+    handleSend(formatFormSummary(chat.form, values), [], { form_submission: { chat_id: chat.id, values } });
+  }, [sending, handleSend]);
+
+  // Edits go through the server so n8n hears about them; resolves false on failure
+  const handleEdit = useCallback(async (chat: Chat, message: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/chat/messages/${chat.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to edit message');
+      }
+
+      setChats((prev) => 
+        prev.map((c) => c.id === chat.id ? { ...c, ...data.chat } : c)
+      );
+      return true;
+    } catch (err) {
+      console.error('[ChatInterface] Error editing message:', err);
+      setError(err instanceof Error ? err.message : 'Failed to edit message');
+      return false;
+    }
+  }, []);
+
+  // Delete a single message
+  const handleDelete = useCallback(async (chat: Chat) => {
+    const confirmed = window.confirm('Delete this message? This action cannot be undone.');
+    if (!confirmed) return;
+
+    setError(null);
+
+    const { error: deleteError } = await supabase
+      .from('chats')
+      .delete()
+      .eq('id', chat.id)
+      .eq('user_id', userId);
+
+    if (deleteError) {
+      console.error('[ChatInterface] Error deleting message:', deleteError);
+      setError('Failed to delete message');
+      return;
+    }
+
+    removeChat(chat.id);
+  }, [supabase, userId, removeChat]);
+
+  // Stop the workflow job for a message; later replies to it are suppressed
+  const handleCancel = useCallback(async (chat: Chat) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/chat/messages/${chat.id}/cancel`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel message');
+      }
+
+      setChats((prev) => 
+        prev.map((c) => c.id === chat.id ? { ...c, status: 'cancelled' } : c)
+      );
+      clearActivity(chat.id);
+    } catch (err) {
+      console.error('[ChatInterface] Error cancelling message:', err);
+      setError(err instanceof Error ? err.message : 'Failed to cancel message');
+    }
+  }, [clearActivity]);
+
+  const handleReply = useCallback((chat: Chat) => {
+    setReplyTo(chat);
+  }, []);
+
+  const handleCancelReply = useCallback(() => {
+    setReplyTo(null);
+  }, []);
+
+  // Scroll to a quoted message and flash it
+  const handleJumpTo = useCallback((chatId: string) => {
+    const element = document.getElementById(`chat-${chatId}`);
+    if (!element) return;
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(chatId);
+  }, []);
+
+  // Open a search result: load older pages until the message is there
+  useEffect(() => {
+    if (!jumpToMessageId || loading || loadingOlder) return;
+    // Wait for the result's conversation to replace the one that was open
+    if (loadedConversationRef.current !== conversationId) return;
+
+    if (chats.some((chat) => chat.id === jumpToMessageId)) {
+      jumpPagesRef.current = 0;
+      setTimeout(() => handleJumpTo(jumpToMessageId), 50);
+      selectConversation(conversationId);
+      return;
+    }
+
+    if (hasMore && jumpPagesRef.current < MAX_JUMP_PAGES) {
+      jumpPagesRef.current++;
+      loadOlderChats();
+      return;
+    }
+
+    jumpPagesRef.current = 0;
+    setError('Message not found');
+    selectConversation(conversationId);
+  }, [jumpToMessageId, loading, loadingOlder, conversationId, chats, hasMore, loadOlderChats, handleJumpTo, selectConversation]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timeout = setTimeout(() => setHighlightedId(null), HIGHLIGHT_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
 
   // Memoized chat list
   const chatList = useMemo(() => {
+    const chatById = new Map(chats.map((chat) => [chat.id, chat]));
+
     return chats.map((chat, index) => (
       <ChatMessage 
         key={chat.id} 
         chat={chat} 
         isLast={index === chats.length - 1}
+        quoted={chat.reply_to ? chatById.get(chat.reply_to) : undefined}
+        highlighted={chat.id === highlightedId}
+        renderMarkdown={renderMarkdown}
+        onReply={handleReply}
+        onEdit={handleEdit}
+        onDelete={handleDelete}
+        onCancel={handleCancel}
+        onJumpTo={handleJumpTo}
+        onAction={handleAction}
+        onFormSubmit={handleFormSubmit}
       />
     ));
-  }, [chats]);
+  }, [chats, highlightedId, renderMarkdown, handleReply, handleEdit, handleDelete, handleCancel, handleJumpTo, handleAction, handleFormSubmit]);
 
   return (
     <div className="flex flex-col h-screen bg-gradient-to-br from-[#0a0e1a] via-[#1a1233] to-[#0f1419] relative overflow-hidden">
@@ -280,6 +912,17 @@ export default function ChatInterface({ userId, username, module }: ChatInterfac
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
               </svg>
             </Link>
+
+            {/* Conversations Toggle (small screens) */}
+            <button
+              onClick={() => setShowConversations((prev) => !prev)}
+              className="md:hidden p-2 rounded-lg hover:bg-[#1a1f2e] text-gray-400 hover:text-white transition-colors"
+              title="Conversations"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M3.75 6.75h16.5M3.75 12h16.5m-16.5 5.25h16.5" />
+              </svg>
+            </button>
             
             <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-[#4A90F5] to-[#C74AFF] flex items-center justify-center shadow-lg">
               <ModuleIcon module={module} />
@@ -287,10 +930,7 @@ export default function ChatInterface({ userId, username, module }: ChatInterfac
             
             <div>
               <h1 className="text-white font-semibold">{moduleConfig.name}</h1>
-              <div className="flex items-center gap-1.5">
-                <span className="w-2 h-2 bg-emerald-400 rounded-full animate-pulse" />
-                <span className="text-emerald-400 text-xs">Online</span>
-              </div>
+              <HealthBadge status={health} />
             </div>
           </div>
 
@@ -304,6 +944,51 @@ export default function ChatInterface({ userId, username, module }: ChatInterfac
               <span className="text-sm">{username}</span>
             </div>
             
+            {/* Jobs Panel Toggle (panel is shown beside the chat on wide screens) */}
+            <button
+              onClick={() => setShowJobs((prev) => !prev)}
+              className={`hidden lg:block p-2 rounded-lg hover:bg-[#1a1f2e] transition-colors ${showJobs ? 'text-white' : 'text-gray-400 hover:text-white'}`}
+              title={showJobs ? 'Hide jobs' : 'Show jobs'}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M3.75 12h16.5m-16.5 3.75h16.5M3.75 19.5h16.5M5.625 4.5h12.75a1.875 1.875 0 010 3.75H5.625a1.875 1.875 0 010-3.75z" />
+              </svg>
+            </button>
+
+            {/* Search Button */}
+            <button
+              onClick={() => setShowSearch(true)}
+              className="p-2 rounded-lg hover:bg-[#1a1f2e] text-gray-400 hover:text-white transition-colors"
+              title="Search messages (Ctrl+K)"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
+              </svg>
+            </button>
+
+            {/* Export Button */}
+            <button
+              onClick={() => setShowExport(true)}
+              disabled={!conversationId}
+              className="p-2 rounded-lg hover:bg-[#1a1f2e] text-gray-400 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Export conversation"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
+              </svg>
+            </button>
+
+            {/* Scheduled Messages Button */}
+            <button
+              onClick={() => setShowSchedules(true)}
+              className="p-2 rounded-lg hover:bg-[#1a1f2e] text-gray-400 hover:text-white transition-colors"
+              title="Scheduled messages"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </button>
+
             {/* Clear Chat Button */}
             <button 
               onClick={handleClearChats}
@@ -344,30 +1029,104 @@ export default function ChatInterface({ userId, username, module }: ChatInterfac
         </div>
       )}
 
-      {/* Messages area - hidden scrollbar */}
-      <div 
-        ref={chatContainerRef}
-        className="flex-1 overflow-y-auto hide-scrollbar relative z-10"
-        style={{ overscrollBehavior: 'contain' }}
-      >
-        {loading ? (
-          <div className="max-w-4xl mx-auto px-4 py-6">
-            <MessageSkeleton />
+      <div className="flex-1 flex min-h-0 relative z-10">
+        {/* Conversations: beside the chat on wider screens, an overlay on small ones */}
+        {showConversations && (
+          <div
+            className="md:hidden absolute inset-0 bg-black/50 z-20"
+            onClick={() => setShowConversations(false)}
+          />
+        )}
+        <div className={`${showConversations ? 'flex' : 'hidden'} md:flex absolute md:relative inset-y-0 left-0 z-30 md:z-auto`}>
+          <ConversationSidebar
+            userId={userId}
+            module={module}
+            activeId={conversationId}
+            onSelect={selectConversation}
+          />
+        </div>
+
+        <div className="flex-1 flex flex-col min-w-0">
+          {/* Messages area - hidden scrollbar */}
+          <div 
+            ref={chatContainerRef}
+            onScroll={handleScroll}
+            className="flex-1 overflow-y-auto hide-scrollbar relative z-10"
+            style={{ overscrollBehavior: 'contain' }}
+          >
+            {loading ? (
+              <div className="max-w-4xl mx-auto px-4 py-6">
+                <MessageSkeleton />
+              </div>
+            ) : chats.length === 0 ? (
+              <EmptyState moduleName={moduleConfig.name} />
+            ) : (
+              <div className="max-w-4xl mx-auto px-4 py-6 space-y-4">
+                {loadingOlder && (
+                  <div className="flex justify-center py-2">
+                    <svg className="w-5 h-5 animate-spin text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                    </svg>
+                  </div>
+                )}
+                {!hasMore && chats.length > CHAT_PAGE_SIZE && (
+                  <p className="text-center text-xs text-gray-500 py-2">Beginning of conversation</p>
+                )}
+                {chatList}
+                {currentActivity && <ActivityIndicator activity={currentActivity} />}
+                <div ref={messagesEndRef} className="h-1" />
+              </div>
+            )}
           </div>
-        ) : chats.length === 0 ? (
-          <EmptyState moduleName={moduleConfig.name} />
-        ) : (
-          <div className="max-w-4xl mx-auto px-4 py-6 space-y-4">
-            {chatList}
-            <div ref={messagesEndRef} className="h-1" />
+
+          {/* Input area */}
+          <div className="relative z-10">
+            <ChatInput 
+              onSend={handleSend} 
+              disabled={sending} 
+              health={health} 
+              replyTo={replyTo}
+              onCancelReply={handleCancelReply}
+              module={module}
+              cooldownUntil={cooldownUntil}
+            />
+          </div>
+        </div>
+
+        {/* Jobs panel */}
+        {showJobs && (
+          <div className="hidden lg:flex">
+            <JobsPanel
+              userId={userId}
+              module={module}
+              onSelect={handleJumpTo}
+              onClose={() => setShowJobs(false)}
+            />
           </div>
         )}
       </div>
 
-      {/* Input area */}
-      <div className="relative z-10">
-        <ChatInput onSend={handleSend} disabled={sending} />
-      </div>
+      <ScheduleManagerModal
+        isOpen={showSchedules}
+        onClose={() => setShowSchedules(false)}
+        module={module}
+        conversationId={conversationId}
+      />
+
+      <ExportChatModal
+        isOpen={showExport}
+        onClose={() => setShowExport(false)}
+        module={module}
+        conversationId={conversationId}
+      />
+
+      <SearchPalette
+        isOpen={showSearch}
+        onOpenChange={setShowSearch}
+        modules={userModules}
+        defaultModule={module}
+      />
     </div>
   );
 }
@@ -1,13 +1,33 @@
 'use client';
 
-import { memo, useMemo } from 'react';
-import { Chat, Attachment } from '@/types';
+import { memo, useMemo, useState, KeyboardEvent } from 'react';
+import { Chat, Attachment, ChatStatus, FormValues, QuickReplyAction, QuickReplyStyle } from '@/types';
 import { parseMessageToSegments } from '@/lib/url-processing';
 import { formatFileSize } from '@/lib/file-handling';
+import { isEditable } from '@/lib/message-edits';
+import { isCancellable } from '@/lib/cancellation';
+import WorkflowForm from './WorkflowForm';
+import ContentBlocks from './ContentBlocks';
+import MarkdownContent from './MarkdownContent';
+import MessageLink from './MessageLink';
 
 interface ChatMessageProps {
   chat: Chat;
   isLast?: boolean;
+  // Message this one replies to; undefined when it isn't loaded
+  quoted?: Chat;
+  highlighted?: boolean;
+  // Render bot messages as Markdown (per-module setting)
+  renderMarkdown?: boolean;
+  onReply?: (chat: Chat) => void;
+  // Resolves true once the edit is saved
+  onEdit?: (chat: Chat, message: string) => Promise<boolean>;
+  onDelete?: (chat: Chat) => void;
+  // Stop the workflow job for a message it hasn't answered yet
+  onCancel?: (chat: Chat) => void;
+  onJumpTo?: (chatId: string) => void;
+  onAction?: (chat: Chat, action: QuickReplyAction) => void;
+  onFormSubmit?: (chat: Chat, values: FormValues) => void;
 }
 
 /**
@@ -44,17 +64,11 @@ const MessageContent = memo(({ text, isUser }: { text: string; isUser: boolean }
   return (
     <>
       {segments.map((segment, index) => {
-        if (segment.type === 'link') {
+        if (segment.type === 'link' && segment.href) {
           return (
-            <a
-              key={index}
-              href={segment.href}
-              target="_blank"
-              rel="nofollow noopener noreferrer"
-              className={`${isUser ? 'text-blue-200 hover:text-blue-100' : 'text-blue-400 hover:text-blue-300'} hover:underline transition-colors`}
-            >
+            <MessageLink key={index} href={segment.href} kind={segment.kind} isUser={isUser}>
               {segment.content}
-            </a>
+            </MessageLink>
           );
         }
         
@@ -75,6 +89,323 @@ const MessageContent = memo(({ text, isUser }: { text: string; isUser: boolean }
 });
 MessageContent.displayName = 'MessageContent';
 
+/**
+ * Typing dots shown while a streamed response has no text yet
+ */
+const StreamingDots = memo(() => (
+  <span className="inline-flex items-center gap-1 py-1" aria-label="Assistant is responding">
+    {[0, 150, 300].map((delay) => (
+      <span
+        key={delay}
+        className="w-1.5 h-1.5 rounded-full bg-gray-400 animate-bounce"
+        style={{ animationDelay: `${delay}ms` }}
+      />
+    ))}
+  </span>
+));
+StreamingDots.displayName = 'StreamingDots';
+
+/**
+ * Delivery status ticks for user messages
+ */
+const STATUS_LABELS: Record<ChatStatus, string> = {
+  queued: 'Sending',
+  dispatched: 'Delivered to workflow',
+  acknowledged: 'Received by workflow',
+  answered: 'Answered',
+  failed: 'Not delivered',
+  cancelled: 'Cancelled',
+};
+
+const StatusIndicator = memo(({ status }: { status: ChatStatus }) => {
+  const label = STATUS_LABELS[status];
+
+  if (status === 'failed') {
+    return (
+      <span className="inline-flex items-center gap-1 text-red-200" title={label}>
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+          <circle cx="12" cy="12" r="10" />
+          <line x1="12" x2="12" y1="8" y2="12" />
+          <line x1="12" x2="12.01" y1="16" y2="16" />
+        </svg>
+        <span>{label}</span>
+      </span>
+    );
+  }
+
+  if (status === 'cancelled') {
+    return (
+      <span className="inline-flex items-center gap-1 text-white/70" title={label}>
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+          <circle cx="12" cy="12" r="10" />
+          <path d="m4.9 4.9 14.2 14.2" />
+        </svg>
+        <span>{label}</span>
+      </span>
+    );
+  }
+
+  if (status === 'queued') {
+    return (
+      <span className="inline-flex items-center text-white/70" title={label}>
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+          <circle cx="12" cy="12" r="10" />
+          <polyline points="12 6 12 12 16 14" />
+        </svg>
+      </span>
+    );
+  }
+
+  // One tick when delivered, two once the workflow has it, highlighted when answered
+  const doubleTick = status === 'acknowledged' || status === 'answered';
+  const color = status === 'answered' ? 'text-sky-300' : 'text-white/70';
+
+  return (
+    <span className={`inline-flex items-center ${color}`} title={label}>
+      <svg className="w-4 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 28 24" strokeWidth={2.5}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M2 13l5 5L18 6" />
+        {doubleTick && <path strokeLinecap="round" strokeLinejoin="round" d="M12 17l1 1L24 6" />}
+      </svg>
+    </span>
+  );
+});
+StatusIndicator.displayName = 'StatusIndicator';
+
+/**
+ * Short preview of a message for quotes
+ */
+export function getQuotePreview(chat: Chat): string {
+  if (chat.message) {
+    const text = chat.message.replace(/\s+/g, ' ').trim();
+    return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+  }
+  if (chat.attachments && chat.attachments.length > 0) {
+    return chat.attachments.map(a => a.name).join(', ');
+  }
+  if (chat.blocks && chat.blocks.length > 0) {
+    return chat.blocks.map(b => b.title || b.type.replace('_', ' ')).join(', ');
+  }
+  return '';
+}
+
+/**
+ * Quoted context shown above a reply, clicking jumps to the original
+ */
+const QuotedMessage = memo(({ 
+  replyTo, 
+  quoted, 
+  isUser, 
+  onJumpTo 
+}: { 
+  replyTo: string;
+  quoted?: Chat;
+  isUser: boolean;
+  onJumpTo?: (chatId: string) => void;
+}) => {
+  const author = quoted ? (quoted.sender === 'user' ? 'You' : 'Assistant') : null;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onJumpTo?.(replyTo)}
+      disabled={!quoted}
+      className={`
+        block w-full text-left mb-2 px-3 py-1.5 rounded-lg border-l-2 text-xs transition-colors
+        ${isUser 
+          ? 'bg-white/10 border-white/60 hover:bg-white/20' 
+          : 'bg-[#242938] border-[#4A90F5] hover:bg-[#2a3144]'
+        }
+        disabled:cursor-default
+      `}
+      title={quoted ? 'Jump to original message' : undefined}
+    >
+      {quoted ? (
+        <>
+          <span className={`block font-medium ${isUser ? 'text-white' : 'text-[#4A90F5]'}`}>{author}</span>
+          <span className={`block truncate ${isUser ? 'text-white/80' : 'text-gray-400'}`}>
+            {getQuotePreview(quoted)}
+          </span>
+        </>
+      ) : (
+        <span className={`italic ${isUser ? 'text-white/70' : 'text-gray-500'}`}>Original message not loaded</span>
+      )}
+    </button>
+  );
+});
+QuotedMessage.displayName = 'QuotedMessage';
+
+/**
+ * Reply, edit, cancel and delete buttons shown on hover
+ */
+const MessageActions = memo(({ 
+  onReply, 
+  onEdit, 
+  onCancel, 
+  onDelete 
+}: { 
+  onReply?: () => void;
+  onEdit?: () => void;
+  onCancel?: () => void;
+  onDelete?: () => void;
+}) => {
+  const buttonClass = 'p-1.5 rounded-lg text-gray-500 hover:bg-[#1a1f2e] transition-colors';
+
+  return (
+    <div className="self-center flex flex-col gap-0.5 transition-all opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+      {onReply && (
+        <button type="button" onClick={onReply} className={`${buttonClass} hover:text-white`} title="Reply">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+            <polyline points="9 17 4 12 9 7" />
+            <path d="M20 18v-2a4 4 0 0 0-4-4H4" />
+          </svg>
+        </button>
+      )}
+      {onEdit && (
+        <button type="button" onClick={onEdit} className={`${buttonClass} hover:text-white`} title="Edit">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+            <path d="M12 20h9" />
+            <path d="M16.5 3.5a2.12 2.12 0 0 1 3 3L7 19l-4 1 1-4Z" />
+          </svg>
+        </button>
+      )}
+      {onCancel && (
+        <button type="button" onClick={onCancel} className={`${buttonClass} hover:text-amber-400`} title="Cancel processing">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+            <circle cx="12" cy="12" r="10" />
+            <rect width="6" height="6" x="9" y="9" />
+          </svg>
+        </button>
+      )}
+      {onDelete && (
+        <button type="button" onClick={onDelete} className={`${buttonClass} hover:text-red-400`} title="Delete">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+            <path d="M3 6h18M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" />
+          </svg>
+        </button>
+      )}
+    </div>
+  );
+});
+MessageActions.displayName = 'MessageActions';
+
+/**
+ * Inline editor replacing the text of a user message
+ */
+const MessageEditor = memo(({ 
+  initial, 
+  onSave, 
+  onCancel 
+}: { 
+  initial: string;
+  onSave: (message: string) => Promise<void>;
+  onCancel: () => void;
+}) => {
+  const [draft, setDraft] = useState(initial);
+  const [saving, setSaving] = useState(false);
+
+  const save = async () => {
+    if (saving) return;
+    setSaving(true);
+    await onSave(draft.trim());
+    setSaving(false);
+  };
+
+  // Enter saves and Escape cancels, like sending from the input
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      save();
+    } else if (e.key === 'Escape') {
+      onCancel();
+    }
+  };
+
+  return (
+    <div>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        rows={Math.min(Math.max(draft.split('\n').length, 2), 8)}
+        autoFocus
+        disabled={saving}
+        className="w-full min-w-[240px] px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white text-[15px] leading-relaxed resize-none focus:outline-none focus:border-white/50"
+      />
+      <div className="flex justify-end gap-2 mt-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+          className="px-3 py-1 rounded-lg text-xs text-white/80 hover:bg-white/10 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={save}
+          disabled={saving}
+          className="px-3 py-1 rounded-lg text-xs font-medium bg-white/20 text-white hover:bg-white/30 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving…' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+});
+MessageEditor.displayName = 'MessageEditor';
+
+/**
+ * Quick reply buttons under a bot message, usable once
+ */
+const QUICK_REPLY_STYLES: Record<QuickReplyStyle, string> = {
+  primary: 'bg-gradient-to-r from-[#4A90F5] to-[#C74AFF] text-white border-transparent hover:opacity-90',
+  secondary: 'bg-[#242938] text-gray-200 border-[#2a3144] hover:bg-[#2a3144]',
+  danger: 'bg-red-500/10 text-red-400 border-red-500/30 hover:bg-red-500/20',
+};
+
+const QuickReplies = memo(({ 
+  actions, 
+  selected, 
+  onSelect 
+}: { 
+  actions: QuickReplyAction[];
+  selected: string | null;
+  onSelect?: (action: QuickReplyAction) => void;
+}) => {
+  const used = selected !== null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-3">
+      {actions.map((action) => {
+        const isSelected = action.value === selected;
+        return (
+          <button
+            key={action.value}
+            type="button"
+            onClick={() => onSelect?.(action)}
+            disabled={used || !onSelect}
+            className={`
+              inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg border transition-all
+              ${QUICK_REPLY_STYLES[action.style || 'secondary']}
+              ${used && !isSelected ? 'opacity-40' : ''}
+              ${isSelected ? 'ring-2 ring-[#4A90F5]/60' : ''}
+              disabled:cursor-not-allowed
+            `}
+          >
+            {isSelected && (
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+              </svg>
+            )}
+            {action.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+});
+QuickReplies.displayName = 'QuickReplies';
+
 /**
  * File attachment component
  */
@@ -126,8 +457,43 @@ FileAttachment.displayName = 'FileAttachment';
 /**
  * Main ChatMessage component
  */
-const ChatMessage = memo(({ chat, isLast }: ChatMessageProps) => {
+const ChatMessage = memo(({ 
+  chat, 
+  isLast, 
+  quoted, 
+  highlighted, 
+  renderMarkdown = true,
+  onReply, 
+  onEdit, 
+  onDelete, 
+  onCancel, 
+  onJumpTo, 
+  onAction, 
+  onFormSubmit 
+}: ChatMessageProps) => {
   const isUser = chat.sender === 'user';
+  const isStreaming = chat.stream_state === 'streaming';
+  // Optimistic messages have no server id to reply to yet
+  const canReply = !!onReply && !chat.id.startsWith('optimistic-');
+  const canEdit = !!onEdit && isEditable(chat);
+  const canDelete = !!onDelete && !chat.id.startsWith('optimistic-');
+  const canCancel = !!onCancel && isCancellable(chat);
+  const [editing, setEditing] = useState(false);
+
+  const handleSaveEdit = async (message: string) => {
+    if (message === chat.message || (await onEdit?.(chat, message))) {
+      setEditing(false);
+    }
+  };
+
+  const actions = !editing && (canReply || canEdit || canCancel || canDelete) && (
+    <MessageActions
+      onReply={canReply ? () => onReply?.(chat) : undefined}
+      onEdit={canEdit ? () => setEditing(true) : undefined}
+      onCancel={canCancel ? () => onCancel?.(chat) : undefined}
+      onDelete={canDelete ? () => onDelete?.(chat) : undefined}
+    />
+  );
   
   const time = useMemo(() => {
     return new Date(chat.created_at).toLocaleTimeString([], { 
@@ -138,13 +504,24 @@ const ChatMessage = memo(({ chat, isLast }: ChatMessageProps) => {
 
   return (
     <div 
-      className={`flex ${isUser ? 'justify-end' : 'justify-start'} ${isLast ? 'animate-slide-up' : ''}`}
+      id={`chat-${chat.id}`}
+      className={`group flex gap-1 ${isUser ? 'justify-end' : 'justify-start'} ${isLast ? 'animate-slide-up' : ''}`}
     >
+      {isUser && actions}
+
       {isUser ? (
         // User message - compact rounded bubble
         <div className="max-w-[70%]">
-          <div className="bg-gradient-to-r from-[#4A90F5] to-[#C74AFF] rounded-2xl px-4 py-3 shadow-lg">
-            {chat.message && (
+          <div className={`bg-gradient-to-r from-[#4A90F5] to-[#C74AFF] rounded-2xl px-4 py-3 shadow-lg transition-shadow ${
+            chat.status === 'failed' ? 'ring-2 ring-red-500/70' : highlighted ? 'ring-2 ring-white/70' : ''
+          }`}>
+            {chat.reply_to && (
+              <QuotedMessage replyTo={chat.reply_to} quoted={quoted} isUser={true} onJumpTo={onJumpTo} />
+            )}
+
+            {editing ? (
+              <MessageEditor initial={chat.message} onSave={handleSaveEdit} onCancel={() => setEditing(false)} />
+            ) : chat.message && (
               <p className="text-white text-[15px] leading-relaxed break-words">
                 <MessageContent text={chat.message} isUser={true} />
               </p>
@@ -162,17 +539,39 @@ const ChatMessage = memo(({ chat, isLast }: ChatMessageProps) => {
               </div>
             )}
             
-            <p className="text-white/70 text-xs mt-2">{time}</p>
+            <div className="flex items-center justify-end gap-1.5 text-white/70 text-xs mt-2">
+              {chat.edited_at && (
+                <span title={`Edited ${new Date(chat.edited_at).toLocaleString()}`}>edited</span>
+              )}
+              <span>{time}</span>
+              {chat.status && <StatusIndicator status={chat.status} />}
+            </div>
           </div>
         </div>
       ) : (
-        // Bot message - dark bubble with border
-        <div className="max-w-[70%]">
-          <div className="bg-[#1a1f2e]/90 border border-[#2a3144] rounded-2xl px-4 py-3">
-            {chat.message && (
-              <p className="text-gray-100 text-[15px] leading-relaxed break-words">
-                <MessageContent text={chat.message} isUser={false} />
-              </p>
+        // Bot message - dark bubble with border, wider when it carries tables and lists
+        <div className={chat.blocks && chat.blocks.length > 0 ? 'max-w-[85%] min-w-0' : 'max-w-[70%]'}>
+          <div className={`bg-[#1a1f2e]/90 border rounded-2xl px-4 py-3 transition-colors ${
+            highlighted ? 'border-[#4A90F5]' : 'border-[#2a3144]'
+          }`}>
+            {chat.reply_to && (
+              <QuotedMessage replyTo={chat.reply_to} quoted={quoted} isUser={false} onJumpTo={onJumpTo} />
+            )}
+
+            {chat.message ? (
+              renderMarkdown ? (
+                <div className="text-gray-100 text-[15px] leading-relaxed break-words">
+                  <MarkdownContent text={chat.message} />
+                  {isStreaming && <span className="inline-block w-2 h-4 mt-1 bg-gray-400 animate-pulse" />}
+                </div>
+              ) : (
+                <p className="text-gray-100 text-[15px] leading-relaxed break-words">
+                  <MessageContent text={chat.message} isUser={false} />
+                  {isStreaming && <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />}
+                </p>
+              )
+            ) : isStreaming && (
+              <StreamingDots />
             )}
             
             {chat.attachments && chat.attachments.length > 0 && (
@@ -187,16 +586,60 @@ const ChatMessage = memo(({ chat, isLast }: ChatMessageProps) => {
               </div>
             )}
             
+            {chat.blocks && chat.blocks.length > 0 && (
+              <ContentBlocks
+                blocks={chat.blocks}
+                className={chat.message || (chat.attachments && chat.attachments.length > 0) ? 'mt-3' : ''}
+              />
+            )}
+            
+            {chat.form && (
+              <WorkflowForm
+                schema={chat.form}
+                submitted={chat.form_response}
+                onSubmit={onFormSubmit && (values => onFormSubmit(chat, values))}
+              />
+            )}
+            
+            {chat.actions && chat.actions.length > 0 && (
+              <QuickReplies
+                actions={chat.actions}
+                selected={chat.action_selected}
+                onSelect={onAction && (action => onAction(chat, action))}
+              />
+            )}
+            
             <p className="text-gray-500 text-xs mt-2">{time}</p>
           </div>
         </div>
       )}
+
+      {!isUser && actions}
     </div>
   );
 }, (prevProps, nextProps) => {
   return (
     prevProps.chat.id === nextProps.chat.id &&
     prevProps.chat.message === nextProps.chat.message &&
+    prevProps.chat.edited_at === nextProps.chat.edited_at &&
+    prevProps.chat.status === nextProps.chat.status &&
+    prevProps.chat.stream_state === nextProps.chat.stream_state &&
+    prevProps.chat.attachments === nextProps.chat.attachments &&
+    prevProps.chat.actions === nextProps.chat.actions &&
+    prevProps.chat.action_selected === nextProps.chat.action_selected &&
+    prevProps.onAction === nextProps.onAction &&
+    prevProps.chat.form === nextProps.chat.form &&
+    prevProps.chat.blocks === nextProps.chat.blocks &&
+    prevProps.chat.form_response === nextProps.chat.form_response &&
+    prevProps.onFormSubmit === nextProps.onFormSubmit &&
+    prevProps.quoted === nextProps.quoted &&
+    prevProps.highlighted === nextProps.highlighted &&
+    prevProps.renderMarkdown === nextProps.renderMarkdown &&
+    prevProps.onReply === nextProps.onReply &&
+    prevProps.onEdit === nextProps.onEdit &&
+    prevProps.onDelete === nextProps.onDelete &&
+    prevProps.onCancel === nextProps.onCancel &&
+    prevProps.onJumpTo === nextProps.onJumpTo &&
     prevProps.isLast === nextProps.isLast
   );
 });
@@ -0,0 +1,215 @@
+'use client';
+
+import { memo, useCallback } from 'react';
+import {
+  CalloutBlock,
+  CalloutVariant,
+  ContentBlock,
+  FileListBlock,
+  KeyValueBlock,
+  TableBlock,
+  TableCell,
+} from '@/types';
+import { tableToCsv } from '@/lib/content-blocks';
+import { formatFileSize } from '@/lib/file-handling';
+
+const BlockTitle = memo(({ title }: { title?: string }) => (
+  title ? <p className="text-xs font-medium text-gray-400 uppercase tracking-wide mb-2">{title}</p> : null
+));
+BlockTitle.displayName = 'BlockTitle';
+
+/**
+ * Display form of a table cell
+ */
+function formatCell(value: TableCell): string {
+  if (value === null) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return value.toLocaleString();
+  return value;
+}
+
+/**
+ * Table with a CSV download action
+ */
+const TableView = memo(({ block }: { block: TableBlock }) => {
+  const handleDownload = useCallback(() => {
+    // BOM so Excel picks up UTF-8
+    const blob = new Blob(['\uFEFF' + tableToCsv(block)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const filename = (block.title || 'table').replace(/[^a-zA-Z0-9-_]+/g, '-').replace(/^-|-$/g, '') || 'table';
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${filename}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [block]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <BlockTitle title={block.title} />
+        <button
+          type="button"
+          onClick={handleDownload}
+          className="ml-auto inline-flex items-center gap-1.5 px-2 py-1 text-xs text-gray-400 hover:text-white rounded-md hover:bg-[#242938] transition-colors"
+          title="Download as CSV"
+        >
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+            <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+            <polyline points="7 10 12 15 17 10" />
+            <line x1="12" x2="12" y1="15" y2="3" />
+          </svg>
+          CSV
+        </button>
+      </div>
+
+      <div className="overflow-x-auto max-h-96 rounded-lg border border-[#2a3144]">
+        <table className="w-full text-sm text-left">
+          <thead className="sticky top-0 bg-[#242938]">
+            <tr>
+              {block.columns.map((column, index) => (
+                <th key={index} className="px-3 py-2 text-xs font-medium text-gray-300 whitespace-nowrap">
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[#2a3144]">
+            {block.rows.length === 0 ? (
+              <tr>
+                <td colSpan={block.columns.length} className="px-3 py-4 text-center text-gray-500">
+                  No rows
+                </td>
+              </tr>
+            ) : block.rows.map((row, rowIndex) => (
+              <tr key={rowIndex} className="hover:bg-[#242938]/50">
+                {row.map((cell, cellIndex) => (
+                  <td
+                    key={cellIndex}
+                    className={`px-3 py-2 text-gray-200 whitespace-nowrap ${typeof cell === 'number' ? 'text-right tabular-nums' : ''}`}
+                  >
+                    {formatCell(cell)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-gray-500 mt-1">
+        {block.rows.length} {block.rows.length === 1 ? 'row' : 'rows'}
+      </p>
+    </div>
+  );
+});
+TableView.displayName = 'TableView';
+
+const KeyValueView = memo(({ block }: { block: KeyValueBlock }) => (
+  <div>
+    <BlockTitle title={block.title} />
+    <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1.5 text-sm">
+      {block.items.map((item, index) => (
+        <div key={index} className="contents">
+          <dt className="text-gray-400">{item.label}</dt>
+          <dd className="text-gray-100 break-words">{item.value}</dd>
+        </div>
+      ))}
+    </dl>
+  </div>
+));
+KeyValueView.displayName = 'KeyValueView';
+
+const CALLOUT_STYLES: Record<CalloutVariant, { container: string; icon: string; path: string }> = {
+  info: {
+    container: 'bg-[#4A90F5]/10 border-[#4A90F5]/30 text-blue-200',
+    icon: 'text-[#4A90F5]',
+    path: 'M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z',
+  },
+  success: {
+    container: 'bg-emerald-500/10 border-emerald-500/30 text-emerald-200',
+    icon: 'text-emerald-400',
+    path: 'M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z',
+  },
+  warning: {
+    container: 'bg-amber-500/10 border-amber-500/30 text-amber-200',
+    icon: 'text-amber-400',
+    path: 'M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z',
+  },
+  error: {
+    container: 'bg-red-500/10 border-red-500/30 text-red-200',
+    icon: 'text-red-400',
+    path: 'M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z',
+  },
+};
+
+const CalloutView = memo(({ block }: { block: CalloutBlock }) => {
+  const style = CALLOUT_STYLES[block.variant];
+
+  return (
+    <div className={`flex gap-3 p-3 rounded-lg border ${style.container}`}>
+      <svg className={`w-5 h-5 shrink-0 ${style.icon}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={style.path} />
+      </svg>
+      <div className="text-sm min-w-0">
+        {block.title && <p className="font-medium mb-0.5">{block.title}</p>}
+        <p className="whitespace-pre-line break-words">{block.text}</p>
+      </div>
+    </div>
+  );
+});
+CalloutView.displayName = 'CalloutView';
+
+const FileListView = memo(({ block }: { block: FileListBlock }) => (
+  <div>
+    <BlockTitle title={block.title} />
+    <ul className="space-y-1.5">
+      {block.files.map((file, index) => (
+        <li key={index}>
+          <a
+            href={file.url}
+            target="_blank"
+            rel="nofollow noopener noreferrer"
+            className="flex items-center gap-2 p-2 rounded-lg bg-[#242938] hover:bg-[#2a3144] transition-colors"
+          >
+            <svg className="w-4 h-4 text-gray-300 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+              <path d="M15 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7Z" />
+              <path d="M14 2v4a2 2 0 0 0 2 2h4" />
+            </svg>
+            <span className="flex-1 min-w-0 text-sm text-gray-200 truncate">{file.name}</span>
+            {file.size !== undefined && (
+              <span className="text-xs text-gray-400 shrink-0">{formatFileSize(file.size)}</span>
+            )}
+          </a>
+        </li>
+      ))}
+    </ul>
+  </div>
+));
+FileListView.displayName = 'FileListView';
+
+/**
+ * Structured content attached to a bot message
+ */
+const ContentBlocks = memo(({ blocks, className = '' }: { blocks: ContentBlock[]; className?: string }) => (
+  <div className={`space-y-3 ${className}`}>
+    {blocks.map((block, index) => {
+      switch (block.type) {
+        case 'table':
+          return <TableView key={index} block={block} />;
+        case 'key_value':
+          return <KeyValueView key={index} block={block} />;
+        case 'callout':
+          return <CalloutView key={index} block={block} />;
+        case 'file_list':
+          return <FileListView key={index} block={block} />;
+        default:
+          return null;
+      }
+    })}
+  </div>
+));
+ContentBlocks.displayName = 'ContentBlocks';
+
+export default ContentBlocks;
@@ -0,0 +1,307 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef, memo } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { Conversation, ModuleType } from '@/types';
+import { MAX_CONVERSATION_TITLE_LENGTH } from '@/lib/conversations';
+
+interface ConversationSidebarProps {
+  userId: string;
+  module: ModuleType;
+  activeId: string | null;
+  // Null when the last open conversation was archived
+  onSelect: (conversationId: string | null) => void;
+}
+
+const UNTITLED = 'New conversation';
+
+/**
+ * Day or time of the last message, like a messaging app's list
+ */
+function formatLastActive(iso: string): string {
+  const date = new Date(iso);
+  if (date.toDateString() === new Date().toDateString()) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleDateString([], { day: 'numeric', month: 'short' });
+}
+
+// One conversation with inline rename and archive
+const ConversationRow = memo(({
+  conversation,
+  active,
+  onSelect,
+  onRename,
+  onArchive,
+}: {
+  conversation: Conversation;
+  active: boolean;
+  onSelect: (conversationId: string) => void;
+  onRename: (conversation: Conversation, title: string) => Promise<boolean>;
+  onArchive: (conversation: Conversation) => void;
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [title, setTitle] = useState(conversation.title || '');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const archived = !!conversation.archived_at;
+
+  useEffect(() => {
+    if (editing) inputRef.current?.select();
+  }, [editing]);
+
+  const startEditing = useCallback(() => {
+    setTitle(conversation.title || '');
+    setEditing(true);
+  }, [conversation.title]);
+
+  const save = useCallback(async () => {
+    if (title.trim() === (conversation.title || '')) {
+      setEditing(false);
+      return;
+    }
+    if (await onRename(conversation, title)) setEditing(false);
+  }, [title, conversation, onRename]);
+
+  if (editing) {
+    return (
+      <div className="px-2 py-1.5">
+        <input
+          ref={inputRef}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={save}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') save();
+            if (e.key === 'Escape') setEditing(false);
+          }}
+          maxLength={MAX_CONVERSATION_TITLE_LENGTH}
+          placeholder={UNTITLED}
+          className="w-full px-2 py-1.5 text-sm bg-[#242938] border border-[#4A90F5] rounded-lg text-white placeholder-gray-500 focus:outline-none"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`group flex items-center gap-1 rounded-xl transition-colors ${active ? 'bg-[#242938]' : 'hover:bg-[#1a1f2e]'}`}
+    >
+      <button
+        onClick={() => onSelect(conversation.id)}
+        onDoubleClick={startEditing}
+        className="flex-1 min-w-0 text-left px-3 py-2"
+      >
+        <p className={`text-sm truncate ${active ? 'text-white' : 'text-gray-300'} ${conversation.title ? '' : 'italic'}`}>
+          {conversation.title || UNTITLED}
+        </p>
+        <p className="text-xs text-gray-500">{formatLastActive(conversation.last_message_at)}</p>
+      </button>
+
+      <div className="flex items-center pr-2 opacity-0 group-hover:opacity-100 transition-opacity">
+        <button
+          onClick={startEditing}
+          className="p-1 rounded-lg text-gray-400 hover:text-white hover:bg-[#2a3144]"
+          title="Rename"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L10.582 16.07a4.5 4.5 0 01-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 011.13-1.897l8.932-8.931z" />
+          </svg>
+        </button>
+        <button
+          onClick={() => onArchive(conversation)}
+          className="p-1 rounded-lg text-gray-400 hover:text-white hover:bg-[#2a3144]"
+          title={archived ? 'Restore' : 'Archive'}
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            {archived ? (
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 15L3 9m0 0l6-6M3 9h12a6 6 0 010 12h-3" />
+            ) : (
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M20.25 7.5l-.625 10.632a2.25 2.25 0 01-2.247 2.118H6.622a2.25 2.25 0 01-2.247-2.118L3.75 7.5m8.25 3v6.75m0 0l-3-3m3 3l3-3M3.375 7.5h17.25c.621 0 1.125-.504 1.125-1.125v-1.5c0-.621-.504-1.125-1.125-1.125H3.375c-.621 0-1.125.504-1.125 1.125v1.5c0 .621.504 1.125 1.125 1.125z" />
+            )}
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+});
+ConversationRow.displayName = 'ConversationRow';
+
+export default function ConversationSidebar({ userId, module, activeId, onSelect }: ConversationSidebarProps) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showArchived, setShowArchived] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const supabase = createClient();
+
+  const fetchConversations = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/conversations?module=${module}&archived=${showArchived}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load conversations');
+      }
+
+      setConversations(data.conversations);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load conversations');
+    } finally {
+      setLoading(false);
+    }
+  }, [module, showArchived]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchConversations();
+  }, [fetchConversations]);
+
+  // New messages reorder the list and name untitled conversations
+  useEffect(() => {
+    const channel = supabase
+      .channel(`conversations:${userId}:${module}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'conversations',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          if ((payload.new as Partial<Conversation>).module === module) fetchConversations();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, userId, module, fetchConversations]);
+
+  const updateConversation = useCallback(async (conversationId: string, updates: { title?: string; archived?: boolean }) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update conversation');
+      }
+
+      return data.conversation as Conversation;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update conversation');
+      return null;
+    }
+  }, []);
+
+  const handleNew = useCallback(async () => {
+    if (creating) return;
+    setCreating(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/conversations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ module }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create conversation');
+      }
+
+      setShowArchived(false);
+      setConversations((prev) => [data.conversation, ...prev.filter((c) => c.id !== data.conversation.id)]);
+      onSelect(data.conversation.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create conversation');
+    } finally {
+      setCreating(false);
+    }
+  }, [creating, module, onSelect]);
+
+  const handleRename = useCallback(async (conversation: Conversation, title: string) => {
+    const updated = await updateConversation(conversation.id, { title });
+    if (!updated) return false;
+
+    setConversations((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
+    return true;
+  }, [updateConversation]);
+
+  // Archiving the open conversation moves to the next one
+  const handleArchive = useCallback(async (conversation: Conversation) => {
+    const updated = await updateConversation(conversation.id, { archived: !conversation.archived_at });
+    if (!updated) return;
+
+    const remaining = conversations.filter((c) => c.id !== updated.id);
+    setConversations(remaining);
+
+    if (updated.archived_at && updated.id === activeId) {
+      onSelect(remaining.length > 0 ? remaining[0].id : null);
+    } else if (!updated.archived_at) {
+      onSelect(updated.id);
+    }
+  }, [conversations, activeId, updateConversation, onSelect]);
+
+  return (
+    <aside className="w-64 h-full flex-shrink-0 border-r border-[#2a3144]/50 bg-[#0d1117]/95 backdrop-blur-xl flex flex-col min-h-0">
+      <div className="p-3 border-b border-[#2a3144]/50">
+        <button
+          onClick={handleNew}
+          disabled={creating}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-gradient-to-r from-[#4A90F5] to-[#C74AFF] text-white text-sm font-medium rounded-xl transition-opacity hover:opacity-90 disabled:opacity-50"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.5v15m7.5-7.5h-15" />
+          </svg>
+          New conversation
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto hide-scrollbar p-2 space-y-1">
+        {error && (
+          <p className="text-xs text-red-400 px-2 py-1">{error}</p>
+        )}
+        {loading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="skeleton rounded-xl h-12" />
+            ))}
+          </div>
+        ) : conversations.length === 0 ? (
+          <p className="text-center text-sm text-gray-500 py-6">
+            {showArchived ? 'No archived conversations' : 'No conversations yet'}
+          </p>
+        ) : (
+          conversations.map((conversation) => (
+            <ConversationRow
+              key={conversation.id}
+              conversation={conversation}
+              active={conversation.id === activeId}
+              onSelect={onSelect}
+              onRename={handleRename}
+              onArchive={handleArchive}
+            />
+          ))
+        )}
+      </div>
+
+      <div className="p-2 border-t border-[#2a3144]/50">
+        <button
+          onClick={() => setShowArchived((prev) => !prev)}
+          className="w-full px-3 py-2 text-xs text-gray-400 hover:text-white rounded-lg hover:bg-[#1a1f2e] transition-colors text-left"
+        >
+          {showArchived ? '← Back to conversations' : 'Archived conversations'}
+        </button>
+      </div>
+    </aside>
+  );
+}
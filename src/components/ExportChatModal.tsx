@@ -0,0 +1,178 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ModuleType, MODULE_CONFIG } from '@/types';
+import { ExportFormat } from '@/lib/export';
+
+interface ExportChatModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  module: ModuleType;
+  // Conversation to export; null before the first message
+  conversationId: string | null;
+}
+
+const FORMAT_OPTIONS: Array<{ value: ExportFormat; label: string; description: string }> = [
+  { value: 'pdf', label: 'PDF', description: 'Printable transcript' },
+  { value: 'html', label: 'HTML', description: 'Single page, opens in any browser' },
+  { value: 'json', label: 'JSON', description: 'Every field, for other tools' },
+  { value: 'csv', label: 'CSV', description: 'One row per message, for spreadsheets' },
+];
+
+const inputClassName =
+  'w-full px-4 py-2 bg-[#242938] border border-[#2a3144] rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-[#4A90F5]';
+
+/**
+ * Start of a yyyy-mm-dd day in the browser's time zone, as ISO
+ */
+function startOfLocalDay(date: string, addDays = 0): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day + addDays).toISOString();
+}
+
+/**
+ * File name from a Content-Disposition header
+ */
+function filenameFromResponse(response: Response, fallback: string): string {
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const match = disposition.match(/filename="([^"]+)"/);
+  return match ? match[1] : fallback;
+}
+
+export default function ExportChatModal({ isOpen, onClose, module, conversationId }: ExportChatModalProps) {
+  const [format, setFormat] = useState<ExportFormat>('pdf');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) setError(null);
+  }, [isOpen]);
+
+  const handleExport = useCallback(async () => {
+    if (!conversationId || exporting) return;
+
+    if (from && to && from > to) {
+      setError('The start date must be before the end date');
+      return;
+    }
+
+    setExporting(true);
+    setError(null);
+
+    const params = new URLSearchParams({
+      format,
+      tz: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
+    if (from) params.set('from', startOfLocalDay(from));
+    // The "to" day is included
+    if (to) params.set('to', startOfLocalDay(to, 1));
+
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/export?${params.toString()}`);
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Export failed');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filenameFromResponse(response, `${module}-conversation.${format}`);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  }, [conversationId, exporting, format, from, to, module, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/70 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-md bg-[#0d1117] border border-[#2a3144] rounded-2xl shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-[#2a3144]">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-[#4A90F5] to-[#C74AFF] flex items-center justify-center">
+              <span className="text-xl">📄</span>
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-white">Export Conversation</h2>
+              <p className="text-sm text-gray-400">Transcript of this {MODULE_CONFIG[module].name} conversation</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-[#1a1f2e] text-gray-400 hover:text-white transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {FORMAT_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setFormat(option.value)}
+                className={`p-3 text-left rounded-xl border transition-colors ${
+                  format === option.value
+                    ? 'border-[#4A90F5] bg-[#4A90F5]/10'
+                    : 'border-[#2a3144] bg-[#1a1f2e] hover:border-[#4A90F5]/50'
+                }`}
+              >
+                <p className="text-sm font-medium text-white">{option.label}</p>
+                <p className="text-xs text-gray-400 mt-0.5">{option.description}</p>
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="block text-xs text-gray-400 mb-1">From (optional)</span>
+              <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClassName} />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-gray-400 mb-1">To (optional)</span>
+              <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClassName} />
+            </label>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+              <p className="text-red-400 text-sm">{error}</p>
+            </div>
+          )}
+
+          <button
+            onClick={handleExport}
+            disabled={!conversationId || exporting}
+            className="w-full py-2.5 bg-gradient-to-r from-[#4A90F5] to-[#C74AFF] text-white font-medium rounded-xl transition-opacity hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {exporting ? 'Exporting...' : !conversationId ? 'Nothing to export yet' : `Download ${format.toUpperCase()}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, memo } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { Job, JobState, ModuleType } from '@/types';
+
+interface JobsPanelProps {
+  userId: string;
+  module: ModuleType;
+  // Scroll the chat to the message that started a job
+  onSelect: (chatId: string) => void;
+  onClose: () => void;
+}
+
+// Job with the text of the message that started it
+type JobWithMessage = Job & { chats: { message: string } | null };
+
+// How many finished jobs the panel keeps
+const RECENT_JOBS_LIMIT = 20;
+
+const ACTIVE_STATES: JobState[] = ['queued', 'running'];
+
+const STATE_STYLES: Record<JobState, { label: string; className: string; bar: string }> = {
+  queued: { label: 'Queued', className: 'text-gray-400', bar: 'bg-gray-500' },
+  running: { label: 'Running', className: 'text-[#4A90F5]', bar: 'bg-gradient-to-r from-[#4A90F5] to-[#C74AFF]' },
+  succeeded: { label: 'Done', className: 'text-emerald-400', bar: 'bg-emerald-500' },
+  failed: { label: 'Failed', className: 'text-red-400', bar: 'bg-red-500' },
+  cancelled: { label: 'Cancelled', className: 'text-amber-400', bar: 'bg-amber-500' },
+};
+
+/**
+ * Short duration such as "42s", "3m 10s" or "1h 5m"
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// One job with its progress bar
+const JobRow = memo(({
+  job,
+  now,
+  onSelect,
+}: {
+  job: JobWithMessage;
+  now: number;
+  onSelect: (chatId: string) => void;
+}) => {
+  const style = STATE_STYLES[job.state];
+  const active = ACTIVE_STATES.includes(job.state);
+  const startedAt = job.started_at ? new Date(job.started_at).getTime() : null;
+  const endedAt = job.finished_at ? new Date(job.finished_at).getTime() : now;
+
+  return (
+    <button
+      onClick={() => onSelect(job.chat_id)}
+      className="w-full text-left p-3 bg-[#1a1f2e] hover:bg-[#242938] rounded-xl border border-[#2a3144] transition-colors"
+      title="Show message"
+    >
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className={`font-medium ${style.className}`}>{style.label}</span>
+        <span className="text-gray-500">
+          {startedAt !== null
+            ? formatDuration(endedAt - startedAt)
+            : new Date(job.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      </div>
+
+      <p className="text-sm text-white truncate mt-1">
+        {job.chats?.message || <span className="text-gray-500 italic">Attachment</span>}
+      </p>
+
+      <div className="mt-2 h-1.5 bg-[#0d1117] rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all duration-500 ${style.bar} ${job.state === 'queued' ? 'opacity-50' : ''}`}
+          style={{ width: `${job.state === 'succeeded' ? 100 : job.progress}%` }}
+        />
+      </div>
+
+      {(job.step || active) && (
+        <div className="flex items-center justify-between gap-2 mt-1 text-xs text-gray-400">
+          <span className="truncate">{job.step || (job.state === 'queued' ? 'Waiting for the workflow' : 'Working...')}</span>
+          {job.state === 'running' && <span>{job.progress}%</span>}
+        </div>
+      )}
+
+      {job.error && (
+        <p className="text-xs text-red-400 mt-1 line-clamp-2">{job.error}</p>
+      )}
+    </button>
+  );
+});
+JobRow.displayName = 'JobRow';
+
+export default function JobsPanel({ userId, module, onSelect, onClose }: JobsPanelProps) {
+  const [jobs, setJobs] = useState<JobWithMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
+  const supabase = createClient();
+
+  const fetchJobs = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('jobs')
+      .select('*, chats(message)')
+      .eq('user_id', userId)
+      .eq('module', module)
+      .order('created_at', { ascending: false })
+      .limit(RECENT_JOBS_LIMIT);
+
+    if (error) {
+      console.error('Failed to load jobs:', error);
+    } else {
+      setJobs((data || []) as JobWithMessage[]);
+    }
+    setLoading(false);
+  }, [supabase, userId, module]);
+
+  useEffect(() => {
+    fetchJobs();
+
+    const channel = supabase
+      .channel(`jobs:${userId}:${module}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'jobs',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          // Reload for the message text, which the change doesn't carry
+          if ((payload.new as Job).module === module) fetchJobs();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'jobs',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          const updated = payload.new as Job;
+          setJobs((prev) => prev.map((job) => (job.id === updated.id ? { ...job, ...updated } : job)));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, userId, module, fetchJobs]);
+
+  const activeJobs = useMemo(() => jobs.filter((job) => ACTIVE_STATES.includes(job.state)), [jobs]);
+  const recentJobs = useMemo(() => jobs.filter((job) => !ACTIVE_STATES.includes(job.state)), [jobs]);
+
+  // Tick running durations while anything is in progress
+  useEffect(() => {
+    if (activeJobs.length === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [activeJobs.length]);
+
+  return (
+    <aside className="w-80 flex-shrink-0 border-l border-[#2a3144]/50 bg-[#0d1117]/80 backdrop-blur-xl flex flex-col min-h-0">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-[#2a3144]/50">
+        <h2 className="text-sm font-semibold text-white">Jobs</h2>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-lg hover:bg-[#1a1f2e] text-gray-400 hover:text-white transition-colors"
+          title="Hide jobs"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto hide-scrollbar p-3 space-y-4">
+        {loading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="skeleton rounded-xl h-20" />
+            ))}
+          </div>
+        ) : jobs.length === 0 ? (
+          <p className="text-center text-sm text-gray-400 py-8">No jobs yet</p>
+        ) : (
+          <>
+            {activeJobs.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-xs font-medium uppercase tracking-wide text-gray-500">Running</h3>
+                {activeJobs.map((job) => (
+                  <JobRow key={job.id} job={job} now={now} onSelect={onSelect} />
+                ))}
+              </section>
+            )}
+
+            {recentJobs.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-xs font-medium uppercase tracking-wide text-gray-500">Recent</h3>
+                {recentJobs.map((job) => (
+                  <JobRow key={job.id} job={job} now={now} onSelect={onSelect} />
+                ))}
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { memo, useMemo, ReactNode } from 'react';
+import { BlockNode, InlineNode, parseMarkdown } from '@/lib/markdown';
+import MessageLink from './MessageLink';
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: 'text-lg font-semibold text-white',
+  2: 'text-base font-semibold text-white',
+  3: 'text-[15px] font-semibold text-white',
+};
+
+function renderInline(nodes: InlineNode[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return <br key={index} />;
+      case 'link':
+        return (
+          <MessageLink key={index} href={node.href} kind={node.kind}>
+            {node.text}
+          </MessageLink>
+        );
+      case 'code':
+        return (
+          <code key={index} className="px-1.5 py-0.5 rounded bg-[#0d1117] border border-[#2a3144] font-mono text-[13px] text-gray-100">
+            {node.text}
+          </code>
+        );
+      case 'strong':
+        return <strong key={index} className="font-semibold text-white">{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'del':
+        return <del key={index} className="text-gray-400">{renderInline(node.children)}</del>;
+    }
+  });
+}
+
+function renderBlocks(blocks: BlockNode[]): ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children)}</p>;
+
+      case 'heading':
+        return (
+          <p key={index} role="heading" aria-level={block.level} className={HEADING_CLASSES[block.level] || HEADING_CLASSES[3]}>
+            {renderInline(block.children)}
+          </p>
+        );
+
+      case 'code_block':
+        return (
+          <div key={index} className="rounded-lg bg-[#0d1117] border border-[#2a3144] overflow-hidden">
+            {block.language && (
+              <p className="px-3 pt-2 text-[11px] uppercase tracking-wide text-gray-500">{block.language}</p>
+            )}
+            <pre className="px-3 py-2 overflow-x-auto text-[13px] leading-snug">
+              <code className="font-mono text-gray-200">{block.text}</code>
+            </pre>
+          </div>
+        );
+
+      case 'blockquote':
+        return (
+          <blockquote key={index} className="pl-3 border-l-2 border-[#4A90F5]/60 text-gray-300 space-y-2">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => (
+          <li key={itemIndex} className="space-y-1 pl-0.5">{renderBlocks(item)}</li>
+        ));
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal pl-5 space-y-1 marker:text-gray-400">{items}</ol>
+        ) : (
+          <ul key={index} className="list-disc pl-5 space-y-1 marker:text-gray-400">{items}</ul>
+        );
+      }
+
+      case 'rule':
+        return <hr key={index} className="border-[#2a3144]" />;
+    }
+  });
+}
+
+/**
+ * Bot message text rendered as Markdown
+ * Only the parsed subset is rendered, and always as React elements
+ */
+const MarkdownContent = memo(({ text }: { text: string }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+  return <div className="space-y-2">{renderBlocks(blocks)}</div>;
+});
+MarkdownContent.displayName = 'MarkdownContent';
+
+export default MarkdownContent;
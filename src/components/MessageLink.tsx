@@ -0,0 +1,77 @@
+'use client';
+
+import { memo, ReactNode } from 'react';
+import { LinkKind } from '@/lib/url-processing';
+
+// Icon paths per link kind (24x24, stroked)
+const LINK_ICONS: Record<LinkKind, ReactNode> = {
+  drive: (
+    <>
+      <path d="M15 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7Z" />
+      <path d="M14 2v4a2 2 0 0 0 2 2h4" />
+    </>
+  ),
+  sheet: (
+    <>
+      <rect width="18" height="18" x="3" y="3" rx="2" />
+      <path d="M3 9h18M3 15h18M9 3v18" />
+    </>
+  ),
+  doc: (
+    <>
+      <path d="M15 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7Z" />
+      <path d="M14 2v4a2 2 0 0 0 2 2h4M8 13h8M8 17h5" />
+    </>
+  ),
+  slides: (
+    <>
+      <rect width="20" height="14" x="2" y="3" rx="2" />
+      <path d="M12 17v4M8 21h8" />
+    </>
+  ),
+  site: (
+    <>
+      <path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71" />
+      <path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71" />
+    </>
+  ),
+};
+
+/**
+ * Link inside a message, with an icon for what it points to
+ */
+const MessageLink = memo(({
+  href,
+  kind = 'site',
+  isUser = false,
+  children
+}: {
+  href: string;
+  kind?: LinkKind;
+  isUser?: boolean;
+  children: ReactNode;
+}) => (
+  <a
+    href={href}
+    target="_blank"
+    rel="nofollow noopener noreferrer"
+    className={`${isUser ? 'text-blue-200 hover:text-blue-100' : 'text-blue-400 hover:text-blue-300'} hover:underline transition-colors`}
+  >
+    <svg
+      className="inline-block w-3.5 h-3.5 mr-1 -mt-0.5"
+      fill="none"
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      aria-hidden="true"
+    >
+      {LINK_ICONS[kind]}
+    </svg>
+    {children}
+  </a>
+));
+MessageLink.displayName = 'MessageLink';
+
+export default MessageLink;
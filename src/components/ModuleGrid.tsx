@@ -4,6 +4,7 @@ import { useRouter } from 'next/navigation';
 import { memo, useCallback, useMemo, useEffect, useState } from 'react';
 import { ModuleType, MODULE_CONFIG } from '@/types';
 import AdminPanelModal from './AdminPanelModal';
+import SearchPalette from './SearchPalette';
 
 interface ModuleGridProps {
   allModules: ModuleType[];
@@ -142,6 +143,7 @@ function ModuleGrid({ allModules, userModules, isAdmin = false, currentUserId =
   const router = useRouter();
   const [mounted, setMounted] = useState(false);
   const [adminPanelOpen, setAdminPanelOpen] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
 
   // Trigger animation on mount
   useEffect(() => {
@@ -174,6 +176,20 @@ function ModuleGrid({ allModules, userModules, isAdmin = false, currentUserId =
 
   return (
     <>
+      {/* Search across all of the user's conversations */}
+      {userModules.length > 0 && (
+        <button
+          onClick={() => setSearchOpen(true)}
+          className="w-full flex items-center gap-3 mb-6 px-4 py-3 bg-[#1a1f2e]/50 border border-[#2a3144] hover:border-[#4A90F5]/50 rounded-xl text-left text-gray-400 transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
+          </svg>
+          <span className="flex-1 text-sm">Search your conversations...</span>
+          <kbd className="hidden sm:block text-xs text-gray-500 border border-[#2a3144] rounded px-1.5 py-0.5">Ctrl K</kbd>
+        </button>
+      )}
+
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
         {allModules.map((module, index) => {
           const config = MODULE_CONFIG[module];
@@ -200,6 +216,14 @@ function ModuleGrid({ allModules, userModules, isAdmin = false, currentUserId =
         )}
       </div>
 
+      {userModules.length > 0 && (
+        <SearchPalette
+          isOpen={searchOpen}
+          onOpenChange={setSearchOpen}
+          modules={userModules}
+        />
+      )}
+
       {/* Admin Panel Modal */}
       {isAdmin && (
         <AdminPanelModal
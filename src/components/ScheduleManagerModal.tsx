@@ -0,0 +1,489 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef, memo } from 'react';
+import { Attachment, ModuleType, ScheduledMessage, MODULE_CONFIG } from '@/types';
+import { formatFileSize, uploadAttachment, ALLOWED_MIME_TYPES, MAX_FILE_SIZE } from '@/lib/file-handling';
+
+interface ScheduleManagerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  module: ModuleType;
+  // New schedules send into this conversation
+  conversationId: string | null;
+}
+
+type ScheduleMode = 'once' | 'repeat';
+
+// Common schedules offered as shortcuts for the cron field
+const CRON_PRESETS: Array<{ label: string; cron: string }> = [
+  { label: 'Hourly', cron: '@hourly' },
+  { label: 'Daily 9:00', cron: '0 9 * * *' },
+  { label: 'Weekdays 9:00', cron: '0 9 * * 1-5' },
+  { label: 'Mondays 9:00', cron: '0 9 * * MON' },
+  { label: 'Monthly on the 1st', cron: '0 9 1 * *' },
+];
+
+const inputClassName =
+  'w-full px-4 py-2 bg-[#242938] border border-[#2a3144] rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-[#4A90F5]';
+
+// Loading spinner
+const Spinner = memo(() => (
+  <svg className="animate-spin h-5 w-5 text-white" viewBox="0 0 24 24">
+    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+  </svg>
+));
+Spinner.displayName = 'Spinner';
+
+// One scheduled message with pause/resume and delete
+const ScheduleRow = memo(({
+  schedule,
+  onToggle,
+  onDelete,
+  saving,
+}: {
+  schedule: ScheduledMessage;
+  onToggle: (schedule: ScheduledMessage) => void;
+  onDelete: (schedule: ScheduledMessage) => void;
+  saving: boolean;
+}) => {
+  const attachmentCount = schedule.attachments?.length || 0;
+
+  return (
+    <div className={`p-4 bg-[#1a1f2e] rounded-xl border border-[#2a3144] ${schedule.is_active ? '' : 'opacity-60'}`}>
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0 flex-1">
+          <p className="text-white text-sm whitespace-pre-wrap break-words line-clamp-3">
+            {schedule.message || <span className="text-gray-500 italic">No text</span>}
+          </p>
+          {attachmentCount > 0 && (
+            <p className="text-xs text-gray-500 mt-1">
+              📎 {attachmentCount} attachment{attachmentCount === 1 ? '' : 's'}
+            </p>
+          )}
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-gray-400">
+            <span>
+              {schedule.cron ? (
+                <>
+                  🔁 <code className="text-[#4A90F5]">{schedule.cron}</code> ({schedule.timezone})
+                </>
+              ) : (
+                '🕒 Once'
+              )}
+            </span>
+            {schedule.is_active ? (
+              <span>Next: {new Date(schedule.next_run_at).toLocaleString()}</span>
+            ) : (
+              <span>Paused</span>
+            )}
+            {schedule.last_run_at && (
+              <span>Last: {new Date(schedule.last_run_at).toLocaleString()}</span>
+            )}
+          </div>
+          {schedule.last_error && (
+            <p className="text-xs text-red-400 mt-1">Last run failed: {schedule.last_error}</p>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <button
+            onClick={() => onToggle(schedule)}
+            disabled={saving}
+            className="px-3 py-1.5 text-xs rounded-lg bg-[#242938] text-gray-300 hover:text-white border border-[#2a3144] transition-colors disabled:opacity-50"
+          >
+            {schedule.is_active ? 'Pause' : 'Resume'}
+          </button>
+          <button
+            onClick={() => onDelete(schedule)}
+            disabled={saving}
+            className="p-1.5 rounded-lg hover:bg-red-500/10 text-gray-400 hover:text-red-400 transition-colors disabled:opacity-50"
+            title="Delete schedule"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
+ScheduleRow.displayName = 'ScheduleRow';
+
+// Form for a new scheduled message
+const CreateScheduleForm = memo(({
+  module,
+  conversationId,
+  onCreated,
+}: {
+  module: ModuleType;
+  conversationId: string | null;
+  onCreated: (schedule: ScheduledMessage) => void;
+}) => {
+  const [message, setMessage] = useState('');
+  const [mode, setMode] = useState<ScheduleMode>('once');
+  const [runAt, setRunAt] = useState('');
+  const [cron, setCron] = useState('0 9 * * 1-5');
+  const [timezone, setTimezone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC');
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (files.length === 0) return;
+
+    setError(null);
+    setUploading(true);
+
+    for (const file of files) {
+      if (file.size > MAX_FILE_SIZE) {
+        setError(`${file.name} is larger than ${formatFileSize(MAX_FILE_SIZE)}`);
+        continue;
+      }
+
+      try {
+        const attachment = await uploadAttachment(file, module);
+        setAttachments((prev) => [...prev, attachment]);
+      } catch (uploadError) {
+        setError(uploadError instanceof Error ? uploadError.message : 'Upload failed');
+      }
+    }
+
+    setUploading(false);
+  }, [module]);
+
+  const handleSubmit = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!message.trim() && attachments.length === 0) {
+      setError('Enter a message or attach a file');
+      return;
+    }
+
+    // datetime-local is in the browser's time zone
+    const timing = mode === 'once'
+      ? { run_at: runAt ? new Date(runAt).toISOString() : null, timezone }
+      : { cron, timezone };
+
+    setSaving(true);
+
+    try {
+      const response = await fetch('/api/schedules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ module, conversation_id: conversationId, message, attachments, ...timing }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create schedule');
+      }
+
+      onCreated(data.schedule as ScheduledMessage);
+      setMessage('');
+      setRunAt('');
+      setAttachments([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create schedule');
+    } finally {
+      setSaving(false);
+    }
+  }, [module, conversationId, message, attachments, mode, runAt, cron, timezone, onCreated]);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label className="block text-sm text-gray-400 mb-1">Message</label>
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder={`Message to send to ${MODULE_CONFIG[module].name}`}
+          rows={3}
+          className={`${inputClassName} resize-none`}
+        />
+      </div>
+
+      <div>
+        <div className="flex flex-wrap items-center gap-2">
+          {attachments.map((attachment, index) => (
+            <span
+              key={attachment.url}
+              className="flex items-center gap-1 px-2 py-1 text-xs bg-[#242938] border border-[#2a3144] rounded-lg text-gray-300"
+            >
+              📎 {attachment.name}
+              <button
+                type="button"
+                onClick={() => setAttachments((prev) => prev.filter((_, idx) => idx !== index))}
+                className="text-gray-500 hover:text-red-400"
+                title="Remove attachment"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+            className="flex items-center gap-1 px-2 py-1 text-xs rounded-lg text-gray-400 hover:text-white hover:bg-[#242938] transition-colors disabled:opacity-50"
+          >
+            {uploading ? 'Uploading...' : '+ Attach files'}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            onChange={handleFileSelect}
+            accept={Object.keys(ALLOWED_MIME_TYPES).join(',')}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {(['once', 'repeat'] as ScheduleMode[]).map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setMode(value)}
+            className={`px-3 py-1.5 text-sm rounded-lg transition-all ${
+              mode === value
+                ? 'bg-[#4A90F5]/20 text-[#4A90F5] border border-[#4A90F5]/50'
+                : 'bg-[#242938] text-gray-400 border border-[#2a3144] hover:border-gray-500'
+            }`}
+          >
+            {value === 'once' ? '🕒 Once' : '🔁 Repeat'}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'once' ? (
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Send at</label>
+          <input
+            type="datetime-local"
+            value={runAt}
+            onChange={(e) => setRunAt(e.target.value)}
+            required
+            className={inputClassName}
+          />
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">
+              Cron expression <span className="text-gray-500">(minute hour day month weekday)</span>
+            </label>
+            <input
+              type="text"
+              value={cron}
+              onChange={(e) => setCron(e.target.value)}
+              placeholder="0 9 * * 1-5"
+              required
+              className={`${inputClassName} font-mono`}
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {CRON_PRESETS.map((preset) => (
+              <button
+                key={preset.cron}
+                type="button"
+                onClick={() => setCron(preset.cron)}
+                className="px-2 py-1 text-xs rounded-lg bg-[#242938] text-gray-400 border border-[#2a3144] hover:border-gray-500 hover:text-white transition-colors"
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">Time zone</label>
+            <input
+              type="text"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              placeholder="Europe/Berlin"
+              required
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={saving || uploading}
+        className="w-full py-2 bg-gradient-to-r from-[#4A90F5] to-[#C74AFF] text-white font-medium rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+      >
+        {saving ? <Spinner /> : null}
+        {saving ? 'Scheduling...' : 'Schedule Message'}
+      </button>
+    </form>
+  );
+});
+CreateScheduleForm.displayName = 'CreateScheduleForm';
+
+export default function ScheduleManagerModal({ isOpen, onClose, module, conversationId }: ScheduleManagerModalProps) {
+  const [schedules, setSchedules] = useState<ScheduledMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSchedules = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/schedules?module=${module}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load schedules');
+      }
+
+      setSchedules(data.schedules);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load schedules');
+    } finally {
+      setLoading(false);
+    }
+  }, [module]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchSchedules();
+    }
+  }, [isOpen, fetchSchedules]);
+
+  const handleCreated = useCallback((schedule: ScheduledMessage) => {
+    setSchedules((prev) =>
+      [...prev, schedule].sort((a, b) => a.next_run_at.localeCompare(b.next_run_at))
+    );
+  }, []);
+
+  const handleToggle = useCallback(async (schedule: ScheduledMessage) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/schedules/${schedule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_active: !schedule.is_active }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update schedule');
+      }
+
+      setSchedules((prev) => prev.map((s) => (s.id === schedule.id ? data.schedule : s)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update schedule');
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  const handleDelete = useCallback(async (schedule: ScheduledMessage) => {
+    if (!confirm('Delete this scheduled message?')) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/schedules/${schedule.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete schedule');
+      }
+
+      setSchedules((prev) => prev.filter((s) => s.id !== schedule.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete schedule');
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/70 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-2xl max-h-[90vh] bg-[#0d1117] border border-[#2a3144] rounded-2xl shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-[#2a3144]">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-[#4A90F5] to-[#C74AFF] flex items-center justify-center">
+              <span className="text-xl">🗓️</span>
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-white">Scheduled Messages</h2>
+              <p className="text-sm text-gray-400">Send to {MODULE_CONFIG[module].name} later or on repeat</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-[#1a1f2e] text-gray-400 hover:text-white transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 overflow-y-auto max-h-[calc(90vh-90px)] hide-scrollbar space-y-6">
+          <CreateScheduleForm module={module} conversationId={conversationId} onCreated={handleCreated} />
+
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-gray-300">Your schedules</h3>
+
+            {error && (
+              <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+                <p className="text-red-400 text-sm">{error}</p>
+              </div>
+            )}
+
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <Spinner />
+              </div>
+            ) : schedules.length === 0 ? (
+              <p className="text-center text-gray-400 py-8">No scheduled messages</p>
+            ) : (
+              schedules.map((schedule) => (
+                <ScheduleRow
+                  key={schedule.id}
+                  schedule={schedule}
+                  onToggle={handleToggle}
+                  onDelete={handleDelete}
+                  saving={saving}
+                />
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
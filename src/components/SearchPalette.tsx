@@ -0,0 +1,273 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback, memo } from 'react';
+import { useRouter } from 'next/navigation';
+import { ChatSearchResult, ModuleType, MODULE_CONFIG } from '@/types';
+import { splitHighlights } from '@/lib/search';
+
+interface SearchPaletteProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Modules offered in the filter
+  modules: ModuleType[];
+  // Filter selected when the palette opens (the current chat's module)
+  defaultModule?: ModuleType | null;
+}
+
+type SenderFilter = 'all' | 'user' | 'bot';
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 250;
+
+const selectClassName =
+  'px-2 py-1 text-xs bg-[#242938] border border-[#2a3144] rounded-lg text-gray-300 focus:outline-none focus:border-[#4A90F5]';
+
+/**
+ * Start of a yyyy-mm-dd day in the browser's time zone, as ISO
+ */
+function startOfLocalDay(date: string, addDays = 0): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day + addDays).toISOString();
+}
+
+// One search result with highlighted matches
+const SearchResultRow = memo(({
+  result,
+  active,
+  onSelect,
+  onHover,
+}: {
+  result: ChatSearchResult;
+  active: boolean;
+  onSelect: (result: ChatSearchResult) => void;
+  onHover: () => void;
+}) => {
+  const config = MODULE_CONFIG[result.module];
+  const parts = splitHighlights(result.snippet || '');
+  const attachmentNames = (result.attachments || []).map((a) => a.name).join(', ');
+
+  return (
+    <button
+      onClick={() => onSelect(result)}
+      onMouseMove={onHover}
+      className={`w-full text-left px-4 py-3 rounded-xl transition-colors ${active ? 'bg-[#242938]' : 'hover:bg-[#1a1f2e]'}`}
+    >
+      <div className="flex items-center gap-2 text-xs text-gray-400">
+        <span>{config.icon} {config.name}</span>
+        <span>·</span>
+        <span>{result.sender === 'user' ? 'You' : 'Bot'}</span>
+        <span className="ml-auto">
+          {new Date(result.created_at).toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' })}
+        </span>
+      </div>
+      <p className="text-sm text-gray-200 mt-1 line-clamp-2 break-words">
+        {parts.length > 0 ? parts.map((part, index) => (
+          part.highlighted ? (
+            <mark key={index} className="bg-[#4A90F5]/30 text-white rounded px-0.5">{part.text}</mark>
+          ) : (
+            <span key={index}>{part.text}</span>
+          )
+        )) : (
+          <span className="text-gray-500 italic">No text</span>
+        )}
+      </p>
+      {attachmentNames && (
+        <p className="text-xs text-gray-500 mt-1 truncate">📎 {attachmentNames}</p>
+      )}
+    </button>
+  );
+});
+SearchResultRow.displayName = 'SearchResultRow';
+
+export default function SearchPalette({ isOpen, onOpenChange, modules, defaultModule = null }: SearchPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [moduleFilter, setModuleFilter] = useState<ModuleType | 'all'>(defaultModule || 'all');
+  const [sender, setSender] = useState<SenderFilter>('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [results, setResults] = useState<ChatSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const router = useRouter();
+
+  // Ctrl+K / Cmd+K opens search from anywhere on the page
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        onOpenChange(true);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onOpenChange]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setModuleFilter(defaultModule || 'all');
+      setTimeout(() => inputRef.current?.focus(), 0);
+    }
+  }, [isOpen, defaultModule]);
+
+  // Search as the user types; a newer search cancels the one in flight
+  useEffect(() => {
+    if (!isOpen) return;
+
+    if (!query.trim()) {
+      setResults([]);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+
+    const timeout = setTimeout(async () => {
+      const params = new URLSearchParams({ q: query.trim() });
+      if (moduleFilter !== 'all') params.set('module', moduleFilter);
+      if (sender !== 'all') params.set('sender', sender);
+      if (from) params.set('from', startOfLocalDay(from));
+      // The "to" day is included
+      if (to) params.set('to', startOfLocalDay(to, 1));
+
+      try {
+        const response = await fetch(`/api/chat/search?${params.toString()}`, { signal: controller.signal });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Search failed');
+        }
+
+        setResults(data.results);
+        setActiveIndex(0);
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Search failed');
+        setResults([]);
+      }
+      setLoading(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [isOpen, query, moduleFilter, sender, from, to]);
+
+  const handleSelect = useCallback((result: ChatSearchResult) => {
+    onOpenChange(false);
+    router.push(`/chat/${result.module}?conversation=${result.conversation_id}&message=${result.id}`);
+  }, [onOpenChange, router]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((prev) => Math.min(prev + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((prev) => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      handleSelect(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      onOpenChange(false);
+    }
+  }, [results, activeIndex, handleSelect, onOpenChange]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[10vh]">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/70 backdrop-blur-sm"
+        onClick={() => onOpenChange(false)}
+      />
+
+      {/* Palette */}
+      <div
+        className="relative w-full max-w-2xl bg-[#0d1117] border border-[#2a3144] rounded-2xl shadow-2xl overflow-hidden"
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center gap-3 px-4 border-b border-[#2a3144]">
+          <svg className="w-5 h-5 text-gray-400 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
+          </svg>
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search your conversations..."
+            maxLength={200}
+            className="flex-1 py-4 bg-transparent text-white placeholder-gray-500 focus:outline-none"
+          />
+          {loading && (
+            <svg className="w-4 h-4 animate-spin text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+            </svg>
+          )}
+          <kbd className="hidden sm:block text-xs text-gray-500 border border-[#2a3144] rounded px-1.5 py-0.5">Esc</kbd>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-[#2a3144]">
+          <select
+            value={moduleFilter}
+            onChange={(e) => setModuleFilter(e.target.value as ModuleType | 'all')}
+            className={selectClassName}
+          >
+            <option value="all">All modules</option>
+            {modules.map((module) => (
+              <option key={module} value={module}>{MODULE_CONFIG[module].name}</option>
+            ))}
+          </select>
+          <select
+            value={sender}
+            onChange={(e) => setSender(e.target.value as SenderFilter)}
+            className={selectClassName}
+          >
+            <option value="all">Anyone</option>
+            <option value="user">You</option>
+            <option value="bot">Bot</option>
+          </select>
+          <label className="flex items-center gap-1 text-xs text-gray-400">
+            From
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={selectClassName} />
+          </label>
+          <label className="flex items-center gap-1 text-xs text-gray-400">
+            To
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={selectClassName} />
+          </label>
+        </div>
+
+        {/* Results */}
+        <div className="max-h-[50vh] overflow-y-auto hide-scrollbar p-2">
+          {error ? (
+            <p className="text-center text-sm text-red-400 py-6">{error}</p>
+          ) : !query.trim() ? (
+            <p className="text-center text-sm text-gray-500 py-6">Search messages and file names</p>
+          ) : results.length === 0 && !loading ? (
+            <p className="text-center text-sm text-gray-500 py-6">No messages found</p>
+          ) : (
+            results.map((result, index) => (
+              <SearchResultRow
+                key={result.id}
+                result={result}
+                active={index === activeIndex}
+                onSelect={handleSelect}
+                onHover={() => setActiveIndex(index)}
+              />
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
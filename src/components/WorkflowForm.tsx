@@ -0,0 +1,250 @@
+'use client';
+
+import { memo, useState, useCallback, useId } from 'react';
+import { FormField, FormSchema, FormValues } from '@/types';
+import { validateFieldValue, validateFormValues } from '@/lib/forms';
+
+interface WorkflowFormProps {
+  schema: FormSchema;
+  // Values already submitted; the form is read-only once set
+  submitted: FormValues | null;
+  onSubmit?: (values: FormValues) => void;
+}
+
+type DraftValue = string | boolean;
+
+const inputClassName = `
+  w-full px-3 py-2 text-sm bg-[#242938] border rounded-lg text-white placeholder-gray-500
+  focus:outline-none focus:ring-2 focus:ring-[#4A90F5]/50 focus:border-[#4A90F5]
+  disabled:opacity-60 disabled:cursor-not-allowed transition-all
+`;
+
+/**
+ * Initial input state for a field, from submitted values or the schema default
+ */
+function initialDraft(field: FormField, submitted: FormValues | null): DraftValue {
+  const value = submitted ? submitted[field.name] : field.default;
+
+  if (field.type === 'checkbox') {
+    return value === true;
+  }
+  return value === undefined || value === null ? '' : String(value);
+}
+
+/**
+ * Single form control
+ */
+const FormControl = memo(({
+  idPrefix,
+  field,
+  value,
+  error,
+  disabled,
+  onChange
+}: {
+  idPrefix: string;
+  field: FormField;
+  value: DraftValue;
+  error?: string;
+  disabled: boolean;
+  onChange: (name: string, value: DraftValue) => void;
+}) => {
+  const id = `${idPrefix}-${field.name}`;
+  const borderClass = error ? 'border-red-500/60' : 'border-[#2a3144]';
+
+  if (field.type === 'checkbox') {
+    return (
+      <div>
+        <label htmlFor={id} className="flex items-center gap-2 cursor-pointer">
+          <input
+            id={id}
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => onChange(field.name, e.target.checked)}
+            disabled={disabled}
+            className="w-4 h-4 rounded border-[#2a3144] bg-[#242938] text-[#4A90F5] focus:ring-[#4A90F5]/50 disabled:opacity-60"
+          />
+          <span className="text-sm text-gray-200">
+            {field.label}
+            {field.required && <span className="text-red-400 ml-0.5">*</span>}
+          </span>
+        </label>
+        {field.help && <p className="text-xs text-gray-500 mt-1">{field.help}</p>}
+        {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+      </div>
+    );
+  }
+
+  const common = {
+    id,
+    disabled,
+    placeholder: field.placeholder,
+    className: `${inputClassName} ${borderClass}`,
+  };
+
+  let control;
+  switch (field.type) {
+    case 'textarea':
+      control = (
+        <textarea
+          {...common}
+          rows={3}
+          value={value as string}
+          maxLength={field.max_length}
+          onChange={(e) => onChange(field.name, e.target.value)}
+          className={`${common.className} resize-none`}
+        />
+      );
+      break;
+
+    case 'select':
+      control = (
+        <select
+          {...common}
+          value={value as string}
+          onChange={(e) => onChange(field.name, e.target.value)}
+        >
+          <option value="">{field.placeholder || 'Select…'}</option>
+          {field.options?.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      );
+      break;
+
+    case 'number':
+      control = (
+        <input
+          {...common}
+          type="number"
+          step="any"
+          value={value as string}
+          min={typeof field.min === 'number' ? field.min : undefined}
+          max={typeof field.max === 'number' ? field.max : undefined}
+          onChange={(e) => onChange(field.name, e.target.value)}
+        />
+      );
+      break;
+
+    case 'date':
+      control = (
+        <input
+          {...common}
+          type="date"
+          value={value as string}
+          min={typeof field.min === 'string' ? field.min : undefined}
+          max={typeof field.max === 'string' ? field.max : undefined}
+          onChange={(e) => onChange(field.name, e.target.value)}
+          className={`${common.className} [color-scheme:dark]`}
+        />
+      );
+      break;
+
+    default:
+      control = (
+        <input
+          {...common}
+          type={field.type === 'email' ? 'email' : 'text'}
+          value={value as string}
+          maxLength={field.max_length}
+          onChange={(e) => onChange(field.name, e.target.value)}
+        />
+      );
+  }
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-xs text-gray-400 mb-1">
+        {field.label}
+        {field.required && <span className="text-red-400 ml-0.5">*</span>}
+      </label>
+      {control}
+      {field.help && <p className="text-xs text-gray-500 mt-1">{field.help}</p>}
+      {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+    </div>
+  );
+});
+FormControl.displayName = 'FormControl';
+
+/**
+ * Form requested by a workflow, rendered inside a bot message
+ */
+const WorkflowForm = memo(({ schema, submitted, onSubmit }: WorkflowFormProps) => {
+  const [draft, setDraft] = useState<Record<string, DraftValue>>(() =>
+    Object.fromEntries(schema.fields.map((field) => [field.name, initialDraft(field, submitted)]))
+  );
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const idPrefix = useId();
+
+  const isSubmitted = submitted !== null;
+  const disabled = isSubmitted || !onSubmit;
+
+  const handleChange = useCallback((name: string, value: DraftValue) => {
+    setDraft((prev) => ({ ...prev, [name]: value }));
+    // Re-check a field that was showing an error as the user fixes it
+    setErrors((prev) => {
+      if (!(name in prev)) return prev;
+      const field = schema.fields.find((f) => f.name === name);
+      const result = field ? validateFieldValue(field, value) : null;
+      const next = { ...prev };
+      if (result && 'error' in result) {
+        next[name] = result.error;
+      } else {
+        delete next[name];
+      }
+      return next;
+    });
+  }, [schema]);
+
+  const handleSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    if (disabled) return;
+
+    const result = validateFormValues(schema, draft);
+    if (!result.valid) {
+      setErrors(result.errors);
+      return;
+    }
+
+    setErrors({});
+    onSubmit?.(result.values);
+  }, [disabled, schema, draft, onSubmit]);
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 p-3 rounded-xl bg-[#0d1117]/60 border border-[#2a3144] space-y-3" noValidate>
+      {schema.title && <p className="text-sm font-medium text-white">{schema.title}</p>}
+
+      {schema.fields.map((field) => (
+        <FormControl
+          key={field.name}
+          idPrefix={idPrefix}
+          field={field}
+          value={isSubmitted ? initialDraft(field, submitted) : draft[field.name]}
+          error={errors[field.name]}
+          disabled={disabled}
+          onChange={handleChange}
+        />
+      ))}
+
+      {isSubmitted ? (
+        <p className="flex items-center gap-1.5 text-xs text-emerald-400">
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2.5}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+          </svg>
+          Submitted
+        </p>
+      ) : (
+        <button
+          type="submit"
+          disabled={disabled}
+          className="px-4 py-2 text-sm bg-gradient-to-r from-[#4A90F5] to-[#C74AFF] text-white rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {schema.submit_label || 'Submit'}
+        </button>
+      )}
+    </form>
+  );
+});
+WorkflowForm.displayName = 'WorkflowForm';
+
+export default WorkflowForm;
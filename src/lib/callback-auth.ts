@@ -0,0 +1,183 @@
+/**
+ * Callback Authentication Module
+ * Verifies signed, replay-protected requests from n8n with rotating secrets
+ */
+
+import { timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  computeSignature,
+  SIGNATURE_HEADER,
+  SIGNATURE_TIMESTAMP_HEADER,
+} from '@/lib/webhook-signing';
+
+// Requests signed further than this from server time are rejected as stale
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Active secrets are cached briefly so chunked callbacks don't hit the database each time
+const SECRET_CACHE_TTL_MS = 30 * 1000;
+
+export type CallbackAuthResult =
+  | { ok: true; rawBody: string }
+  // replayedBody is set when a valid signature was already used, so a retry can be answered idempotently
+  | { ok: false; status: number; error: string; replayedBody?: string };
+
+let secretCache: { secrets: string[]; expiresAt: number } | null = null;
+
+/**
+ * Constant-time string comparison
+ */
+export function safeCompare(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+
+  if (bufA.length !== bufB.length) {
+    // Compare against itself so the timing doesn't reveal the length mismatch early
+    timingSafeEqual(bufA, bufA);
+    return false;
+  }
+
+  return timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Drop cached secrets after a key is added or revoked
+ */
+export function invalidateCallbackSecretCache(): void {
+  secretCache = null;
+}
+
+/**
+ * Load every secret currently accepted for callbacks
+ * N8N_CALLBACK_SECRET stays valid alongside database keys to bootstrap rotation
+ */
+export async function getActiveCallbackSecrets(supabase: SupabaseClient): Promise<string[]> {
+  if (secretCache && secretCache.expiresAt > Date.now()) {
+    return secretCache.secrets;
+  }
+
+  const { data, error } = await supabase
+    .from('callback_secrets')
+    .select('secret')
+    .eq('is_active', true);
+
+  if (error) {
+    console.error('[Callback Auth] Failed to load callback secrets:', error);
+  }
+
+  const secrets = (data || []).map((row) => row.secret as string);
+  if (process.env.N8N_CALLBACK_SECRET) {
+    secrets.push(process.env.N8N_CALLBACK_SECRET);
+  }
+
+  // Don't cache a failed lookup, the next request should retry
+  if (!error) {
+    secretCache = { secrets, expiresAt: Date.now() + SECRET_CACHE_TTL_MS };
+  }
+
+  return secrets;
+}
+
+/**
+ * Bare lowercase hex digest of a signature header, with or without "sha256="
+ */
+function normalizeSignature(signature: string): string {
+  const digest = signature.startsWith('sha256=') ? signature.slice('sha256='.length) : signature;
+  return digest.toLowerCase();
+}
+
+/**
+ * Check a signature against every active secret
+ */
+export function verifySignature(
+  secrets: string[],
+  timestamp: string,
+  body: string,
+  signature: string
+): boolean {
+  const provided = normalizeSignature(signature);
+
+  // Check every secret so timing doesn't reveal which one matched
+  let valid = false;
+  for (const secret of secrets) {
+    if (safeCompare(computeSignature(secret, timestamp, body), provided)) {
+      valid = true;
+    }
+  }
+
+  return valid;
+}
+
+/**
+ * Record a signature as used; returns false if it was seen before
+ * Stored normalised, so toggling the "sha256=" prefix or hex case is still a replay
+ */
+async function recordSignature(supabase: SupabaseClient, signature: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('callback_signatures_seen')
+    .insert({ signature: normalizeSignature(signature) });
+
+  if (error) {
+    if (error.code === '23505') {
+      return false;
+    }
+    // Fail closed: without the replay guard we can't tell a replay apart
+    throw new Error(`Failed to record callback signature: ${error.message}`);
+  }
+
+  // Signatures older than the tolerance window can no longer be replayed
+  const cutoff = new Date(Date.now() - 2 * SIGNATURE_TOLERANCE_SECONDS * 1000).toISOString();
+  await supabase.from('callback_signatures_seen').delete().lt('received_at', cutoff);
+
+  return true;
+}
+
+/**
+ * Authenticate an incoming n8n callback and return its raw body
+ */
+export async function authenticateCallback(
+  request: Request,
+  supabase: SupabaseClient
+): Promise<CallbackAuthResult> {
+  const rawBody = await request.text();
+  const timestamp = request.headers.get(SIGNATURE_TIMESTAMP_HEADER);
+  const signature = request.headers.get(SIGNATURE_HEADER);
+  const secrets = await getActiveCallbackSecrets(supabase);
+
+  if (secrets.length === 0) {
+    console.error('[Callback Auth] No callback secrets configured');
+    return { ok: false, status: 401, error: 'Unauthorized' };
+  }
+
+  if (!timestamp || !signature) {
+    // Plain shared-secret header, kept only while workflows migrate to signatures
+    const legacySecret = request.headers.get('x-n8n-secret');
+    if (
+      process.env.N8N_CALLBACK_ALLOW_LEGACY_SECRET === 'true' &&
+      legacySecret &&
+      secrets.some((secret) => safeCompare(secret, legacySecret))
+    ) {
+      console.warn('[Callback Auth] Accepted legacy x-n8n-secret header');
+      return { ok: true, rawBody };
+    }
+
+    return { ok: false, status: 401, error: 'Missing signature' };
+  }
+
+  const signedAt = Number(timestamp);
+  const now = Math.floor(Date.now() / 1000);
+
+  if (!Number.isFinite(signedAt) || Math.abs(now - signedAt) > SIGNATURE_TOLERANCE_SECONDS) {
+    return { ok: false, status: 401, error: 'Stale or invalid signature timestamp' };
+  }
+
+  if (!verifySignature(secrets, timestamp, rawBody, signature)) {
+    return { ok: false, status: 401, error: 'Invalid signature' };
+  }
+
+  if (!(await recordSignature(supabase, signature))) {
+    return { ok: false, status: 409, error: 'Replayed request', replayedBody: rawBody };
+  }
+
+  return { ok: true, rawBody };
+}
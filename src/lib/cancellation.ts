@@ -0,0 +1,47 @@
+/**
+ * Cancellation Module
+ * Users can cancel a message the workflow hasn't answered yet. The module's
+ * cancel webhook is told through the outbox, and replies that still arrive
+ * for the message are stored as suppressed instead of shown.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Chat, ChatStatus } from '@/types';
+
+// Statuses of a message the workflow may still be working on
+export const CANCELLABLE_STATUSES: ChatStatus[] = ['queued', 'dispatched', 'acknowledged'];
+
+/**
+ * Whether a message can be cancelled
+ */
+export function isCancellable(chat: Chat): boolean {
+  return (
+    chat.sender === 'user' &&
+    !chat.id.startsWith('optimistic-') &&
+    !!chat.status &&
+    CANCELLABLE_STATUSES.includes(chat.status)
+  );
+}
+
+/**
+ * Stop dispatches of the message that haven't reached the webhook yet
+ * Entries already being delivered are left to finish
+ */
+export async function abandonPendingDispatches(
+  supabase: SupabaseClient,
+  chatId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('webhook_outbox')
+    .update({
+      status: 'failed',
+      last_error: 'Cancelled by user',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('chat_id', chatId)
+    .eq('status', 'pending');
+
+  if (error) {
+    console.error(`[Cancellation] Failed to abandon dispatches for ${chatId}:`, error);
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Chat Activity Module
+ * Transient "workflow is working" progress for user messages
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ModuleType } from '@/types';
+import { updateChatStatus } from '@/lib/chat-status';
+
+// Keeps labels short enough for the typing indicator
+export const MAX_ACTIVITY_STATE_LENGTH = 100;
+
+/**
+ * Record the workflow's current progress on a user message
+ * Returns false if the message doesn't belong to the user
+ */
+export async function setChatActivity(
+  supabase: SupabaseClient,
+  activity: {
+    chatId: string;
+    userId: string;
+    module: ModuleType;
+    state: string;
+    step?: number | null;
+    totalSteps?: number | null;
+  }
+): Promise<boolean> {
+  const { chatId, userId, module, state } = activity;
+
+  const { data: original } = await supabase
+    .from('chats')
+    .select('id, status')
+    .eq('id', chatId)
+    .eq('user_id', userId)
+    .eq('sender', 'user')
+    .maybeSingle();
+
+  if (!original) {
+    return false;
+  }
+
+  // The user cancelled the job; its progress is no longer shown
+  if (original.status === 'cancelled') {
+    return true;
+  }
+
+  const { error } = await supabase
+    .from('chat_activity')
+    .upsert({
+      chat_id: chatId,
+      user_id: userId,
+      module,
+      state,
+      step: activity.step ?? null,
+      total_steps: activity.totalSteps ?? null,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    throw new Error(`Failed to record activity for ${chatId}: ${error.message}`);
+  }
+
+  // Any sign of life means the workflow has the message
+  await updateChatStatus(supabase, chatId, 'acknowledged', userId);
+
+  return true;
+}
+
+/**
+ * Remove progress once the reply has landed
+ */
+export async function clearChatActivity(
+  supabase: SupabaseClient,
+  chatId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('chat_activity')
+    .delete()
+    .eq('chat_id', chatId);
+
+  if (error) {
+    console.error(`[Chat Activity] Failed to clear activity for ${chatId}:`, error);
+  }
+}
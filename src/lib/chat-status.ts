@@ -0,0 +1,66 @@
+/**
+ * Chat Status Module
+ * Delivery lifecycle of user messages: queued → dispatched → acknowledged → answered
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ChatStatus } from '@/types';
+import { syncJobWithStatus } from '@/lib/jobs';
+
+// States a message may move out of into each target state.
+// Keeps late or out-of-order updates from moving a message backwards.
+const ALLOWED_PREVIOUS: Record<ChatStatus, ChatStatus[]> = {
+  queued: [],
+  dispatched: ['queued'],
+  acknowledged: ['queued', 'dispatched'],
+  answered: ['queued', 'dispatched', 'acknowledged', 'failed'],
+  failed: ['queued', 'dispatched', 'acknowledged'],
+  // Final: nothing moves a cancelled message on
+  cancelled: ['queued', 'dispatched', 'acknowledged'],
+};
+
+export const CHAT_STATUSES = Object.keys(ALLOWED_PREVIOUS) as ChatStatus[];
+
+/**
+ * Check if a value is a known chat status
+ */
+export function isChatStatus(value: unknown): value is ChatStatus {
+  return typeof value === 'string' && CHAT_STATUSES.includes(value as ChatStatus);
+}
+
+/**
+ * Move a user message to a new status if the transition is allowed
+ * Returns true if the row was updated
+ */
+export async function updateChatStatus(
+  supabase: SupabaseClient,
+  chatId: string,
+  status: ChatStatus,
+  userId?: string
+): Promise<boolean> {
+  let query = supabase
+    .from('chats')
+    .update({ status })
+    .eq('id', chatId)
+    .eq('sender', 'user')
+    .in('status', ALLOWED_PREVIOUS[status]);
+
+  if (userId) {
+    query = query.eq('user_id', userId);
+  }
+
+  const { data, error } = await query.select('id');
+
+  if (error) {
+    console.error(`[Chat Status] Failed to set ${chatId} to ${status}:`, error);
+    return false;
+  }
+
+  const updated = (data?.length || 0) > 0;
+
+  if (updated) {
+    await syncJobWithStatus(supabase, chatId, status);
+  }
+
+  return updated;
+}
@@ -0,0 +1,217 @@
+/**
+ * Content Blocks Module
+ * Validates structured callback content (tables, key-value lists, callouts, files)
+ * and converts tables to CSV. Used by the callback route and the chat UI.
+ */
+
+import {
+  CalloutBlock,
+  CalloutVariant,
+  ContentBlock,
+  FileListBlock,
+  KeyValueBlock,
+  TableBlock,
+  TableCell,
+} from '@/types';
+
+export const MAX_BLOCKS = 20;
+export const MAX_TABLE_COLUMNS = 50;
+export const MAX_TABLE_ROWS = 1000;
+export const MAX_LIST_ITEMS = 200;
+const MAX_CELL_LENGTH = 1000;
+const MAX_TEXT_LENGTH = 5000;
+const MAX_TITLE_LENGTH = 200;
+
+const CALLOUT_VARIANTS: CalloutVariant[] = ['info', 'success', 'warning', 'error'];
+
+type Result<T> = { valid: true; value: T } | { valid: false; error: string };
+
+function isShortString(value: unknown, maxLength: number): value is string {
+  return typeof value === 'string' && value.length <= maxLength;
+}
+
+function validateTitle(raw: Record<string, unknown>, path: string): Result<string | undefined> {
+  if (raw.title === undefined) return { valid: true, value: undefined };
+  if (!isShortString(raw.title, MAX_TITLE_LENGTH)) {
+    return { valid: false, error: `${path}.title must be at most ${MAX_TITLE_LENGTH} characters` };
+  }
+  return { valid: true, value: raw.title };
+}
+
+function isCell(value: unknown): value is TableCell {
+  return value === null
+    || typeof value === 'boolean'
+    || (typeof value === 'number' && Number.isFinite(value))
+    || isShortString(value, MAX_CELL_LENGTH);
+}
+
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+function validateTable(raw: Record<string, unknown>, path: string): Result<TableBlock> {
+  const { columns, rows } = raw;
+
+  if (!Array.isArray(columns) || columns.length === 0 || columns.length > MAX_TABLE_COLUMNS
+    || !columns.every(c => isShortString(c, MAX_TITLE_LENGTH))) {
+    return { valid: false, error: `${path}.columns must list 1-${MAX_TABLE_COLUMNS} column names` };
+  }
+
+  if (!Array.isArray(rows) || rows.length > MAX_TABLE_ROWS) {
+    return { valid: false, error: `${path}.rows must be an array of at most ${MAX_TABLE_ROWS} rows` };
+  }
+
+  for (let index = 0; index < rows.length; index++) {
+    const row = rows[index];
+    if (!Array.isArray(row) || row.length !== columns.length) {
+      return { valid: false, error: `${path}.rows[${index}] must have ${columns.length} cells` };
+    }
+    if (!row.every(isCell)) {
+      return { valid: false, error: `${path}.rows[${index}] cells must be strings, numbers, booleans or null` };
+    }
+  }
+
+  return { valid: true, value: { type: 'table', columns, rows } };
+}
+
+function validateKeyValue(raw: Record<string, unknown>, path: string): Result<KeyValueBlock> {
+  const { items } = raw;
+
+  if (!Array.isArray(items) || items.length === 0 || items.length > MAX_LIST_ITEMS) {
+    return { valid: false, error: `${path}.items must list 1-${MAX_LIST_ITEMS} items` };
+  }
+
+  const validated: KeyValueBlock['items'] = [];
+  for (let index = 0; index < items.length; index++) {
+    const { label, value } = (items[index] || {}) as Record<string, unknown>;
+    if (!isShortString(label, MAX_TITLE_LENGTH) || !label) {
+      return { valid: false, error: `${path}.items[${index}].label is required` };
+    }
+    // Numbers and booleans are accepted and shown as text
+    if (!isCell(value)) {
+      return { valid: false, error: `${path}.items[${index}].value must be a string, number or boolean` };
+    }
+    validated.push({ label, value: value === null ? '' : String(value) });
+  }
+
+  return { valid: true, value: { type: 'key_value', items: validated } };
+}
+
+function validateCallout(raw: Record<string, unknown>, path: string): Result<CalloutBlock> {
+  const variant = raw.variant ?? 'info';
+
+  if (!CALLOUT_VARIANTS.includes(variant as CalloutVariant)) {
+    return { valid: false, error: `${path}.variant must be one of ${CALLOUT_VARIANTS.join(', ')}` };
+  }
+
+  if (!isShortString(raw.text, MAX_TEXT_LENGTH) || !raw.text) {
+    return { valid: false, error: `${path}.text must be 1-${MAX_TEXT_LENGTH} characters` };
+  }
+
+  return { valid: true, value: { type: 'callout', variant: variant as CalloutVariant, text: raw.text } };
+}
+
+function validateFileList(raw: Record<string, unknown>, path: string): Result<FileListBlock> {
+  const { files } = raw;
+
+  if (!Array.isArray(files) || files.length === 0 || files.length > MAX_LIST_ITEMS) {
+    return { valid: false, error: `${path}.files must list 1-${MAX_LIST_ITEMS} files` };
+  }
+
+  const validated: FileListBlock['files'] = [];
+  for (let index = 0; index < files.length; index++) {
+    const { name, url, type, size } = (files[index] || {}) as Record<string, unknown>;
+    if (!isShortString(name, 255) || !name) {
+      return { valid: false, error: `${path}.files[${index}].name is required` };
+    }
+    if (!isHttpUrl(url)) {
+      return { valid: false, error: `${path}.files[${index}].url must be an http(s) URL` };
+    }
+    if (type !== undefined && !isShortString(type, 255)) {
+      return { valid: false, error: `${path}.files[${index}].type must be a MIME type` };
+    }
+    if (size !== undefined && (!Number.isInteger(size) || (size as number) < 0)) {
+      return { valid: false, error: `${path}.files[${index}].size must be a byte count` };
+    }
+    validated.push({
+      name,
+      url,
+      ...(type ? { type: type as string } : {}),
+      ...(size !== undefined ? { size: size as number } : {}),
+    });
+  }
+
+  return { valid: true, value: { type: 'file_list', files: validated } };
+}
+
+/**
+ * Validate the blocks array from a callback payload
+ * Unknown properties are dropped so only known fields are stored
+ */
+export function validateContentBlocks(raw: unknown): Result<ContentBlock[]> {
+  if (!Array.isArray(raw)) {
+    return { valid: false, error: 'blocks must be an array' };
+  }
+
+  if (raw.length > MAX_BLOCKS) {
+    return { valid: false, error: `At most ${MAX_BLOCKS} blocks are allowed` };
+  }
+
+  const blocks: ContentBlock[] = [];
+
+  for (let index = 0; index < raw.length; index++) {
+    const path = `blocks[${index}]`;
+    const block = (raw[index] || {}) as Record<string, unknown>;
+
+    const title = validateTitle(block, path);
+    if (!title.valid) return title;
+
+    let result: Result<ContentBlock>;
+    switch (block.type) {
+      case 'table':
+        result = validateTable(block, path);
+        break;
+      case 'key_value':
+        result = validateKeyValue(block, path);
+        break;
+      case 'callout':
+        result = validateCallout(block, path);
+        break;
+      case 'file_list':
+        result = validateFileList(block, path);
+        break;
+      default:
+        return { valid: false, error: `${path}.type must be one of table, key_value, callout, file_list` };
+    }
+
+    if (!result.valid) return result;
+    blocks.push(title.value ? { ...result.value, title: title.value } : result.value);
+  }
+
+  return { valid: true, value: blocks };
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break
+ */
+function escapeCsvField(value: TableCell): string {
+  if (value === null) return '';
+  const text = String(value);
+  // Leading =, +, -, @ would be evaluated as formulas by spreadsheet apps
+  const safe = /^[=+\-@]/.test(text) && typeof value === 'string' ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Convert a table block to RFC 4180 CSV
+ */
+export function tableToCsv(block: TableBlock): string {
+  const lines = [block.columns, ...block.rows].map(row => row.map(escapeCsvField).join(','));
+  return lines.join('\r\n');
+}
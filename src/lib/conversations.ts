@@ -0,0 +1,212 @@
+/**
+ * Conversations Module
+ * Named threads within a module. Every message belongs to one; sends without
+ * a conversation go to the user's most recent open one in the module.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Conversation, ModuleType } from '@/types';
+
+export const MAX_CONVERSATION_TITLE_LENGTH = 100;
+
+// Untitled conversations are named after their first message, cut to this length
+const AUTO_TITLE_LENGTH = 60;
+
+export type ConversationResult =
+  | { ok: true; conversation: Conversation }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Validate a title from a request: trimmed, or null to clear it
+ */
+export function validateConversationTitle(
+  title: unknown
+): { valid: true; value: string | null } | { valid: false; error: string } {
+  if (title === null) {
+    return { valid: true, value: null };
+  }
+
+  if (typeof title !== 'string') {
+    return { valid: false, error: 'title must be a string' };
+  }
+
+  const value = title.trim();
+  if (value.length > MAX_CONVERSATION_TITLE_LENGTH) {
+    return { valid: false, error: `title must be at most ${MAX_CONVERSATION_TITLE_LENGTH} characters` };
+  }
+
+  return { valid: true, value: value || null };
+}
+
+/**
+ * Load one of the user's conversations in a module
+ */
+export async function getConversation(
+  supabase: SupabaseClient,
+  options: { conversationId: unknown; userId: string; module: ModuleType }
+): Promise<ConversationResult> {
+  const { conversationId, userId, module } = options;
+
+  if (typeof conversationId !== 'string' || !conversationId) {
+    return { ok: false, status: 400, error: 'Invalid conversation_id' };
+  }
+
+  const { data } = await supabase
+    .from('conversations')
+    .select('*')
+    .eq('id', conversationId)
+    .eq('user_id', userId)
+    .eq('module', module)
+    .maybeSingle();
+
+  if (!data) {
+    return { ok: false, status: 404, error: 'Conversation not found' };
+  }
+
+  return { ok: true, conversation: data as Conversation };
+}
+
+/**
+ * The user's most recently active open conversation in a module, or null
+ */
+export async function findLatestConversation(
+  supabase: SupabaseClient,
+  options: { userId: string; module: ModuleType }
+): Promise<Conversation | null> {
+  const { data } = await supabase
+    .from('conversations')
+    .select('*')
+    .eq('user_id', options.userId)
+    .eq('module', options.module)
+    .is('archived_at', null)
+    .order('last_message_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return (data as Conversation | null) || null;
+}
+
+/**
+ * The user's most recently active open conversation in a module, started if there is none
+ */
+export async function getDefaultConversation(
+  supabase: SupabaseClient,
+  options: { userId: string; module: ModuleType }
+): Promise<ConversationResult> {
+  const { userId, module } = options;
+
+  const latest = await findLatestConversation(supabase, { userId, module });
+  if (latest) {
+    return { ok: true, conversation: latest };
+  }
+
+  const { data: created, error } = await supabase
+    .from('conversations')
+    .insert({ user_id: userId, module, is_default: true })
+    .select()
+    .single();
+
+  // Another first message started it at the same time; use that one
+  if (error?.code === '23505') {
+    const existing = await findLatestConversation(supabase, { userId, module });
+    if (existing) {
+      return { ok: true, conversation: existing };
+    }
+  }
+
+  if (error) {
+    console.error(`[Conversations] Failed to start a conversation in ${module} for ${userId}:`, error);
+    return { ok: false, status: 500, error: 'Failed to start conversation' };
+  }
+
+  return { ok: true, conversation: created as Conversation };
+}
+
+/**
+ * Conversation for a user message: the one requested, which must still be open,
+ * or the default one
+ */
+export async function resolveSendConversation(
+  supabase: SupabaseClient,
+  options: { conversationId?: unknown; userId: string; module: ModuleType }
+): Promise<ConversationResult> {
+  if (options.conversationId === undefined || options.conversationId === null) {
+    return getDefaultConversation(supabase, options);
+  }
+
+  const { conversationId, userId, module } = options;
+  const result = await getConversation(supabase, { conversationId, userId, module });
+
+  if (result.ok && result.conversation.archived_at) {
+    return { ok: false, status: 409, error: 'Conversation is archived' };
+  }
+
+  return result;
+}
+
+/**
+ * Conversation for a bot reply: the triggering message's, or the one n8n echoed
+ * back when the reply isn't linked to a message, or the default one
+ */
+export async function resolveReplyConversation(
+  supabase: SupabaseClient,
+  options: {
+    userId: string;
+    module: ModuleType;
+    // Conversation of the message being answered, when it was found
+    originalConversationId: string | null;
+    conversationId?: unknown;
+  }
+): Promise<{ ok: true; conversationId: string } | { ok: false; status: number; error: string }> {
+  const { userId, module, originalConversationId, conversationId } = options;
+  const echoed = conversationId !== undefined && conversationId !== null;
+
+  if (originalConversationId) {
+    if (echoed && conversationId !== originalConversationId) {
+      return { ok: false, status: 400, error: 'conversation_id does not match the conversation of chat_id' };
+    }
+    return { ok: true, conversationId: originalConversationId };
+  }
+
+  // Archived conversations still take replies, they just aren't listed
+  const result = echoed
+    ? await getConversation(supabase, { conversationId, userId, module })
+    : await getDefaultConversation(supabase, { userId, module });
+
+  if (!result.ok) return result;
+  return { ok: true, conversationId: result.conversation.id };
+}
+
+/**
+ * Move a conversation to the top of the sidebar after a new message
+ * An untitled conversation is named after `titleFrom`, the first user message
+ */
+export async function touchConversation(
+  supabase: SupabaseClient,
+  conversationId: string,
+  titleFrom?: string
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('conversations')
+    .update({ last_message_at: now, updated_at: now })
+    .eq('id', conversationId);
+
+  if (error) {
+    console.error(`[Conversations] Failed to update ${conversationId}:`, error);
+    return;
+  }
+
+  const title = (titleFrom || '').replace(/\s+/g, ' ').trim();
+  if (!title) return;
+
+  // Only while untitled, so a rename always wins
+  await supabase
+    .from('conversations')
+    .update({
+      title: title.length > AUTO_TITLE_LENGTH ? `${title.slice(0, AUTO_TITLE_LENGTH - 1)}…` : title,
+    })
+    .eq('id', conversationId)
+    .is('title', null);
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { parseCron, getNextRun, CronSchedule } from './cron';
+
+function schedule(expression: string): CronSchedule {
+  const parsed = parseCron(expression);
+  if (!parsed.valid) throw new Error(parsed.error);
+  return parsed.value;
+}
+
+/**
+ * The next `count` runs after `after`, as ISO strings
+ */
+function runs(expression: string, after: string, timeZone: string, count: number): string[] {
+  const result: string[] = [];
+  let from = new Date(after);
+
+  for (let index = 0; index < count; index++) {
+    const next = getNextRun(schedule(expression), from, timeZone);
+    if (!next) break;
+    result.push(next.toISOString());
+    from = next;
+  }
+
+  return result;
+}
+
+describe('getNextRun', () => {
+  it('runs at the wall time in the zone', () => {
+    expect(runs('30 2 * * *', '2026-06-01T00:00:00Z', 'Europe/Berlin', 2)).toEqual([
+      '2026-06-01T00:30:00.000Z',
+      '2026-06-02T00:30:00.000Z',
+    ]);
+  });
+
+  it('runs a time skipped by spring DST after the gap, not before it', () => {
+    // 02:30 doesn't exist in Berlin on 2026-03-29; it runs at 03:30 CEST
+    expect(runs('30 2 * * *', '2026-03-29T00:00:00Z', 'Europe/Berlin', 1)).toEqual(['2026-03-29T01:30:00.000Z']);
+    expect(runs('30 2 * * *', '2026-03-08T05:00:00Z', 'America/New_York', 1)).toEqual(['2026-03-08T07:30:00.000Z']);
+  });
+
+  it('runs hourly schedules in both passes of the hour repeated by autumn DST', () => {
+    // 02:00-02:59 happens twice in Berlin on 2026-10-25: 00:00Z-00:59Z (CEST), then 01:00Z-01:59Z (CET)
+    expect(runs('*/15 * * * *', '2026-10-25T00:40:00Z', 'Europe/Berlin', 7)).toEqual([
+      '2026-10-25T00:45:00.000Z',
+      '2026-10-25T01:00:00.000Z',
+      '2026-10-25T01:15:00.000Z',
+      '2026-10-25T01:30:00.000Z',
+      '2026-10-25T01:45:00.000Z',
+      '2026-10-25T02:00:00.000Z',
+      '2026-10-25T02:15:00.000Z',
+    ]);
+  });
+
+  it('runs fixed-hour schedules once in the repeated hour, in the first pass', () => {
+    expect(runs('30 2 * * *', '2026-10-25T00:00:00Z', 'Europe/Berlin', 2)).toEqual([
+      '2026-10-25T00:30:00.000Z',
+      '2026-10-26T01:30:00.000Z',
+    ]);
+    // Already past the first pass: the second one doesn't run again
+    expect(runs('30 2 * * *', '2026-10-25T01:00:00Z', 'Europe/Berlin', 1)).toEqual(['2026-10-26T01:30:00.000Z']);
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Cron Module
+ * Five-field cron expressions (minute hour day-of-month month day-of-week)
+ * evaluated in an IANA time zone, for scheduled messages
+ */
+
+export interface CronSchedule {
+  minutes: boolean[];
+  hours: boolean[];
+  // Indexed 1-31
+  days: boolean[];
+  // Indexed 1-12
+  months: boolean[];
+  // Indexed 0-6, Sunday is 0
+  weekdays: boolean[];
+  // Whether the day fields were '*'; when both are restricted either may match
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  // 7 is accepted as Sunday, like most crons
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+// Expressions that never match (e.g. "0 0 30 2 *") give up after this many years
+const MAX_SEARCH_YEARS = 5;
+
+/**
+ * Parse a number or a month/weekday name within a field
+ */
+function parseValue(text: string, field: CronField): number | null {
+  if (/^\d+$/.test(text)) {
+    return parseInt(text, 10);
+  }
+
+  const index = field.names ? field.names.indexOf(text.toUpperCase()) : -1;
+  if (index === -1) return null;
+  return field.min === 0 ? index : index + 1;
+}
+
+/**
+ * Parse one field: '*', values, ranges and steps, separated by commas
+ */
+function parseField(
+  text: string,
+  field: CronField
+): { valid: true; value: boolean[] } | { valid: false; error: string } {
+  const matches: boolean[] = new Array(field.max + 1).fill(false);
+  const parts = text.split(',');
+
+  for (let index = 0; index < parts.length; index++) {
+    const match = parts[index].match(/^(\*|[a-zA-Z0-9]+)(?:-([a-zA-Z0-9]+))?(?:\/(\d+))?$/);
+    if (!match) {
+      return { valid: false, error: `Invalid ${field.name} "${parts[index]}"` };
+    }
+
+    const [, startText, endText, stepText] = match;
+    let start = field.min;
+    let end = field.max;
+
+    if (startText !== '*') {
+      const parsedStart = parseValue(startText, field);
+      if (parsedStart === null) {
+        return { valid: false, error: `Invalid ${field.name} "${startText}"` };
+      }
+      start = parsedStart;
+      // "5/15" runs from 5 to the end of the range
+      end = endText !== undefined || stepText !== undefined ? field.max : start;
+    } else if (endText !== undefined) {
+      return { valid: false, error: `Invalid ${field.name} "${parts[index]}"` };
+    }
+
+    if (endText !== undefined) {
+      const parsedEnd = parseValue(endText, field);
+      if (parsedEnd === null) {
+        return { valid: false, error: `Invalid ${field.name} "${endText}"` };
+      }
+      end = parsedEnd;
+    }
+
+    const step = stepText !== undefined ? parseInt(stepText, 10) : 1;
+
+    if (start < field.min || end > field.max || start > end || step < 1) {
+      return { valid: false, error: `${field.name} must be between ${field.min} and ${field.max}` };
+    }
+
+    for (let value = start; value <= end; value += step) {
+      matches[value] = true;
+    }
+  }
+
+  return { valid: true, value: matches };
+}
+
+/**
+ * Parse a cron expression such as "0 8 * * MON" or "@daily"
+ */
+export function parseCron(
+  expression: string
+): { valid: true; value: CronSchedule } | { valid: false; error: string } {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] || trimmed).split(/\s+/);
+
+  if (fields.length !== FIELDS.length) {
+    return { valid: false, error: 'Schedule must have 5 fields: minute hour day-of-month month day-of-week' };
+  }
+
+  const parsed: boolean[][] = [];
+  for (let index = 0; index < FIELDS.length; index++) {
+    const result = parseField(fields[index], FIELDS[index]);
+    if (!result.valid) return result;
+    parsed.push(result.value);
+  }
+
+  // Fold 7 into Sunday
+  const weekdays = parsed[4].slice(0, 7);
+  weekdays[0] = weekdays[0] || parsed[4][7];
+
+  return {
+    valid: true,
+    value: {
+      minutes: parsed[0],
+      hours: parsed[1],
+      days: parsed[2],
+      months: parsed[3],
+      weekdays,
+      anyDay: fields[2].startsWith('*'),
+      anyWeekday: fields[4].startsWith('*'),
+    },
+  };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a time zone name is known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock time in a zone, as a Date whose UTC fields hold it (seconds dropped)
+ */
+function toWallClock(date: Date, timeZone: string): Date {
+  const parts: Record<string, number> = {};
+  const formatted = getFormatter(timeZone).formatToParts(date);
+  for (let index = 0; index < formatted.length; index++) {
+    parts[formatted[index].type] = parseInt(formatted[index].value, 10);
+  }
+
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute));
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Offset of a zone from UTC at an instant, in ms
+ */
+function offsetAt(time: number, timeZone: string): number {
+  return toWallClock(new Date(time), timeZone).getTime() - Math.floor(time / MINUTE_MS) * MINUTE_MS;
+}
+
+/**
+ * The instants a wall-clock time happens in a zone, earliest first
+ * A time repeated by a DST change happens twice. A time skipped by one happens
+ * once, shifted forward by the length of the gap (02:30 becomes 03:30), so it
+ * never runs before its wall time.
+ */
+function fromWallClock(wall: Date, timeZone: string): number[] {
+  const guess = wall.getTime();
+  // The offsets a day either side cover both sides of a DST change near the time
+  const offsets = [offsetAt(guess - DAY_MS, timeZone), offsetAt(guess + DAY_MS, timeZone)];
+  const instants: number[] = [];
+
+  for (let index = 0; index < offsets.length; index++) {
+    const instant = guess - offsets[index];
+    if (toWallClock(new Date(instant), timeZone).getTime() === guess && instants.indexOf(instant) === -1) {
+      instants.push(instant);
+    }
+  }
+
+  if (instants.length === 0) {
+    return [guess - Math.min(offsets[0], offsets[1])];
+  }
+
+  return instants.sort((a, b) => a - b);
+}
+
+function dayMatches(schedule: CronSchedule, wall: Date): boolean {
+  const day = schedule.days[wall.getUTCDate()];
+  const weekday = schedule.weekdays[wall.getUTCDay()];
+
+  if (!schedule.anyDay && !schedule.anyWeekday) {
+    return day || weekday;
+  }
+  return day && weekday;
+}
+
+function wallMatches(schedule: CronSchedule, wall: Date): boolean {
+  return (
+    schedule.months[wall.getUTCMonth() + 1] &&
+    dayMatches(schedule, wall) &&
+    schedule.hours[wall.getUTCHours()] &&
+    schedule.minutes[wall.getUTCMinutes()]
+  );
+}
+
+/**
+ * Next time after `after` that the schedule fires, or null if it never does
+ *
+ * In an hour repeated by a DST change, schedules that fire every hour (every
+ * 15 minutes, say) run in both passes; schedules with set hours run once, in
+ * the first pass.
+ */
+export function getNextRun(schedule: CronSchedule, after: Date, timeZone: string): Date | null {
+  const wall = toWallClock(after, timeZone);
+  const everyHour = schedule.hours.every(Boolean);
+
+  // During the first pass the rest of the repeated hour and its second pass are
+  // still ahead, though their wall times aren't; step through them by instant
+  if (everyHour) {
+    const current = fromWallClock(wall, timeZone);
+    if (current.length === 2 && current[0] === Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS) {
+      const end = current[1] + (current[1] - current[0]);
+      for (let time = current[0] + MINUTE_MS; time < end; time += MINUTE_MS) {
+        if (wallMatches(schedule, toWallClock(new Date(time), timeZone))) {
+          return new Date(time);
+        }
+      }
+    }
+  }
+
+  wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+  const lastYear = wall.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  // Skip whole months, days and hours that can't match before stepping by minutes
+  while (wall.getUTCFullYear() <= lastYear) {
+    if (!schedule.months[wall.getUTCMonth() + 1]) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0);
+      continue;
+    }
+
+    if (!dayMatches(schedule, wall)) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0);
+      continue;
+    }
+
+    if (!schedule.hours[wall.getUTCHours()]) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0);
+      continue;
+    }
+
+    if (!schedule.minutes[wall.getUTCMinutes()]) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+      continue;
+    }
+
+    // A wall time repeated by a DST change can map to an instant that already passed
+    const instants = fromWallClock(wall, timeZone);
+    const candidates = everyHour ? instants : instants.slice(0, 1);
+    for (let index = 0; index < candidates.length; index++) {
+      if (candidates[index] > after.getTime()) {
+        return new Date(candidates[index]);
+      }
+    }
+    wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+  }
+
+  return null;
+}
@@ -0,0 +1,578 @@
+/**
+ * Export Module
+ * Renders a conversation transcript as PDF, self-contained HTML, JSON or CSV
+ */
+
+import { Attachment, Chat, Conversation, MODULE_CONFIG } from '@/types';
+import { formatFileSize } from '@/lib/file-handling';
+
+export type ExportFormat = 'pdf' | 'html' | 'json' | 'csv';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['pdf', 'html', 'json', 'csv'];
+
+// Longer conversations are cut at this many messages (oldest first)
+export const MAX_EXPORT_MESSAGES = 5000;
+
+export interface Transcript {
+  conversation: Conversation;
+  // Oldest first, without suppressed replies
+  messages: Chat[];
+  // Date range requested, as ISO timestamps
+  from: string | null;
+  to: string | null;
+  // Zone used for the timestamps people read (PDF and HTML)
+  timeZone: string;
+  exportedAt: string;
+  truncated: boolean;
+}
+
+export interface RenderedExport {
+  body: string | ArrayBuffer;
+  contentType: string;
+  filename: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  pdf: 'application/pdf',
+  html: 'text/html; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+};
+
+/**
+ * Render a transcript in the requested format
+ */
+export function renderTranscript(transcript: Transcript, format: ExportFormat): RenderedExport {
+  let body: string | ArrayBuffer;
+
+  switch (format) {
+    case 'pdf':
+      body = renderPdf(transcript);
+      break;
+    case 'html':
+      body = renderHtml(transcript);
+      break;
+    case 'json':
+      body = renderJson(transcript);
+      break;
+    case 'csv':
+      body = renderCsv(transcript);
+      break;
+  }
+
+  return { body, contentType: CONTENT_TYPES[format], filename: exportFilename(transcript, format) };
+}
+
+// ============================================================
+// Shared helpers
+// ============================================================
+
+function conversationTitle(conversation: Conversation): string {
+  return conversation.title || 'Untitled conversation';
+}
+
+/**
+ * e.g. invoice-march-invoices-2026-10-18.pdf
+ */
+function exportFilename(transcript: Transcript, format: ExportFormat): string {
+  const slug = conversationTitle(transcript.conversation)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50);
+
+  return `${transcript.conversation.module}-${slug || 'conversation'}-${transcript.exportedAt.slice(0, 10)}.${format}`;
+}
+
+function formatTimestamp(iso: string, timeZone: string): string {
+  return new Date(iso).toLocaleString('en-GB', {
+    timeZone,
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+function statusLabel(chat: Chat): string | null {
+  if (chat.stream_state === 'streaming') return 'streaming';
+  return chat.status;
+}
+
+function senderLabel(chat: Chat): string {
+  return chat.sender === 'user' ? 'You' : 'Bot';
+}
+
+function rangeLabel(transcript: Transcript): string {
+  const { from, to, timeZone } = transcript;
+  if (!from && !to) return 'All messages';
+  if (!to) return `From ${formatTimestamp(from!, timeZone)}`;
+  if (!from) return `Until ${formatTimestamp(to, timeZone)}`;
+  return `${formatTimestamp(from, timeZone)} – ${formatTimestamp(to, timeZone)}`;
+}
+
+/**
+ * Quick reply picked and form values submitted, as "label: value" lines
+ */
+function responseLines(chat: Chat): string[] {
+  const lines: string[] = [];
+
+  if (chat.action_selected) {
+    lines.push(`Selected: ${chat.action_selected}`);
+  }
+
+  if (chat.form_response) {
+    const keys = Object.keys(chat.form_response);
+    for (let index = 0; index < keys.length; index++) {
+      const value = chat.form_response[keys[index]];
+      lines.push(`${keys[index]}: ${value === null ? '' : String(value)}`);
+    }
+  }
+
+  return lines;
+}
+
+function attachmentLabel(attachment: Attachment): string {
+  return `${attachment.name} (${formatFileSize(attachment.size)})`;
+}
+
+// ============================================================
+// JSON
+// ============================================================
+
+function renderJson(transcript: Transcript): string {
+  const { conversation } = transcript;
+
+  return JSON.stringify({
+    conversation: {
+      id: conversation.id,
+      module: conversation.module,
+      title: conversation.title,
+    },
+    from: transcript.from,
+    to: transcript.to,
+    exported_at: transcript.exportedAt,
+    truncated: transcript.truncated,
+    messages: transcript.messages.map((chat) => ({
+      id: chat.id,
+      created_at: chat.created_at,
+      edited_at: chat.edited_at,
+      sender: chat.sender,
+      status: statusLabel(chat),
+      reply_to: chat.reply_to,
+      message: chat.message,
+      attachments: chat.attachments || [],
+      action_selected: chat.action_selected,
+      form_response: chat.form_response,
+      blocks: chat.blocks,
+    })),
+  }, null, 2);
+}
+
+// ============================================================
+// CSV
+// ============================================================
+
+const CSV_COLUMNS = [
+  'id',
+  'created_at',
+  'sender',
+  'status',
+  'message',
+  'response',
+  'attachment_names',
+  'attachment_sizes',
+  'attachment_urls',
+];
+
+/**
+ * Quote a cell; cells a spreadsheet would run as a formula get a leading quote
+ */
+function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+function renderCsv(transcript: Transcript): string {
+  const rows = [CSV_COLUMNS.join(',')];
+
+  for (let index = 0; index < transcript.messages.length; index++) {
+    const chat = transcript.messages[index];
+    const attachments = chat.attachments || [];
+
+    // Several attachments share a cell, one per line
+    rows.push([
+      chat.id,
+      chat.created_at,
+      chat.sender,
+      statusLabel(chat) || '',
+      chat.message,
+      responseLines(chat).join('\n'),
+      attachments.map((a) => a.name).join('\n'),
+      attachments.map((a) => String(a.size)).join('\n'),
+      attachments.map((a) => a.url).join('\n'),
+    ].map(csvCell).join(','));
+  }
+
+  // Byte order mark so Excel reads the file as UTF-8
+  return `\uFEFF${rows.join('\r\n')}\r\n`;
+}
+
+// ============================================================
+// HTML
+// ============================================================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function isHttpUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+const HTML_STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #1a1f2e; max-width: 800px; margin: 40px auto; padding: 0 20px; }
+header { border-bottom: 2px solid #4A90F5; padding-bottom: 16px; margin-bottom: 24px; }
+h1 { font-size: 22px; margin: 0 0 8px; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; margin: 0; font-size: 13px; color: #555; }
+dt { font-weight: 600; }
+dd { margin: 0; }
+.message { border: 1px solid #e1e4ea; border-radius: 8px; padding: 12px 16px; margin-bottom: 12px; page-break-inside: avoid; }
+.message.user { background: #f3f7fe; }
+.meta { font-size: 12px; color: #666; margin-bottom: 6px; }
+.meta .sender { font-weight: 600; color: #1a1f2e; }
+.status { display: inline-block; padding: 0 6px; border-radius: 4px; background: #e1e4ea; margin-left: 6px; }
+.text { white-space: pre-wrap; word-wrap: break-word; font-size: 14px; }
+.response { font-size: 13px; color: #333; margin-top: 8px; white-space: pre-wrap; }
+ul { margin: 8px 0 0; padding-left: 20px; font-size: 13px; }
+.note { font-size: 13px; color: #b45309; }
+`;
+
+function renderHtml(transcript: Transcript): string {
+  const { conversation, timeZone } = transcript;
+  const title = conversationTitle(conversation);
+
+  const messages = transcript.messages.map((chat) => {
+    const status = statusLabel(chat);
+    const responses = responseLines(chat);
+    const attachments = (chat.attachments || []).map((attachment) => {
+      const label = escapeHtml(attachmentLabel(attachment));
+      return isHttpUrl(attachment.url)
+        ? `<li><a href="${escapeHtml(attachment.url)}">${label}</a></li>`
+        : `<li>${label}</li>`;
+    });
+
+    return `<article class="message ${chat.sender}">
+<div class="meta"><span class="sender">${senderLabel(chat)}</span> · ${escapeHtml(formatTimestamp(chat.created_at, timeZone))}${chat.edited_at ? ' · edited' : ''}${status ? `<span class="status">${escapeHtml(status)}</span>` : ''}</div>
+${chat.message ? `<div class="text">${escapeHtml(chat.message)}</div>` : ''}
+${responses.length > 0 ? `<div class="response">${escapeHtml(responses.join('\n'))}</div>` : ''}
+${attachments.length > 0 ? `<ul>${attachments.join('')}</ul>` : ''}
+</article>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title)}</h1>
+<dl>
+<dt>Module</dt><dd>${escapeHtml(MODULE_CONFIG[conversation.module].name)}</dd>
+<dt>Period</dt><dd>${escapeHtml(rangeLabel(transcript))}</dd>
+<dt>Messages</dt><dd>${transcript.messages.length}</dd>
+<dt>Exported</dt><dd>${escapeHtml(formatTimestamp(transcript.exportedAt, timeZone))} (${escapeHtml(timeZone)})</dd>
+</dl>
+${transcript.truncated ? `<p class="note">Only the first ${MAX_EXPORT_MESSAGES} messages are included. Narrow the date range to export the rest.</p>` : ''}
+</header>
+${messages.length > 0 ? messages.join('\n') : '<p>No messages in this period.</p>'}
+</body>
+</html>
+`;
+}
+
+// ============================================================
+// PDF
+// ============================================================
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const PAGE_MARGIN = 50;
+
+// Average Helvetica glyph width as a share of the font size; wrapping is approximate
+const AVERAGE_GLYPH_WIDTH = 0.52;
+
+interface PdfLine {
+  text: string;
+  size: number;
+  bold?: boolean;
+  indent?: number;
+  // Space above the line
+  gap?: number;
+  // Grey text
+  muted?: boolean;
+  // Makes the line a clickable link
+  link?: string;
+}
+
+interface PdfPage {
+  content: string[];
+  links: Array<{ rect: number[]; url: string }>;
+}
+
+// Characters outside Latin-1 that WinAnsiEncoding still has
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87,
+  'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e,
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+  '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+/**
+ * Text as a PDF string in the standard fonts' encoding; anything else becomes "?"
+ */
+function pdfString(text: string): string {
+  let result = '';
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text.charAt(index);
+    const code = text.charCodeAt(index);
+
+    // Surrogate pairs (emoji and the like) become a single "?"
+    if (code >= 0xd800 && code <= 0xdbff) {
+      index++;
+      result += '?';
+    } else if (char === '(' || char === ')' || char === '\\') {
+      result += `\\${char}`;
+    } else if (code >= 0x20 && code <= 0x7e) {
+      result += char;
+    } else if (code >= 0xa0 && code <= 0xff) {
+      result += String.fromCharCode(code);
+    } else if (WIN_ANSI[char]) {
+      result += String.fromCharCode(WIN_ANSI[char]);
+    } else {
+      result += '?';
+    }
+  }
+
+  return `(${result})`;
+}
+
+/**
+ * Split text into lines that fit the page width, breaking long words
+ */
+function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  const paragraphs = text.replace(/\t/g, '    ').split(/\r?\n/);
+
+  for (let p = 0; p < paragraphs.length; p++) {
+    const words = paragraphs[p].split(' ');
+    let line = '';
+
+    for (let w = 0; w < words.length; w++) {
+      let word = words[w];
+
+      while (word.length > maxChars) {
+        if (line) {
+          lines.push(line);
+          line = '';
+        }
+        lines.push(word.slice(0, maxChars));
+        word = word.slice(maxChars);
+      }
+
+      if (!line) {
+        line = word;
+      } else if (line.length + 1 + word.length <= maxChars) {
+        line += ` ${word}`;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    }
+
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+function transcriptPdfLines(transcript: Transcript): PdfLine[] {
+  const { conversation, timeZone } = transcript;
+  const lines: PdfLine[] = [
+    { text: conversationTitle(conversation), size: 16, bold: true },
+    { text: `Module: ${MODULE_CONFIG[conversation.module].name}`, size: 9, muted: true, gap: 6 },
+    { text: `Period: ${rangeLabel(transcript)}`, size: 9, muted: true },
+    { text: `Messages: ${transcript.messages.length}`, size: 9, muted: true },
+    { text: `Exported: ${formatTimestamp(transcript.exportedAt, timeZone)} (${timeZone})`, size: 9, muted: true },
+  ];
+
+  if (transcript.truncated) {
+    lines.push({
+      text: `Only the first ${MAX_EXPORT_MESSAGES} messages are included. Narrow the date range to export the rest.`,
+      size: 9,
+      gap: 6,
+    });
+  }
+
+  if (transcript.messages.length === 0) {
+    lines.push({ text: 'No messages in this period.', size: 10, gap: 18 });
+  }
+
+  for (let index = 0; index < transcript.messages.length; index++) {
+    const chat = transcript.messages[index];
+    const status = statusLabel(chat);
+
+    lines.push({
+      text: `${senderLabel(chat)} · ${formatTimestamp(chat.created_at, timeZone)}${chat.edited_at ? ' · edited' : ''}${status ? ` · ${status}` : ''}`,
+      size: 9,
+      bold: true,
+      gap: 14,
+    });
+
+    if (chat.message) {
+      lines.push({ text: chat.message, size: 10, gap: 2 });
+    }
+
+    const responses = responseLines(chat);
+    for (let r = 0; r < responses.length; r++) {
+      lines.push({ text: responses[r], size: 9, indent: 12, gap: r === 0 ? 4 : 0 });
+    }
+
+    const attachments = chat.attachments || [];
+    for (let a = 0; a < attachments.length; a++) {
+      lines.push({ text: `Attachment: ${attachmentLabel(attachments[a])}`, size: 9, indent: 12, gap: a === 0 ? 4 : 0 });
+      if (attachments[a].url) {
+        lines.push({
+          text: attachments[a].url,
+          size: 8,
+          indent: 12,
+          muted: true,
+          link: isHttpUrl(attachments[a].url) ? attachments[a].url : undefined,
+        });
+      }
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Lay out lines on A4 pages with the built-in Helvetica fonts
+ */
+function layoutPdf(lines: PdfLine[]): PdfPage[] {
+  const pages: PdfPage[] = [];
+  let page: PdfPage = { content: [], links: [] };
+  let y = PAGE_HEIGHT - PAGE_MARGIN;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const indent = line.indent || 0;
+    const leading = line.size * 1.35;
+    const maxChars = Math.floor((PAGE_WIDTH - 2 * PAGE_MARGIN - indent) / (line.size * AVERAGE_GLYPH_WIDTH));
+    const wrapped = wrapText(line.text, maxChars);
+
+    y -= line.gap || 0;
+
+    for (let w = 0; w < wrapped.length; w++) {
+      if (y - leading < PAGE_MARGIN) {
+        pages.push(page);
+        page = { content: [], links: [] };
+        y = PAGE_HEIGHT - PAGE_MARGIN;
+      }
+
+      y -= leading;
+      const x = PAGE_MARGIN + indent;
+
+      page.content.push(
+        `BT /${line.bold ? 'F2' : 'F1'} ${line.size} Tf ${line.muted ? '0.45 g' : '0 g'} ${x} ${y.toFixed(2)} Td ${pdfString(wrapped[w])} Tj ET`
+      );
+
+      if (line.link) {
+        const width = wrapped[w].length * line.size * AVERAGE_GLYPH_WIDTH;
+        page.links.push({
+          rect: [x, y - 2, x + width, y + line.size],
+          url: line.link,
+        });
+      }
+    }
+  }
+
+  pages.push(page);
+  return pages;
+}
+
+/**
+ * Minimal PDF 1.4 writer: one content stream per page, link annotations,
+ * no compression and no embedded fonts
+ */
+function renderPdf(transcript: Transcript): ArrayBuffer {
+  const pages = layoutPdf(transcriptPdfLines(transcript));
+
+  // Objects 1-4 are the catalog, page tree and the two fonts
+  const objects: string[] = ['', '', '', ''];
+  const pageRefs: string[] = [];
+
+  for (let index = 0; index < pages.length; index++) {
+    const page = pages[index];
+    const stream = page.content.join('\n');
+
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    const contentRef = objects.length;
+
+    const annotRefs: string[] = [];
+    for (let l = 0; l < page.links.length; l++) {
+      const { rect, url } = page.links[l];
+      objects.push(
+        `<< /Type /Annot /Subtype /Link /Rect [${rect.map((n) => n.toFixed(2)).join(' ')}] /Border [0 0 0] /A << /S /URI /URI ${pdfString(url)} >> >>`
+      );
+      annotRefs.push(`${objects.length} 0 R`);
+    }
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentRef} 0 R` +
+      `${annotRefs.length > 0 ? ` /Annots [${annotRefs.join(' ')}]` : ''} >>`
+    );
+    pageRefs.push(`${objects.length} 0 R`);
+  }
+
+  objects[0] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pageRefs.length} >>`;
+  objects[2] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  // Every character is one byte, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n%âãÏÓ\n';
+  const offsets: number[] = [];
+
+  for (let index = 0; index < objects.length; index++) {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${objects[index]}\nendobj\n`;
+  }
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (let index = 0; index < offsets.length; index++) {
+    pdf += `${String(offsets[index]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(pdf.length);
+  for (let index = 0; index < pdf.length; index++) {
+    bytes[index] = pdf.charCodeAt(index);
+  }
+  return bytes.buffer;
+}
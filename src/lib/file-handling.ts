@@ -3,6 +3,8 @@
  * Handles binary file validation, processing, and security
  */
 
+import type { Attachment, ModuleType } from '@/types';
+
 // Allowed MIME types
 export const ALLOWED_MIME_TYPES: Record<string, string[]> = {
   // Documents
@@ -220,3 +222,43 @@ export function generateSecureDownloadUrl(
   }
   return url.toString();
 }
+
+/**
+ * Upload a file from the browser through a signed URL from /api/upload
+ */
+export async function uploadAttachment(file: File, module: ModuleType): Promise<Attachment> {
+  const urlResponse = await fetch('/api/upload', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      filename: file.name,
+      contentType: file.type,
+      size: file.size,
+      module,
+    }),
+  });
+
+  if (!urlResponse.ok) {
+    const errorData = await urlResponse.json();
+    throw new Error(errorData.error || 'Failed to get upload URL');
+  }
+
+  const { uploadUrl, publicUrl, sanitizedFilename } = await urlResponse.json();
+
+  const uploadResponse = await fetch(uploadUrl, {
+    method: 'PUT',
+    headers: { 'Content-Type': file.type },
+    body: file,
+  });
+
+  if (!uploadResponse.ok) {
+    throw new Error('Failed to upload file');
+  }
+
+  return {
+    name: sanitizedFilename || file.name,
+    url: publicUrl,
+    type: file.type,
+    size: file.size,
+  };
+}
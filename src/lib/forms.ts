@@ -0,0 +1,352 @@
+/**
+ * Workflow Forms Module
+ * Validates form schemas sent by n8n and the values users submit.
+ * Shared by the API routes and the chat UI, so it must stay free of server imports.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  FormField,
+  FormFieldType,
+  FormSchema,
+  FormSubmission,
+  FormValues,
+  ModuleType,
+} from '@/types';
+
+export const MAX_FORM_FIELDS = 20;
+export const MAX_FORM_OPTIONS = 100;
+const MAX_TEXT_LENGTH = 5000;
+const MAX_PATTERN_LENGTH = 200;
+
+const FIELD_TYPES: FormFieldType[] = ['text', 'textarea', 'email', 'number', 'select', 'date', 'checkbox'];
+const FIELD_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]{0,63}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type Result<T> = { valid: true; value: T } | { valid: false; error: string };
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function isOptionalString(value: unknown, maxLength: number): boolean {
+  return value === undefined || (typeof value === 'string' && value.length <= maxLength);
+}
+
+function isOptionalCount(value: unknown): boolean {
+  return value === undefined || (Number.isInteger(value) && (value as number) >= 0);
+}
+
+/**
+ * Validate a single field definition
+ */
+function validateField(raw: unknown, path: string): Result<FormField> {
+  const field = (raw || {}) as Record<string, unknown>;
+  const { name, label, type } = field;
+
+  if (typeof name !== 'string' || !FIELD_NAME_PATTERN.test(name)) {
+    return { valid: false, error: `${path}.name must be a letter or underscore followed by letters, digits or underscores` };
+  }
+
+  if (typeof label !== 'string' || !label.trim() || label.length > 100) {
+    return { valid: false, error: `${path}.label must be 1-100 characters` };
+  }
+
+  if (!FIELD_TYPES.includes(type as FormFieldType)) {
+    return { valid: false, error: `${path}.type must be one of ${FIELD_TYPES.join(', ')}` };
+  }
+
+  if (field.required !== undefined && typeof field.required !== 'boolean') {
+    return { valid: false, error: `${path}.required must be a boolean` };
+  }
+
+  if (!isOptionalString(field.placeholder, 200) || !isOptionalString(field.help, 300)) {
+    return { valid: false, error: `${path}.placeholder and help must be short strings` };
+  }
+
+  if (!isOptionalCount(field.min_length) || !isOptionalCount(field.max_length)) {
+    return { valid: false, error: `${path}.min_length and max_length must be non-negative integers` };
+  }
+
+  if (field.pattern !== undefined) {
+    if (typeof field.pattern !== 'string' || field.pattern.length > MAX_PATTERN_LENGTH) {
+      return { valid: false, error: `${path}.pattern must be at most ${MAX_PATTERN_LENGTH} characters` };
+    }
+    try {
+      new RegExp(field.pattern);
+    } catch {
+      return { valid: false, error: `${path}.pattern is not a valid regular expression` };
+    }
+  }
+
+  if (!isOptionalString(field.pattern_message, 200)) {
+    return { valid: false, error: `${path}.pattern_message must be a short string` };
+  }
+
+  if (type === 'select') {
+    const options = field.options;
+    if (!Array.isArray(options) || options.length === 0 || options.length > MAX_FORM_OPTIONS) {
+      return { valid: false, error: `${path}.options must list 1-${MAX_FORM_OPTIONS} options` };
+    }
+    for (const option of options) {
+      const { label: optionLabel, value } = (option || {}) as Record<string, unknown>;
+      if (typeof optionLabel !== 'string' || typeof value !== 'string' || !optionLabel || !value) {
+        return { valid: false, error: `${path}.options must have a label and value` };
+      }
+    }
+  }
+
+  if (type === 'number') {
+    for (const bound of ['min', 'max'] as const) {
+      if (field[bound] !== undefined && typeof field[bound] !== 'number') {
+        return { valid: false, error: `${path}.${bound} must be a number` };
+      }
+    }
+  }
+
+  if (type === 'date') {
+    for (const bound of ['min', 'max'] as const) {
+      if (field[bound] !== undefined && (typeof field[bound] !== 'string' || !isValidDate(field[bound] as string))) {
+        return { valid: false, error: `${path}.${bound} must be a YYYY-MM-DD date` };
+      }
+    }
+  }
+
+  const defaultValue = field.default;
+  if (defaultValue !== undefined && !['string', 'number', 'boolean'].includes(typeof defaultValue)) {
+    return { valid: false, error: `${path}.default must be a string, number or boolean` };
+  }
+
+  // Copy known properties only
+  const validated: FormField = { name, label: label.trim(), type: type as FormFieldType };
+  if (field.required) validated.required = true;
+  if (field.placeholder) validated.placeholder = field.placeholder as string;
+  if (field.help) validated.help = field.help as string;
+  if (type === 'select') {
+    validated.options = (field.options as Array<{ label: string; value: string }>)
+      .map(({ label: optionLabel, value }) => ({ label: optionLabel, value }));
+  }
+  if (field.min !== undefined) validated.min = field.min as number | string;
+  if (field.max !== undefined) validated.max = field.max as number | string;
+  if (field.min_length !== undefined) validated.min_length = field.min_length as number;
+  if (field.max_length !== undefined) validated.max_length = field.max_length as number;
+  if (field.pattern) validated.pattern = field.pattern as string;
+  if (field.pattern_message) validated.pattern_message = field.pattern_message as string;
+  if (defaultValue !== undefined) validated.default = defaultValue as string | number | boolean;
+
+  return { valid: true, value: validated };
+}
+
+/**
+ * Validate a form schema from a callback payload
+ */
+export function validateFormSchema(raw: unknown): Result<FormSchema> {
+  const schema = (raw || {}) as Record<string, unknown>;
+
+  if (!isOptionalString(schema.title, 200) || !isOptionalString(schema.submit_label, 40)) {
+    return { valid: false, error: 'form.title and form.submit_label must be short strings' };
+  }
+
+  if (!Array.isArray(schema.fields) || schema.fields.length === 0 || schema.fields.length > MAX_FORM_FIELDS) {
+    return { valid: false, error: `form.fields must list 1-${MAX_FORM_FIELDS} fields` };
+  }
+
+  const fields: FormField[] = [];
+  const names = new Set<string>();
+
+  for (let index = 0; index < schema.fields.length; index++) {
+    const result = validateField(schema.fields[index], `form.fields[${index}]`);
+    if (!result.valid) return result;
+
+    if (names.has(result.value.name)) {
+      return { valid: false, error: `form.fields[${index}].name is a duplicate` };
+    }
+    names.add(result.value.name);
+    fields.push(result.value);
+  }
+
+  return {
+    valid: true,
+    value: {
+      ...(schema.title ? { title: schema.title as string } : {}),
+      ...(schema.submit_label ? { submit_label: schema.submit_label as string } : {}),
+      fields,
+    },
+  };
+}
+
+/**
+ * Check one submitted value and convert it to the field's type
+ * Returns an error message for the user, or the typed value
+ */
+export function validateFieldValue(
+  field: FormField,
+  raw: unknown
+): { error: string } | { value: string | number | boolean | null } {
+  const isEmpty = raw === undefined || raw === null || raw === '' || (field.type === 'checkbox' && raw === false);
+
+  if (isEmpty) {
+    if (field.required) {
+      return { error: field.type === 'checkbox' ? 'Must be checked' : 'Required' };
+    }
+    return { value: field.type === 'checkbox' ? false : null };
+  }
+
+  switch (field.type) {
+    case 'checkbox':
+      if (typeof raw !== 'boolean') return { error: 'Must be true or false' };
+      return { value: raw };
+
+    case 'number': {
+      const value = typeof raw === 'string' ? Number(raw.trim()) : raw;
+      if (typeof value !== 'number' || !Number.isFinite(value)) return { error: 'Must be a number' };
+      if (typeof field.min === 'number' && value < field.min) return { error: `Must be at least ${field.min}` };
+      if (typeof field.max === 'number' && value > field.max) return { error: `Must be at most ${field.max}` };
+      return { value };
+    }
+
+    case 'date': {
+      if (typeof raw !== 'string' || !isValidDate(raw)) return { error: 'Must be a valid date' };
+      // YYYY-MM-DD strings compare correctly as text
+      if (typeof field.min === 'string' && raw < field.min) return { error: `Must be on or after ${field.min}` };
+      if (typeof field.max === 'string' && raw > field.max) return { error: `Must be on or before ${field.max}` };
+      return { value: raw };
+    }
+
+    case 'select': {
+      if (typeof raw !== 'string' || !field.options?.some(o => o.value === raw)) {
+        return { error: 'Choose one of the options' };
+      }
+      return { value: raw };
+    }
+
+    default: {
+      if (typeof raw !== 'string') return { error: 'Must be text' };
+      const value = raw.trim();
+      const maxLength = Math.min(field.max_length ?? MAX_TEXT_LENGTH, MAX_TEXT_LENGTH);
+      if (field.min_length !== undefined && value.length < field.min_length) {
+        return { error: `Must be at least ${field.min_length} characters` };
+      }
+      if (value.length > maxLength) return { error: `Must be at most ${maxLength} characters` };
+      if (field.type === 'email' && !EMAIL_PATTERN.test(value)) return { error: 'Must be an email address' };
+      if (field.pattern && !new RegExp(`^(?:${field.pattern})$`).test(value)) {
+        return { error: field.pattern_message || 'Invalid format' };
+      }
+      return { value };
+    }
+  }
+}
+
+/**
+ * Validate a whole submission against its schema
+ * Returns per-field errors, or typed values for every field
+ */
+export function validateFormValues(
+  schema: FormSchema,
+  raw: Record<string, unknown>
+): { valid: true; values: FormValues } | { valid: false; errors: Record<string, string> } {
+  const values: FormValues = {};
+  const errors: Record<string, string> = {};
+
+  for (const field of schema.fields) {
+    const result = validateFieldValue(field, raw[field.name]);
+    if ('error' in result) {
+      errors[field.name] = result.error;
+    } else {
+      values[field.name] = result.value;
+    }
+  }
+
+  return Object.keys(errors).length > 0 ? { valid: false, errors } : { valid: true, values };
+}
+
+/**
+ * Human-readable version of a submission for the chat history
+ */
+export function formatFormSummary(schema: FormSchema, values: FormValues): string {
+  const lines = schema.fields
+    .filter(field => values[field.name] !== null)
+    .map(field => {
+      const value = values[field.name];
+      const display = field.type === 'checkbox'
+        ? (value ? 'Yes' : 'No')
+        : field.type === 'select'
+          ? field.options?.find(o => o.value === value)?.label ?? String(value)
+          : String(value);
+      return `${field.label}: ${display}`;
+    });
+
+  return lines.join('\n');
+}
+
+/**
+ * Check a submission against the bot message's form and record it, once per form
+ */
+export async function claimFormSubmission(
+  supabase: SupabaseClient,
+  options: { userId: string; module: ModuleType; submission: FormSubmission }
+): Promise<
+  | { ok: true; schema: FormSchema; values: FormValues }
+  | { ok: false; status: number; error: string; errors?: Record<string, string> }
+> {
+  const { userId, module, submission } = options;
+
+  const { data: botChat } = await supabase
+    .from('chats')
+    .select('id, form, form_response')
+    .eq('id', submission.chat_id)
+    .eq('user_id', userId)
+    .eq('module', module)
+    .eq('sender', 'bot')
+    .maybeSingle();
+
+  if (!botChat?.form) {
+    return { ok: false, status: 400, error: 'Unknown form' };
+  }
+
+  if (botChat.form_response) {
+    return { ok: false, status: 409, error: 'This form has already been submitted' };
+  }
+
+  const schema = botChat.form as FormSchema;
+  const result = validateFormValues(schema, (submission.values || {}) as Record<string, unknown>);
+
+  if (!result.valid) {
+    return { ok: false, status: 400, error: 'Invalid form values', errors: result.errors };
+  }
+
+  // The null check makes concurrent submits race for a single winner
+  const { data: claimed, error } = await supabase
+    .from('chats')
+    .update({ form_response: result.values })
+    .eq('id', submission.chat_id)
+    .is('form_response', null)
+    .select('id');
+
+  if (error) {
+    console.error(`[Forms] Failed to record submission for ${submission.chat_id}:`, error);
+    return { ok: false, status: 500, error: 'Failed to submit form' };
+  }
+
+  if (!claimed || claimed.length === 0) {
+    return { ok: false, status: 409, error: 'This form has already been submitted' };
+  }
+
+  return { ok: true, schema, values: result.values };
+}
+
+/**
+ * Undo a recorded submission when the reply could not be saved
+ */
+export async function releaseFormSubmission(
+  supabase: SupabaseClient,
+  chatId: string
+): Promise<void> {
+  await supabase
+    .from('chats')
+    .update({ form_response: null })
+    .eq('id', chatId);
+}
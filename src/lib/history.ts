@@ -0,0 +1,83 @@
+/**
+ * Conversation History Module
+ * Builds the history window sent to n8n alongside each message
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Attachment, ModuleSettings, N8nHistoryMessage } from '@/types';
+
+// Upper bound regardless of module settings, keeps payloads reasonable
+export const HISTORY_MAX_MESSAGES = 50;
+
+export const HISTORY_DEFAULTS: Pick<
+  ModuleSettings,
+  'history_limit' | 'history_max_chars' | 'history_senders' | 'history_include_attachments'
+> = {
+  history_limit: 0,
+  history_max_chars: 4000,
+  history_senders: ['user', 'bot'],
+  history_include_attachments: true,
+};
+
+/**
+ * Load the most recent messages of the conversation before the current one, oldest first
+ * Older messages are dropped once the character budget is spent
+ */
+export async function buildHistory(
+  supabase: SupabaseClient,
+  options: {
+    userId: string;
+    conversationId: string;
+    excludeChatId: string;
+    settings: ModuleSettings | null;
+  }
+): Promise<N8nHistoryMessage[]> {
+  const { userId, conversationId, excludeChatId } = options;
+  const settings = { ...HISTORY_DEFAULTS, ...options.settings };
+
+  const limit = Math.min(settings.history_limit, HISTORY_MAX_MESSAGES);
+  if (limit <= 0 || settings.history_senders.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('chats')
+    .select('id, sender, message, attachments, created_at')
+    .eq('user_id', userId)
+    .eq('conversation_id', conversationId)
+    .in('sender', settings.history_senders)
+    .neq('id', excludeChatId)
+    // Half-finished streamed replies aren't useful context
+    .or('stream_state.is.null,stream_state.eq.complete')
+    // Nor are replies the user cancelled
+    .eq('suppressed', false)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    // History is context only, the message still goes out without it
+    console.error('[History] Failed to load conversation history:', error);
+    return [];
+  }
+
+  const history: N8nHistoryMessage[] = [];
+  let remainingChars = settings.history_max_chars;
+
+  for (const row of data || []) {
+    const message = row.message || '';
+    if (message.length > remainingChars) break;
+    remainingChars -= message.length;
+
+    history.push({
+      chat_id: row.id,
+      sender: row.sender,
+      message,
+      attachments: settings.history_include_attachments
+        ? (row.attachments as Attachment[] | null)
+        : null,
+      created_at: row.created_at,
+    });
+  }
+
+  return history.reverse();
+}
@@ -0,0 +1,71 @@
+/**
+ * Idempotency Module
+ * Idempotency-Key handling so retried sends and callbacks return the
+ * message saved by the first request instead of inserting it again
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Chat } from '@/types';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// Set on responses that replay an earlier result
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+// Unique (user_id, sender, idempotency_key) constraint on chats
+const IDEMPOTENCY_CONSTRAINT = 'chats_idempotency_key_unique';
+
+/**
+ * Read the Idempotency-Key header; a missing header is allowed
+ */
+export function readIdempotencyKey(
+  request: Request
+): { valid: true; key: string | null } | { valid: false; error: string } {
+  const key = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+
+  if (key === null) {
+    return { valid: true, key: null };
+  }
+
+  // Printable ASCII only, like the header values clients generate
+  if (!/^[\x21-\x7e]+$/.test(key) || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return {
+      valid: false,
+      error: `${IDEMPOTENCY_KEY_HEADER} must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} printable characters`,
+    };
+  }
+
+  return { valid: true, key };
+}
+
+/**
+ * Find the message an earlier request with the same key saved
+ */
+export async function findIdempotentChat(
+  supabase: SupabaseClient,
+  options: { userId: string; sender: Chat['sender']; key: string }
+): Promise<Chat | null> {
+  const { data, error } = await supabase
+    .from('chats')
+    .select('*')
+    .eq('user_id', options.userId)
+    .eq('sender', options.sender)
+    .eq('idempotency_key', options.key)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[Idempotency] Failed to look up key ${options.key}:`, error);
+    return null;
+  }
+
+  return data as Chat | null;
+}
+
+/**
+ * Whether an insert lost the race to a concurrent request with the same key
+ */
+export function isIdempotencyConflict(error: { code?: string; message?: string } | null): boolean {
+  return !!error && error.code === '23505' && !!error.message?.includes(IDEMPOTENCY_CONSTRAINT);
+}
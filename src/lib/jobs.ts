@@ -0,0 +1,159 @@
+/**
+ * Jobs Module
+ * One job per user message sent to n8n: state, progress and timing of the
+ * workflow run, reported through /api/n8n/callback/job and kept in step
+ * with the message's delivery status
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ChatStatus, Job, JobState, ModuleType } from '@/types';
+
+// States a job may move out of into each target state.
+// A failed job can still succeed when a late reply lands, like its message.
+const ALLOWED_PREVIOUS: Record<JobState, JobState[]> = {
+  queued: [],
+  running: ['queued'],
+  succeeded: ['queued', 'running', 'failed'],
+  failed: ['queued', 'running'],
+  cancelled: ['queued', 'running'],
+};
+
+export const FINISHED_JOB_STATES: JobState[] = ['succeeded', 'failed', 'cancelled'];
+
+// Keeps step labels short enough for the jobs panel
+export const MAX_JOB_STEP_LENGTH = 200;
+export const MAX_JOB_ERROR_LENGTH = 1000;
+
+// Job state implied by each message status; queued and dispatched leave the job queued
+const STATE_FOR_STATUS: Partial<Record<ChatStatus, JobState>> = {
+  acknowledged: 'running',
+  answered: 'succeeded',
+  failed: 'failed',
+  cancelled: 'cancelled',
+};
+
+export interface JobUpdate {
+  state?: JobState;
+  progress?: number;
+  step?: string | null;
+  error?: string | null;
+}
+
+/**
+ * Record a queued job for a message that was just saved
+ * A missing job only affects the jobs panel, so failures are logged, not thrown
+ */
+export async function createJob(
+  supabase: SupabaseClient,
+  job: { chatId: string; userId: string; module: ModuleType }
+): Promise<void> {
+  const { error } = await supabase
+    .from('jobs')
+    .insert({
+      chat_id: job.chatId,
+      user_id: job.userId,
+      module: job.module,
+      state: 'queued',
+    });
+
+  if (error) {
+    console.error(`[Jobs] Failed to create job for ${job.chatId}:`, error);
+  }
+}
+
+/**
+ * Apply a state or progress update to the job of a message
+ * Updates to a finished job are rejected unless they move it on (failed → succeeded)
+ */
+export async function updateJob(
+  supabase: SupabaseClient,
+  chatId: string,
+  update: JobUpdate,
+  userId?: string
+): Promise<
+  | { ok: true; job: Job }
+  // state: the job's current state, on 409
+  | { ok: false; status: number; error: string; state?: JobState }
+> {
+  let query = supabase
+    .from('jobs')
+    .select('*')
+    .eq('chat_id', chatId);
+
+  if (userId) {
+    query = query.eq('user_id', userId);
+  }
+
+  const { data } = await query.maybeSingle();
+
+  if (!data) {
+    return { ok: false, status: 404, error: 'Job not found' };
+  }
+
+  const current = data as Job;
+  const state = update.state || current.state;
+
+  if (state !== current.state && !ALLOWED_PREVIOUS[state].includes(current.state)) {
+    return { ok: false, status: 409, error: `Job is already ${current.state}`, state: current.state };
+  }
+
+  if (state === current.state && !update.state && FINISHED_JOB_STATES.includes(state)) {
+    return { ok: false, status: 409, error: `Job is already ${current.state}`, state: current.state };
+  }
+
+  const now = new Date().toISOString();
+  const updates: Record<string, unknown> = { state, updated_at: now };
+
+  if (update.progress !== undefined) updates.progress = update.progress;
+  if (update.step !== undefined) updates.step = update.step;
+  if (update.error !== undefined) updates.error = update.error;
+
+  // Started with the first sign of work, even if the workflow skipped 'running'
+  if (!current.started_at && state !== 'queued') {
+    updates.started_at = now;
+  }
+
+  if (FINISHED_JOB_STATES.includes(state)) {
+    if (state !== current.state) updates.finished_at = now;
+    if (state === 'succeeded') updates.progress = 100;
+  }
+
+  // The state match guards against a concurrent update moving the job first
+  const { data: updated, error } = await supabase
+    .from('jobs')
+    .update(updates)
+    .eq('id', current.id)
+    .eq('state', current.state)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[Jobs] Failed to update job for ${chatId}:`, error);
+    return { ok: false, status: 500, error: 'Failed to update job' };
+  }
+
+  if (!updated) {
+    return { ok: false, status: 409, error: 'Job changed concurrently, retry the update' };
+  }
+
+  return { ok: true, job: updated as Job };
+}
+
+/**
+ * Move the job along with its message's new delivery status
+ */
+export async function syncJobWithStatus(
+  supabase: SupabaseClient,
+  chatId: string,
+  status: ChatStatus
+): Promise<void> {
+  const state = STATE_FOR_STATUS[status];
+  if (!state) return;
+
+  const result = await updateJob(supabase, chatId, { state });
+
+  // 404 (message sent before jobs existed) and 409 (already there) are expected
+  if (!result.ok && result.status === 500) {
+    console.error(`[Jobs] Failed to sync job for ${chatId} to ${status}`);
+  }
+}
@@ -0,0 +1,325 @@
+/**
+ * Markdown Module
+ * Parses the Markdown subset used in bot messages (emphasis, lists, headings,
+ * code and blockquotes) into a small tree. The tree is rendered as React
+ * elements, never as HTML, so message text can't inject markup.
+ * Links and bare URLs are still handled by the URL processing module.
+ */
+
+import { LinkKind, parseMessageToSegments, URL_PATTERN } from './url-processing';
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'link'; text: string; href: string; kind: LinkKind }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: InlineNode[] }
+  | { type: 'break' };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'code_block'; language: string | null; text: string }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: BlockNode[][] }
+  | { type: 'rule' };
+
+// Deeper quotes, lists and emphasis are left as plain text
+const MAX_DEPTH = 8;
+
+const FENCE = /^( {0,3})(`{3,}|~{3,})[ \t]*([\w+#.-]*)[^`]*$/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM = /^( {0,3})(?:([-*+])|(\d{1,9})[.)])([ \t]+)(.*)$/;
+
+// Alternatives are tried left to right at each position: escapes, code spans and
+// links come first so their contents are never read as emphasis
+const INLINE_PATTERN = new RegExp([
+  '\\\\([\\\\`*_~\\[\\]()#>+\\-.!|])',
+  '(`+)([\\s\\S]*?[^`])\\2(?!`)',
+  `(\\[[^\\[\\]\\n]{1,200}\\]\\((?:${URL_PATTERN.source})\\)|${URL_PATTERN.source})`,
+  '\\*\\*(?=\\S)([\\s\\S]*?\\S)\\*\\*',
+  '__(?=\\S)([\\s\\S]*?\\S)__',
+  '~~(?=\\S)([\\s\\S]*?\\S)~~',
+  '\\*(?=[^\\s*])([\\s\\S]*?[^\\s*])\\*',
+  '_(?=[^\\s_])([\\s\\S]*?[^\\s_])_',
+].join('|'), 'gi');
+
+interface ListItemMatch {
+  ordered: boolean;
+  number: number;
+  // Column where the item text starts; continuation lines are indented to it
+  contentOffset: number;
+  text: string;
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function matchListItem(line: string): ListItemMatch | null {
+  const match = line.match(LIST_ITEM);
+  if (!match) return null;
+
+  const [, indent, bullet, number, spacing, text] = match;
+  const markerLength = bullet ? 1 : number.length + 1;
+
+  return {
+    ordered: !bullet,
+    number: bullet ? 1 : parseInt(number, 10),
+    contentOffset: indent.length + markerLength + Math.min(spacing.length, 4),
+    text,
+  };
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return !!char && /[a-zA-Z0-9\u00C0-\u024F]/.test(char);
+}
+
+/**
+ * Add text, turning newlines into line breaks as chat messages always have
+ */
+function pushText(nodes: InlineNode[], text: string): void {
+  const lines = text.split('\n');
+  for (let index = 0; index < lines.length; index++) {
+    if (index > 0) nodes.push({ type: 'break' });
+    if (lines[index]) nodes.push({ type: 'text', text: lines[index] });
+  }
+}
+
+/**
+ * Parse inline formatting within a paragraph or heading
+ */
+export function parseInline(text: string, depth = 0): InlineNode[] {
+  const nodes: InlineNode[] = [];
+
+  if (depth >= MAX_DEPTH) {
+    pushText(nodes, text);
+    return nodes;
+  }
+
+  const pattern = new RegExp(INLINE_PATTERN.source, 'gi');
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const [whole, escaped, , code, link, strong, strongUnderscore, del, em, emUnderscore] = match;
+    const start = match.index;
+    const end = start + whole.length;
+
+    // Underscores inside words (snake_case, file names) are not emphasis
+    if ((strongUnderscore !== undefined || emUnderscore !== undefined)
+      && (isWordChar(text[start - 1]) || isWordChar(text[end]))) {
+      pattern.lastIndex = start + 1;
+      continue;
+    }
+
+    pushText(nodes, text.slice(cursor, start));
+    cursor = end;
+
+    if (escaped !== undefined) {
+      nodes.push({ type: 'text', text: escaped });
+    } else if (code !== undefined) {
+      // Like CommonMark, one space of padding on each side is dropped
+      const trimmed = /^ [\s\S]*[^ ][\s\S]* $/.test(code) ? code.slice(1, -1) : code;
+      nodes.push({ type: 'code', text: trimmed.replace(/\n/g, ' ') });
+    } else if (link !== undefined) {
+      // Labels, Drive rewriting and trailing punctuation are handled there
+      for (const segment of parseMessageToSegments(link)) {
+        if (segment.type === 'link' && segment.href) {
+          nodes.push({ type: 'link', text: segment.content, href: segment.href, kind: segment.kind || 'site' });
+        } else {
+          pushText(nodes, segment.content);
+        }
+      }
+    } else if (strong !== undefined || strongUnderscore !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongUnderscore, depth + 1) });
+    } else if (del !== undefined) {
+      nodes.push({ type: 'del', children: parseInline(del, depth + 1) });
+    } else {
+      nodes.push({ type: 'em', children: parseInline(em ?? emUnderscore, depth + 1) });
+    }
+  }
+
+  pushText(nodes, text.slice(cursor));
+  return nodes;
+}
+
+/**
+ * Whether a line starts a block that ends the current paragraph
+ */
+function startsBlock(line: string): boolean {
+  if (FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line)) {
+    return true;
+  }
+  // Only "1." can interrupt a paragraph, so "in\n2024. we" stays a sentence
+  const item = matchListItem(line);
+  return !!item && (!item.ordered || item.number === 1);
+}
+
+/**
+ * Parse a list starting at lines[start]; returns the list and the next line index
+ */
+function parseList(lines: string[], start: number, depth: number): { block: BlockNode; next: number } {
+  const first = matchListItem(lines[start])!;
+  const items: BlockNode[][] = [];
+  let index = start;
+
+  while (index < lines.length) {
+    // Blank lines between items keep the list going
+    let nextLine = index;
+    while (nextLine < lines.length && isBlank(lines[nextLine])) nextLine++;
+    const item = nextLine < lines.length ? matchListItem(lines[nextLine]) : null;
+    if (!item || item.ordered !== first.ordered) break;
+    index = nextLine + 1;
+
+    const body = [item.text];
+
+    while (index < lines.length) {
+      const line = lines[index];
+
+      if (isBlank(line)) {
+        let ahead = index;
+        while (ahead < lines.length && isBlank(lines[ahead])) ahead++;
+        if (ahead < lines.length && indentOf(lines[ahead]) >= item.contentOffset) {
+          body.push(...lines.slice(index, ahead).map(() => ''));
+          index = ahead;
+          continue;
+        }
+        break;
+      }
+
+      // Indented lines belong to the item, including nested lists
+      const indent = indentOf(line);
+      if (indent >= 2) {
+        body.push(line.slice(Math.min(indent, item.contentOffset)));
+        index++;
+        continue;
+      }
+
+      if (matchListItem(line)) break;
+
+      // Unindented text right after the item continues its paragraph
+      if (!isBlank(body[body.length - 1]) && !startsBlock(line)) {
+        body.push(line);
+        index++;
+        continue;
+      }
+
+      break;
+    }
+
+    items.push(parseBlocks(body, depth + 1));
+  }
+
+  return {
+    block: { type: 'list', ordered: first.ordered, start: first.number, items },
+    next: index,
+  };
+}
+
+/**
+ * Parse lines into blocks
+ */
+function parseBlocks(lines: string[], depth: number): BlockNode[] {
+  const blocks: BlockNode[] = [];
+
+  if (depth >= MAX_DEPTH) {
+    const text = lines.join('\n').trim();
+    return text ? [{ type: 'paragraph', children: parseInline(text, MAX_DEPTH) }] : [];
+  }
+
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (isBlank(line)) {
+      index++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const [, indent, marker, language] = fence;
+      const closing = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`);
+      const content: string[] = [];
+      index++;
+
+      // An unclosed fence runs to the end, which is what a half-streamed message looks like
+      while (index < lines.length && !closing.test(lines[index])) {
+        const codeLine = lines[index];
+        content.push(codeLine.slice(Math.min(indent.length, indentOf(codeLine))));
+        index++;
+      }
+      index++;
+
+      blocks.push({ type: 'code_block', language: language || null, text: content.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length,
+        children: parseInline(heading[2] || '', depth),
+      });
+      index++;
+      continue;
+    }
+
+    // Checked before lists so "- - -" and "* * *" are rules
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      index++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length) {
+        const quoteLine = lines[index].match(QUOTE);
+        if (!quoteLine) break;
+        quoted.push(quoteLine[1]);
+        index++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted, depth + 1) });
+      continue;
+    }
+
+    if (matchListItem(line)) {
+      const { block, next } = parseList(lines, index, depth);
+      blocks.push(block);
+      index = next;
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    index++;
+    while (index < lines.length && !isBlank(lines[index]) && !startsBlock(lines[index])) {
+      paragraph.push(lines[index].trim());
+      index++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n'), depth) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse a message into Markdown blocks
+ */
+export function parseMarkdown(text: string): BlockNode[] {
+  const lines = text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    // Tabs in indentation count as four spaces
+    .map(line => line.replace(/^\t+/, tabs => '    '.repeat(tabs.length)));
+
+  return parseBlocks(lines, 0);
+}
@@ -0,0 +1,23 @@
+/**
+ * Message Edits Module
+ * Editing a user message shortly after sending it; the edit is forwarded
+ * to n8n as an 'edited' event for the original chat_id
+ */
+
+import { Chat } from '@/types';
+
+// Enforced by PATCH /api/chat/messages/:id; the UI uses it to hide the edit action
+export const EDIT_WINDOW_MINUTES = 15;
+export const EDIT_WINDOW_MS = EDIT_WINDOW_MINUTES * 60 * 1000;
+
+/**
+ * Whether a message can still be edited
+ * Only user messages that have been saved, within the edit window
+ */
+export function isEditable(chat: Chat, now = Date.now()): boolean {
+  return (
+    chat.sender === 'user' &&
+    !chat.id.startsWith('optimistic-') &&
+    now - new Date(chat.created_at).getTime() < EDIT_WINDOW_MS
+  );
+}
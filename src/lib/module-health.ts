@@ -0,0 +1,152 @@
+/**
+ * Module Health Module
+ * Per-module dispatch statistics and circuit breaker for n8n webhooks
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ModuleType, ModuleHealth, ModuleHealthStatus } from '@/types';
+
+// Consecutive failures that open the circuit
+export const CIRCUIT_FAILURE_THRESHOLD = 5;
+
+// How long an open circuit waits before letting a single trial request through
+export const CIRCUIT_COOLDOWN_MS = 2 * 60 * 1000;
+
+// Average latency above this marks a module as degraded
+const SLOW_LATENCY_MS = 5 * 1000;
+
+// Weight of the newest sample in the moving latency average
+const LATENCY_SMOOTHING = 0.2;
+
+/**
+ * Load the health row for a module, if any dispatch has been recorded
+ */
+export async function getModuleHealthRow(
+  supabase: SupabaseClient,
+  module: ModuleType
+): Promise<ModuleHealth | null> {
+  const { data, error } = await supabase
+    .from('module_health')
+    .select('*')
+    .eq('module', module)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[Module Health] Failed to load health for ${module}:`, error);
+    return null;
+  }
+
+  return data as ModuleHealth | null;
+}
+
+/**
+ * Summarize a health row as the badge shown in the chat header
+ */
+export function getHealthStatus(health: ModuleHealth | null): ModuleHealthStatus {
+  if (!health) return 'online';
+  if (health.circuit_state === 'open') return 'offline';
+  if (health.circuit_state === 'half_open') return 'degraded';
+  if (health.consecutive_failures > 0) return 'degraded';
+  if (health.avg_latency_ms !== null && health.avg_latency_ms > SLOW_LATENCY_MS) return 'degraded';
+  return 'online';
+}
+
+/**
+ * Check if the circuit lets a dispatch through
+ * An open circuit admits one trial request per cooldown period (half-open)
+ */
+export async function canDispatch(
+  supabase: SupabaseClient,
+  module: ModuleType
+): Promise<{ allowed: boolean; retryAt?: Date }> {
+  const health = await getModuleHealthRow(supabase, module);
+
+  if (!health || health.circuit_state === 'closed') {
+    return { allowed: true };
+  }
+
+  const openedAt = health.opened_at ? new Date(health.opened_at).getTime() : 0;
+  const retryAt = new Date(openedAt + CIRCUIT_COOLDOWN_MS);
+
+  if (Date.now() < retryAt.getTime()) {
+    return { allowed: false, retryAt };
+  }
+
+  // Claim the trial; the opened_at match ensures only one caller gets it
+  const { data: claimed } = await supabase
+    .from('module_health')
+    .update({
+      circuit_state: 'half_open',
+      opened_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('module', module)
+    .eq('opened_at', health.opened_at)
+    .select('module')
+    .maybeSingle();
+
+  if (!claimed) {
+    return { allowed: false, retryAt: new Date(Date.now() + CIRCUIT_COOLDOWN_MS) };
+  }
+
+  console.log(`[Module Health] Circuit for ${module} half-open, sending trial request`);
+  return { allowed: true };
+}
+
+/**
+ * Record the outcome of a webhook request and update the circuit
+ */
+export async function recordDispatchResult(
+  supabase: SupabaseClient,
+  module: ModuleType,
+  result: { ok: boolean; latencyMs: number; error?: string }
+): Promise<void> {
+  const health = await getModuleHealthRow(supabase, module);
+  const now = new Date().toISOString();
+
+  const previousLatency = health?.avg_latency_ms ?? null;
+  const avgLatency = previousLatency === null
+    ? result.latencyMs
+    : Math.round(previousLatency * (1 - LATENCY_SMOOTHING) + result.latencyMs * LATENCY_SMOOTHING);
+
+  const updates: Record<string, unknown> = {
+    module,
+    avg_latency_ms: avgLatency,
+    total_successes: (health?.total_successes || 0) + (result.ok ? 1 : 0),
+    total_failures: (health?.total_failures || 0) + (result.ok ? 0 : 1),
+    updated_at: now,
+  };
+
+  if (result.ok) {
+    if (health && health.circuit_state !== 'closed') {
+      console.log(`[Module Health] Circuit for ${module} closed`);
+    }
+    updates.circuit_state = 'closed';
+    updates.consecutive_failures = 0;
+    updates.opened_at = null;
+    updates.last_success_at = now;
+  } else {
+    const consecutiveFailures = (health?.consecutive_failures || 0) + 1;
+    const shouldOpen = health?.circuit_state === 'half_open' || consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD;
+
+    updates.consecutive_failures = consecutiveFailures;
+    updates.last_failure_at = now;
+    updates.last_error = result.error?.slice(0, 500) || null;
+
+    if (shouldOpen) {
+      if (health?.circuit_state !== 'open') {
+        console.warn(`[Module Health] Circuit for ${module} opened after ${consecutiveFailures} failures`);
+      }
+      updates.circuit_state = 'open';
+      updates.opened_at = now;
+    } else {
+      updates.circuit_state = health?.circuit_state || 'closed';
+    }
+  }
+
+  const { error } = await supabase.from('module_health').upsert(updates);
+
+  if (error) {
+    console.error(`[Module Health] Failed to record dispatch result for ${module}:`, error);
+  }
+}
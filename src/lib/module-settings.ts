@@ -0,0 +1,135 @@
+/**
+ * Module Settings Module
+ * Per-module webhook routing stored in the database, cached server-side
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ModuleType, ModuleSettings } from '@/types';
+
+// Other server instances pick up admin changes within this window
+const SETTINGS_CACHE_TTL_MS = 60 * 1000;
+
+export type WebhookSource = 'module' | 'module_env' | 'default' | 'default_env';
+
+interface SettingsCache {
+  modules: Partial<Record<ModuleType, ModuleSettings>>;
+  defaultWebhookUrl: string | null;
+  expiresAt: number;
+}
+
+let settingsCache: SettingsCache | null = null;
+
+// Module-specific webhook URLs from the environment
+export function getEnvWebhookUrl(module: ModuleType): string | undefined {
+  const moduleWebhookEnvMap: Record<ModuleType, string> = {
+    ga: 'N8N_WEBHOOK_URL_GA',
+    kdr: 'N8N_WEBHOOK_URL_KDR',
+    invoice: 'N8N_WEBHOOK_URL_INVOICE',
+    kdr_inv: 'N8N_WEBHOOK_URL_KDR_INV',
+    kdr_sellout: 'N8N_WEBHOOK_URL_KDR_SELLOUT',
+  };
+
+  return process.env[moduleWebhookEnvMap[module]];
+}
+
+/**
+ * Drop cached settings after an admin change
+ */
+export function invalidateModuleSettingsCache(): void {
+  settingsCache = null;
+}
+
+/**
+ * Load module rows and the global default webhook, using the cache when fresh
+ */
+async function loadSettings(supabase: SupabaseClient): Promise<SettingsCache> {
+  if (settingsCache && settingsCache.expiresAt > Date.now()) {
+    return settingsCache;
+  }
+
+  const [modulesResult, appResult] = await Promise.all([
+    supabase.from('module_settings').select('*'),
+    supabase.from('app_settings').select('webhook_url').eq('id', 'default').maybeSingle(),
+  ]);
+
+  if (modulesResult.error) {
+    console.error('[Module Settings] Failed to load module settings:', modulesResult.error);
+  }
+  if (appResult.error) {
+    console.error('[Module Settings] Failed to load app settings:', appResult.error);
+  }
+
+  const modules: SettingsCache['modules'] = {};
+  for (const row of (modulesResult.data || []) as ModuleSettings[]) {
+    modules[row.module] = row;
+  }
+
+  const loaded: SettingsCache = {
+    modules,
+    defaultWebhookUrl: appResult.data?.webhook_url || null,
+    expiresAt: Date.now() + SETTINGS_CACHE_TTL_MS,
+  };
+
+  // Don't cache a failed lookup, the next request should retry
+  if (!modulesResult.error && !appResult.error) {
+    settingsCache = loaded;
+  }
+
+  return loaded;
+}
+
+/**
+ * Get the stored settings row for a module, if any
+ */
+export async function getModuleSettings(
+  supabase: SupabaseClient,
+  module: ModuleType
+): Promise<ModuleSettings | null> {
+  const settings = await loadSettings(supabase);
+  return settings.modules[module] || null;
+}
+
+/**
+ * Resolve the webhook URL for a module and where it came from
+ * Database settings win over environment variables at each level:
+ * module row → N8N_WEBHOOK_URL_<MODULE> → admin default → N8N_WEBHOOK_URL
+ */
+export async function resolveWebhook(
+  supabase: SupabaseClient,
+  module: ModuleType
+): Promise<{ url: string; source: WebhookSource } | null> {
+  const settings = await loadSettings(supabase);
+
+  const moduleUrl = settings.modules[module]?.webhook_url;
+  if (moduleUrl) return { url: moduleUrl, source: 'module' };
+
+  const moduleEnvUrl = getEnvWebhookUrl(module);
+  if (moduleEnvUrl) return { url: moduleEnvUrl, source: 'module_env' };
+
+  if (settings.defaultWebhookUrl) return { url: settings.defaultWebhookUrl, source: 'default' };
+
+  if (process.env.N8N_WEBHOOK_URL) return { url: process.env.N8N_WEBHOOK_URL, source: 'default_env' };
+
+  return null;
+}
+
+/**
+ * Webhook told about cancelled messages: the module's cancel URL, else its main webhook
+ */
+export async function getCancelWebhookUrl(
+  supabase: SupabaseClient,
+  module: ModuleType
+): Promise<string | undefined> {
+  const settings = await loadSettings(supabase);
+  return settings.modules[module]?.cancel_webhook_url || (await resolveWebhook(supabase, module))?.url;
+}
+
+/**
+ * Resolve just the webhook URL for a module
+ */
+export async function getWebhookUrl(
+  supabase: SupabaseClient,
+  module: ModuleType
+): Promise<string | undefined> {
+  return (await resolveWebhook(supabase, module))?.url;
+}
@@ -0,0 +1,265 @@
+/**
+ * Webhook Outbox Module
+ * Durable delivery of chat messages to n8n webhooks with retries
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ModuleType, N8nPayload, OutboxEntry, OutboxStatus } from '@/types';
+import { updateChatStatus } from '@/lib/chat-status';
+import { updateJob } from '@/lib/jobs';
+import { signRequest, isSigningEnabled } from '@/lib/webhook-signing';
+import { getModuleSettings, getWebhookUrl, getCancelWebhookUrl } from '@/lib/module-settings';
+import { canDispatch, recordDispatchResult } from '@/lib/module-health';
+
+// Delivery is abandoned after this many attempts
+export const OUTBOX_MAX_ATTEMPTS = 6;
+
+// Exponential backoff: 15s, 30s, 1m, 2m, 4m ... capped at 30 minutes
+const BASE_RETRY_DELAY_MS = 15 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+// How long a claimed entry stays locked before another worker may retry it
+const CLAIM_LEASE_MS = 60 * 1000;
+
+// Abort webhook requests that hang longer than this
+const DISPATCH_TIMEOUT_MS = 10 * 1000;
+
+export interface DrainSummary {
+  processed: number;
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
+/**
+ * Delay before the next attempt, given how many attempts have been made
+ */
+export function getRetryDelay(attempts: number): number {
+  const delay = BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0));
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Queue an n8n payload for delivery
+ */
+export async function enqueueDispatch(
+  supabase: SupabaseClient,
+  payload: N8nPayload
+): Promise<OutboxEntry> {
+  const { data, error } = await supabase
+    .from('webhook_outbox')
+    .insert({
+      chat_id: payload.chat_id,
+      user_id: payload.user_id,
+      module: payload.module,
+      payload,
+      status: 'pending',
+      max_attempts: OUTBOX_MAX_ATTEMPTS,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to enqueue dispatch: ${error.message}`);
+  }
+
+  return data as OutboxEntry;
+}
+
+/**
+ * POST a payload to the module webhook
+ * latencyMs is only set when a request actually reached the network
+ */
+async function deliver(
+  supabase: SupabaseClient,
+  module: ModuleType,
+  payload: N8nPayload
+): Promise<{ ok: boolean; error?: string; latencyMs?: number }> {
+  const webhookUrl = payload.event === 'cancelled'
+    ? await getCancelWebhookUrl(supabase, module)
+    : await getWebhookUrl(supabase, module);
+
+  if (!webhookUrl) {
+    return { ok: false, error: `No webhook URL configured for module: ${module}` };
+  }
+
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+
+  // Signed on every attempt so retries carry a fresh timestamp
+  const settings = await getModuleSettings(supabase, module);
+  if (settings?.sign_requests || isSigningEnabled(module)) {
+    const signingSecret = process.env.N8N_WEBHOOK_SIGNING_SECRET;
+    if (!signingSecret) {
+      return { ok: false, error: `Signing enabled for module ${module} but N8N_WEBHOOK_SIGNING_SECRET is not set` };
+    }
+    Object.assign(headers, signRequest(signingSecret, body));
+  }
+
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(DISPATCH_TIMEOUT_MS),
+    });
+    const latencyMs = Date.now() - startedAt;
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      return { ok: false, error: `HTTP ${response.status}: ${text.slice(0, 500)}`, latencyMs };
+    }
+
+    return { ok: true, latencyMs };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+      latencyMs: Date.now() - startedAt,
+    };
+  }
+}
+
+/**
+ * Attempt delivery of a single outbox entry
+ * Returns the resulting status, or null if another worker claimed the entry first
+ */
+export async function processOutboxEntry(
+  supabase: SupabaseClient,
+  entry: OutboxEntry
+): Promise<OutboxStatus | null> {
+  const attempts = entry.attempts + 1;
+
+  // While the module's circuit is open, push the entry back without using an attempt
+  const circuit = await canDispatch(supabase, entry.module);
+  if (!circuit.allowed) {
+    await supabase
+      .from('webhook_outbox')
+      .update({
+        next_attempt_at: (circuit.retryAt || new Date()).toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', entry.id)
+      .eq('status', entry.status)
+      .eq('attempts', entry.attempts);
+
+    return 'pending';
+  }
+
+  // Claim the entry; the attempts/status match guards against concurrent workers
+  const { data: claimed, error: claimError } = await supabase
+    .from('webhook_outbox')
+    .update({
+      status: 'processing',
+      attempts,
+      next_attempt_at: new Date(Date.now() + CLAIM_LEASE_MS).toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', entry.id)
+    .eq('status', entry.status)
+    .eq('attempts', entry.attempts)
+    .select()
+    .maybeSingle();
+
+  if (claimError) {
+    console.error(`[Outbox] Failed to claim entry ${entry.id}:`, claimError);
+    return null;
+  }
+
+  if (!claimed) {
+    return null;
+  }
+
+  const result = await deliver(supabase, entry.module, entry.payload);
+  const now = new Date();
+
+  if (result.latencyMs !== undefined) {
+    await recordDispatchResult(supabase, entry.module, {
+      ok: result.ok,
+      latencyMs: result.latencyMs,
+      error: result.error,
+    });
+  }
+
+  let status: OutboxStatus;
+  const updates: Record<string, unknown> = { updated_at: now.toISOString() };
+
+  if (result.ok) {
+    status = 'delivered';
+    updates.delivered_at = now.toISOString();
+    updates.last_error = null;
+  } else if (attempts >= entry.max_attempts) {
+    status = 'failed';
+    updates.last_error = result.error;
+    console.error(`[Outbox] Giving up on entry ${entry.id} after ${attempts} attempts:`, result.error);
+  } else {
+    status = 'pending';
+    updates.last_error = result.error;
+    updates.next_attempt_at = new Date(now.getTime() + getRetryDelay(attempts)).toISOString();
+    console.warn(`[Outbox] Attempt ${attempts} failed for entry ${entry.id}:`, result.error);
+  }
+
+  updates.status = status;
+
+  const { error: updateError } = await supabase
+    .from('webhook_outbox')
+    .update(updates)
+    .eq('id', entry.id);
+
+  if (updateError) {
+    console.error(`[Outbox] Failed to record result for entry ${entry.id}:`, updateError);
+  }
+
+  // Reflect the outcome on the chat bubble; events about a message leave its status alone
+  if (entry.payload.event) {
+    return status;
+  }
+
+  if (status === 'delivered') {
+    await updateChatStatus(supabase, entry.chat_id, 'dispatched');
+  } else if (status === 'failed') {
+    await updateChatStatus(supabase, entry.chat_id, 'failed');
+    await updateJob(supabase, entry.chat_id, { state: 'failed', error: result.error || 'Delivery failed' });
+  }
+
+  return status;
+}
+
+/**
+ * Process all entries that are due, oldest first
+ */
+export async function drainOutbox(
+  supabase: SupabaseClient,
+  limit = 25
+): Promise<DrainSummary> {
+  const summary: DrainSummary = { processed: 0, delivered: 0, retrying: 0, failed: 0 };
+
+  // Entries left in 'processing' past their lease belong to a crashed worker
+  const { data: entries, error } = await supabase
+    .from('webhook_outbox')
+    .select('*')
+    .in('status', ['pending', 'processing'])
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load outbox: ${error.message}`);
+  }
+
+  for (const entry of (entries || []) as OutboxEntry[]) {
+    const status = await processOutboxEntry(supabase, entry);
+    if (!status) continue;
+
+    summary.processed++;
+    if (status === 'delivered') summary.delivered++;
+    else if (status === 'failed') summary.failed++;
+    else summary.retrying++;
+  }
+
+  return summary;
+}
@@ -0,0 +1,117 @@
+/**
+ * Quick Replies Module
+ * Suggested actions on bot messages, sent back as a message when clicked
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ActionMarker, ModuleType, QuickReplyAction, QuickReplyStyle } from '@/types';
+
+export const MAX_QUICK_REPLIES = 10;
+export const MAX_QUICK_REPLY_LABEL_LENGTH = 40;
+export const MAX_QUICK_REPLY_VALUE_LENGTH = 500;
+
+const QUICK_REPLY_STYLES: QuickReplyStyle[] = ['primary', 'secondary', 'danger'];
+
+/**
+ * Validate actions from a callback payload
+ * Unknown properties are dropped so only label, value and style are stored
+ */
+export function validateQuickReplies(
+  raw: unknown
+): { valid: true; actions: QuickReplyAction[] } | { valid: false; error: string } {
+  if (!Array.isArray(raw)) {
+    return { valid: false, error: 'actions must be an array' };
+  }
+
+  if (raw.length > MAX_QUICK_REPLIES) {
+    return { valid: false, error: `At most ${MAX_QUICK_REPLIES} actions are allowed` };
+  }
+
+  const actions: QuickReplyAction[] = [];
+  const values = new Set<string>();
+
+  for (let index = 0; index < raw.length; index++) {
+    const { label, value, style } = (raw[index] || {}) as Record<string, unknown>;
+
+    if (typeof label !== 'string' || !label.trim() || label.length > MAX_QUICK_REPLY_LABEL_LENGTH) {
+      return { valid: false, error: `actions[${index}].label must be 1-${MAX_QUICK_REPLY_LABEL_LENGTH} characters` };
+    }
+
+    if (typeof value !== 'string' || !value.trim() || value.length > MAX_QUICK_REPLY_VALUE_LENGTH) {
+      return { valid: false, error: `actions[${index}].value must be 1-${MAX_QUICK_REPLY_VALUE_LENGTH} characters` };
+    }
+
+    if (style !== undefined && !QUICK_REPLY_STYLES.includes(style as QuickReplyStyle)) {
+      return { valid: false, error: `actions[${index}].style must be one of ${QUICK_REPLY_STYLES.join(', ')}` };
+    }
+
+    // The value identifies the clicked action, so it has to be unique
+    if (values.has(value)) {
+      return { valid: false, error: `actions[${index}].value is a duplicate` };
+    }
+    values.add(value);
+
+    actions.push({ label: label.trim(), value, ...(style ? { style: style as QuickReplyStyle } : {}) });
+  }
+
+  return { valid: true, actions };
+}
+
+/**
+ * Mark a quick reply as used, at most once per bot message
+ * Returns an error message if the action can't be used
+ */
+export async function claimQuickReply(
+  supabase: SupabaseClient,
+  options: { userId: string; module: ModuleType; action: ActionMarker }
+): Promise<{ ok: true } | { ok: false; status: number; error: string }> {
+  const { userId, module, action } = options;
+
+  const { data: botChat } = await supabase
+    .from('chats')
+    .select('id, actions, action_selected')
+    .eq('id', action.chat_id)
+    .eq('user_id', userId)
+    .eq('module', module)
+    .eq('sender', 'bot')
+    .maybeSingle();
+
+  const actions = (botChat?.actions || []) as QuickReplyAction[];
+
+  if (!botChat || !actions.some(a => a.value === action.value)) {
+    return { ok: false, status: 400, error: 'Unknown action' };
+  }
+
+  // The null check makes concurrent clicks race for a single winner
+  const { data: claimed, error } = await supabase
+    .from('chats')
+    .update({ action_selected: action.value })
+    .eq('id', action.chat_id)
+    .is('action_selected', null)
+    .select('id');
+
+  if (error) {
+    console.error(`[Quick Replies] Failed to claim action on ${action.chat_id}:`, error);
+    return { ok: false, status: 500, error: 'Failed to use action' };
+  }
+
+  if (!claimed || claimed.length === 0) {
+    return { ok: false, status: 409, error: 'This action has already been used' };
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Undo a claim when the reply could not be saved
+ */
+export async function releaseQuickReply(
+  supabase: SupabaseClient,
+  action: ActionMarker
+): Promise<void> {
+  await supabase
+    .from('chats')
+    .update({ action_selected: null })
+    .eq('id', action.chat_id)
+    .eq('action_selected', action.value);
+}
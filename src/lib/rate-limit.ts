@@ -0,0 +1,264 @@
+/**
+ * Rate Limit Module
+ * Token buckets keyed by scope, user and module, with a pluggable store:
+ * in-memory for development, Postgres or a Redis REST endpoint in production
+ */
+
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ModuleType, RateLimitRule, RateLimitScope } from '@/types';
+import { getModuleSettings } from '@/lib/module-settings';
+
+export const RATE_LIMIT_SCOPES: RateLimitScope[] = ['send', 'upload', 'callback'];
+
+// Used for any scope a module doesn't override; per_minute 0 disables the limit
+export const RATE_LIMIT_DEFAULTS: Record<RateLimitScope, RateLimitRule> = {
+  send: { per_minute: 10, burst: 5 },
+  upload: { per_minute: 30, burst: 10 },
+  callback: { per_minute: 120, burst: 60 },
+};
+
+export const MAX_RATE_PER_MINUTE = 10000;
+export const MAX_RATE_BURST = 1000;
+
+// Memory store entries are swept once it holds this many buckets
+const MEMORY_STORE_SWEEP_SIZE = 10000;
+
+export interface TakeResult {
+  allowed: boolean;
+  // How long until a token is available, 0 when allowed
+  retryAfterMs: number;
+}
+
+export interface RateLimitStore {
+  name: string;
+  take(key: string, rule: RateLimitRule): Promise<TakeResult>;
+}
+
+/**
+ * Refill a bucket for the time since it was last used, then take one token
+ */
+function takeToken(
+  bucket: { tokens: number; updatedAt: number } | undefined,
+  rule: RateLimitRule,
+  now: number
+): { bucket: { tokens: number; updatedAt: number }; result: TakeResult } {
+  const ratePerMs = rule.per_minute / 60000;
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+  const tokens = bucket ? Math.min(rule.burst, bucket.tokens + elapsed * ratePerMs) : rule.burst;
+
+  if (tokens >= 1) {
+    return { bucket: { tokens: tokens - 1, updatedAt: now }, result: { allowed: true, retryAfterMs: 0 } };
+  }
+
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: { allowed: false, retryAfterMs: Math.ceil((1 - tokens) / ratePerMs) },
+  };
+}
+
+/**
+ * Per-process buckets; each server instance counts separately
+ */
+export function createMemoryStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number; fullAt: number }>();
+
+  return {
+    name: 'memory',
+    async take(key, rule) {
+      const now = Date.now();
+
+      // Buckets that have refilled completely carry no state worth keeping
+      if (buckets.size >= MEMORY_STORE_SWEEP_SIZE) {
+        buckets.forEach((bucket, bucketKey) => {
+          if (bucket.fullAt <= now) buckets.delete(bucketKey);
+        });
+      }
+
+      const { bucket, result } = takeToken(buckets.get(key), rule, now);
+      const msToFull = ((rule.burst - bucket.tokens) / rule.per_minute) * 60000;
+      buckets.set(key, { ...bucket, fullAt: now + msToFull });
+
+      return result;
+    },
+  };
+}
+
+/**
+ * Buckets in the rate_limit_buckets table, updated atomically by take_rate_limit_token()
+ */
+export function createPostgresStore(supabase: SupabaseClient): RateLimitStore {
+  return {
+    name: 'postgres',
+    async take(key, rule) {
+      const { data, error } = await supabase
+        .rpc('take_rate_limit_token', {
+          p_key: key,
+          p_capacity: rule.burst,
+          p_per_minute: rule.per_minute,
+        })
+        .single();
+
+      if (error) {
+        throw new Error(`take_rate_limit_token failed: ${error.message}`);
+      }
+
+      const row = data as { allowed: boolean; retry_after_ms: number };
+      return { allowed: row.allowed, retryAfterMs: row.retry_after_ms };
+    },
+  };
+}
+
+// Runs atomically in Redis; uses the server clock so app instances can't disagree
+const REDIS_TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2]) / 60000
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+local allowed = 0
+local retry = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+else
+  retry = math.ceil((1 - tokens) / rate)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / rate) + 1000)
+return {allowed, retry}
+`;
+
+/**
+ * Buckets in Redis through a REST endpoint that accepts commands as JSON arrays (e.g. Upstash)
+ */
+export function createRedisStore(url: string, token: string): RateLimitStore {
+  return {
+    name: 'redis',
+    async take(key, rule) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(['EVAL', REDIS_TAKE_SCRIPT, '1', `ratelimit:${key}`, String(rule.burst), String(rule.per_minute)]),
+        cache: 'no-store',
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data || !Array.isArray(data.result)) {
+        throw new Error(`Redis rate limit call failed: ${data?.error || response.status}`);
+      }
+
+      const [allowed, retryAfterMs] = data.result as [number, number];
+      return { allowed: allowed === 1, retryAfterMs };
+    },
+  };
+}
+
+let memoryStore: RateLimitStore | null = null;
+
+/**
+ * Pick the store from RATE_LIMIT_STORE (memory, postgres or redis)
+ * Defaults to postgres in production and memory otherwise
+ */
+export function getRateLimitStore(supabase: SupabaseClient): RateLimitStore {
+  const configured = process.env.RATE_LIMIT_STORE
+    || (process.env.NODE_ENV === 'production' ? 'postgres' : 'memory');
+
+  if (configured === 'postgres') {
+    return createPostgresStore(supabase);
+  }
+
+  if (configured === 'redis') {
+    const url = process.env.RATE_LIMIT_REDIS_URL;
+    const token = process.env.RATE_LIMIT_REDIS_TOKEN;
+    if (url && token) {
+      return createRedisStore(url, token);
+    }
+    console.error('[Rate Limit] RATE_LIMIT_STORE=redis needs RATE_LIMIT_REDIS_URL and RATE_LIMIT_REDIS_TOKEN, using memory');
+  } else if (configured !== 'memory') {
+    console.error(`[Rate Limit] Unknown RATE_LIMIT_STORE "${configured}", using memory`);
+  }
+
+  memoryStore ??= createMemoryStore();
+  return memoryStore;
+}
+
+/**
+ * Effective limits for a module, with defaults for scopes it doesn't override
+ */
+export function resolveRateLimits(
+  overrides: Partial<Record<RateLimitScope, RateLimitRule>> | null | undefined
+): Record<RateLimitScope, RateLimitRule> {
+  return {
+    send: overrides?.send ?? RATE_LIMIT_DEFAULTS.send,
+    upload: overrides?.upload ?? RATE_LIMIT_DEFAULTS.upload,
+    callback: overrides?.callback ?? RATE_LIMIT_DEFAULTS.callback,
+  };
+}
+
+/**
+ * Validate a rate limit override from the admin panel
+ */
+export function validateRateLimitRule(
+  raw: unknown
+): { valid: true; value: RateLimitRule } | { valid: false; error: string } {
+  const { per_minute, burst } = (raw || {}) as Record<string, unknown>;
+
+  if (!Number.isInteger(per_minute) || (per_minute as number) < 0 || (per_minute as number) > MAX_RATE_PER_MINUTE) {
+    return { valid: false, error: `Rate must be between 0 and ${MAX_RATE_PER_MINUTE} per minute` };
+  }
+
+  if (!Number.isInteger(burst) || (burst as number) < 1 || (burst as number) > MAX_RATE_BURST) {
+    return { valid: false, error: `Burst must be between 1 and ${MAX_RATE_BURST}` };
+  }
+
+  return { valid: true, value: { per_minute: per_minute as number, burst: burst as number } };
+}
+
+/**
+ * Take a token for a request; resolves to the wait in seconds when the limit is hit
+ * Store failures let the request through, a broken limiter shouldn't take the app down
+ */
+export async function checkRateLimit(
+  supabase: SupabaseClient,
+  options: { scope: RateLimitScope; userId: string; module: ModuleType }
+): Promise<{ ok: true } | { ok: false; retryAfterSeconds: number }> {
+  const { scope, userId, module } = options;
+  const settings = await getModuleSettings(supabase, module);
+  const rule = resolveRateLimits(settings?.rate_limits)[scope];
+
+  if (rule.per_minute === 0) {
+    return { ok: true };
+  }
+
+  const store = getRateLimitStore(supabase);
+
+  try {
+    const result = await store.take(`${scope}:${userId}:${module}`, rule);
+    if (result.allowed) {
+      return { ok: true };
+    }
+
+    console.warn(`[Rate Limit] ${scope} limit hit for user ${userId}, module ${module}`);
+    return { ok: false, retryAfterSeconds: Math.max(1, Math.ceil(result.retryAfterMs / 1000)) };
+  } catch (error) {
+    console.error(`[Rate Limit] ${store.name} store failed, allowing request:`, error);
+    return { ok: true };
+  }
+}
+
+/**
+ * 429 response with Retry-After
+ */
+export function tooManyRequests(retryAfterSeconds: number, error: string) {
+  return NextResponse.json(
+    { error, retry_after: retryAfterSeconds },
+    { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } }
+  );
+}
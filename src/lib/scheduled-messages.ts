@@ -0,0 +1,159 @@
+/**
+ * Scheduled Messages Module
+ * One-off and recurring messages that /api/schedules/run sends on the
+ * user's behalf, through the same path as /api/chat/send
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ScheduledMessage } from '@/types';
+import { parseCron, isValidTimeZone, getNextRun } from '@/lib/cron';
+import { sendChatMessage } from '@/lib/send-message';
+
+export interface ScheduleRunSummary {
+  processed: number;
+  sent: number;
+  deferred: number;
+  failed: number;
+}
+
+// Timing fields of a schedule as stored
+export interface ScheduleTiming {
+  cron: string | null;
+  timezone: string;
+  next_run_at: string;
+}
+
+/**
+ * Validate when a schedule runs: either `cron` (recurring) or `run_at` (once)
+ */
+export function validateScheduleTiming(
+  input: { cron?: unknown; run_at?: unknown; timezone?: unknown },
+  now = new Date()
+): { valid: true; value: ScheduleTiming } | { valid: false; error: string } {
+  const timezone = input.timezone === undefined || input.timezone === null ? 'UTC' : input.timezone;
+
+  if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+    return { valid: false, error: 'Unknown time zone' };
+  }
+
+  if (typeof input.cron === 'string' && input.cron.trim()) {
+    const cron = input.cron.trim();
+    const parsed = parseCron(cron);
+    if (!parsed.valid) return parsed;
+
+    const nextRun = getNextRun(parsed.value, now, timezone);
+    if (!nextRun) {
+      return { valid: false, error: 'Schedule never runs' };
+    }
+
+    return { valid: true, value: { cron, timezone, next_run_at: nextRun.toISOString() } };
+  }
+
+  if (typeof input.run_at !== 'string' || isNaN(Date.parse(input.run_at))) {
+    return { valid: false, error: 'Provide a cron expression or a run_at time' };
+  }
+
+  const runAt = new Date(input.run_at);
+  if (runAt.getTime() <= now.getTime()) {
+    return { valid: false, error: 'run_at must be in the future' };
+  }
+
+  return { valid: true, value: { cron: null, timezone, next_run_at: runAt.toISOString() } };
+}
+
+/**
+ * Send every due schedule once
+ * A run that finds the user rate-limited is pushed back instead of dropped
+ */
+export async function runDueSchedules(
+  supabase: SupabaseClient,
+  limit = 25
+): Promise<ScheduleRunSummary> {
+  const summary: ScheduleRunSummary = { processed: 0, sent: 0, deferred: 0, failed: 0 };
+  const now = new Date();
+
+  const { data: schedules, error } = await supabase
+    .from('scheduled_messages')
+    .select('*')
+    .eq('is_active', true)
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load scheduled messages: ${error.message}`);
+  }
+
+  for (const schedule of (schedules || []) as ScheduledMessage[]) {
+    // Runs missed while the runner was down collapse into this one
+    const parsed = schedule.cron ? parseCron(schedule.cron) : null;
+    const nextRun = parsed && parsed.valid ? getNextRun(parsed.value, now, schedule.timezone) : null;
+
+    // Claim the run; the next_run_at match guards against concurrent runners
+    const { data: claimed } = await supabase
+      .from('scheduled_messages')
+      .update({
+        next_run_at: nextRun ? nextRun.toISOString() : schedule.next_run_at,
+        is_active: !!nextRun,
+        updated_at: now.toISOString(),
+      })
+      .eq('id', schedule.id)
+      .eq('is_active', true)
+      .eq('next_run_at', schedule.next_run_at)
+      .select('id')
+      .maybeSingle();
+
+    if (!claimed) continue;
+    summary.processed++;
+
+    // Keyed on the due time, so a retried run can't send the same message twice
+    const result = await sendChatMessage(
+      { supabase, serviceClient: supabase },
+      {
+        userId: schedule.user_id,
+        payload: {
+          module: schedule.module,
+          conversation_id: schedule.conversation_id || undefined,
+          message: schedule.message,
+          attachments: schedule.attachments || undefined,
+        },
+        idempotencyKey: `schedule:${schedule.id}:${schedule.next_run_at}`,
+      }
+    );
+
+    if (!result.ok && result.status === 429) {
+      const retryAt = new Date(now.getTime() + (result.retryAfterSeconds || 60) * 1000);
+      await supabase
+        .from('scheduled_messages')
+        .update({
+          next_run_at: retryAt.toISOString(),
+          is_active: true,
+          last_error: result.error,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', schedule.id);
+
+      summary.deferred++;
+      continue;
+    }
+
+    if (!result.ok) {
+      console.error(`[Schedules] Run of ${schedule.id} failed: ${result.error}`);
+    }
+
+    await supabase
+      .from('scheduled_messages')
+      .update({
+        last_run_at: now.toISOString(),
+        last_chat_id: result.ok ? result.chat.id : null,
+        last_error: result.ok ? null : result.error,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', schedule.id);
+
+    if (result.ok) summary.sent++;
+    else summary.failed++;
+  }
+
+  return summary;
+}
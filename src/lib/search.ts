@@ -0,0 +1,62 @@
+/**
+ * Search Module
+ * Turns what the user typed into a prefix tsquery for search_chats,
+ * and splits the highlighted snippets it returns
+ */
+
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+
+// Words beyond this are ignored
+const MAX_SEARCH_TERMS = 8;
+
+// Marks around matches in search_chats snippets
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+/**
+ * Build a to_tsquery string where every word must match as a prefix
+ * ("inv mar" finds "invoice from March"); null if nothing searchable is left
+ */
+export function buildSearchQuery(text: string): string | null {
+  // ASCII punctuation splits words, like dots and dashes do in the search document
+  const words = text
+    .toLowerCase()
+    .replace(/[\s!-/:-@[-`{-~]+/g, ' ')
+    .split(' ')
+    .filter((word) => word.length > 0);
+
+  const terms: string[] = [];
+  for (let index = 0; index < words.length && terms.length < MAX_SEARCH_TERMS; index++) {
+    if (!terms.includes(words[index])) {
+      terms.push(words[index]);
+    }
+  }
+
+  if (terms.length === 0) return null;
+
+  // Quotes were stripped above, so each term is a plain lexeme
+  return terms.map((term) => `'${term}':*`).join(' & ');
+}
+
+/**
+ * Split a snippet into plain and highlighted parts
+ */
+export function splitHighlights(snippet: string): Array<{ text: string; highlighted: boolean }> {
+  const parts: Array<{ text: string; highlighted: boolean }> = [];
+  const segments = snippet.split(HIGHLIGHT_START);
+
+  for (let index = 0; index < segments.length; index++) {
+    const segment = segments[index];
+    const end = index === 0 ? -1 : segment.indexOf(HIGHLIGHT_END);
+
+    if (end === -1) {
+      if (segment) parts.push({ text: segment, highlighted: false });
+      continue;
+    }
+
+    if (end > 0) parts.push({ text: segment.slice(0, end), highlighted: true });
+    if (end + 1 < segment.length) parts.push({ text: segment.slice(end + 1), highlighted: false });
+  }
+
+  return parts;
+}
@@ -0,0 +1,267 @@
+/**
+ * Send Message Module
+ * Saves a user message and dispatches it to the module's n8n webhook.
+ * Shared by /api/chat/send and the scheduled message runner.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import { Chat, FormSubmission, ModuleType, N8nPayload, SendMessagePayload, MODULE_CONFIG } from '@/types';
+import { enqueueDispatch, processOutboxEntry } from '@/lib/outbox';
+import { getModuleSettings, getWebhookUrl } from '@/lib/module-settings';
+import { buildHistory } from '@/lib/history';
+import { claimQuickReply, releaseQuickReply } from '@/lib/quick-replies';
+import { claimFormSubmission, releaseFormSubmission, formatFormSummary } from '@/lib/forms';
+import { findIdempotentChat, isIdempotencyConflict } from '@/lib/idempotency';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { createJob } from '@/lib/jobs';
+import { resolveSendConversation, touchConversation } from '@/lib/conversations';
+
+export type SendMessageResult =
+  | { ok: true; chat: Chat; replayed: boolean }
+  | {
+      ok: false;
+      status: number;
+      error: string;
+      // Per-field form errors (400)
+      errors?: Record<string, string>;
+      // Set with status 429
+      retryAfterSeconds?: number;
+    };
+
+/**
+ * Result for a request whose Idempotency-Key already saved a message
+ */
+function replayResult(chat: Chat, module: ModuleType, conversationId?: string): SendMessageResult {
+  if (chat.module !== module || (conversationId !== undefined && chat.conversation_id !== conversationId)) {
+    return { ok: false, status: 422, error: 'Idempotency-Key was already used for a different request' };
+  }
+  return { ok: true, chat, replayed: true };
+}
+
+/**
+ * Save a user message and send it to n8n
+ * `supabase` acts for the user (their session, or the service role for scheduled sends);
+ * `serviceClient` reads settings and writes the outbox
+ */
+export async function sendChatMessage(
+  clients: { supabase: SupabaseClient; serviceClient: SupabaseClient },
+  options: { userId: string; payload: SendMessagePayload; idempotencyKey: string | null }
+): Promise<SendMessageResult> {
+  const { supabase, serviceClient } = clients;
+  const { userId, idempotencyKey } = options;
+  const { module, conversation_id, attachments, reply_to, action, form_submission } = options.payload;
+  let { message } = options.payload;
+
+  // Validate module
+  if (!Object.keys(MODULE_CONFIG).includes(module)) {
+    return { ok: false, status: 400, error: 'Invalid module' };
+  }
+
+  // Check user has access to this module
+  const { data: userData } = await supabase
+    .from('users')
+    .select('modules')
+    .eq('id', userId)
+    .single();
+
+  const userModules = (userData?.modules || []) as ModuleType[];
+
+  if (!userModules.includes(module)) {
+    return { ok: false, status: 403, error: 'Access denied to this module' };
+  }
+
+  // A retried request gets the message the first one saved, without a second dispatch
+  if (idempotencyKey) {
+    const existing = await findIdempotentChat(supabase, { userId, sender: 'user', key: idempotencyKey });
+    if (existing) {
+      console.log(`Replaying send for idempotency key ${idempotencyKey}`);
+      return replayResult(existing, module, conversation_id);
+    }
+  }
+
+  const conversationResult = await resolveSendConversation(supabase, {
+    conversationId: conversation_id,
+    userId,
+    module,
+  });
+
+  if (!conversationResult.ok) {
+    return conversationResult;
+  }
+
+  const conversation = conversationResult.conversation;
+
+  // A quoted message must be one of the user's own in this conversation
+  if (reply_to) {
+    const { data: quoted } = await supabase
+      .from('chats')
+      .select('id')
+      .eq('id', reply_to)
+      .eq('user_id', userId)
+      .eq('module', module)
+      .eq('conversation_id', conversation.id)
+      .maybeSingle();
+
+    if (!quoted) {
+      return { ok: false, status: 400, error: 'Quoted message not found' };
+    }
+  }
+
+  // Get module-specific webhook URL
+  if (!(await getWebhookUrl(serviceClient, module))) {
+    console.error(`No webhook URL configured for module: ${module}`);
+    return { ok: false, status: 500, error: 'Webhook not configured for this module' };
+  }
+
+  // A quick reply can only be used once; claim it before saving the message
+  if (action) {
+    if (typeof action.chat_id !== 'string' || typeof action.value !== 'string' || action.value !== message) {
+      return { ok: false, status: 400, error: 'Invalid action' };
+    }
+
+    const claim = await claimQuickReply(serviceClient, { userId, module, action });
+    if (!claim.ok) {
+      return { ok: false, status: claim.status, error: claim.error };
+    }
+  }
+
+  // Forms are validated against the schema the workflow sent, and submitted once
+  let formSubmission: FormSubmission | undefined;
+
+  if (form_submission) {
+    if (typeof form_submission.chat_id !== 'string' || typeof form_submission.values !== 'object') {
+      return { ok: false, status: 400, error: 'Invalid form submission' };
+    }
+
+    const claim = await claimFormSubmission(serviceClient, {
+      userId,
+      module,
+      submission: form_submission,
+    });
+
+    if (!claim.ok) {
+      if (action) await releaseQuickReply(serviceClient, action);
+      return { ok: false, status: claim.status, error: claim.error, errors: claim.errors };
+    }
+
+    // The chat shows a readable summary, n8n gets the typed values
+    formSubmission = { chat_id: form_submission.chat_id, values: claim.values };
+    message = formatFormSummary(claim.schema, claim.values);
+  }
+
+  // Each send is a paid workflow run. Checked last, so replays and requests
+  // rejected above don't use up the quota
+  const limit = await checkRateLimit(serviceClient, { scope: 'send', userId, module });
+  if (!limit.ok) {
+    if (action) await releaseQuickReply(serviceClient, action);
+    if (formSubmission) await releaseFormSubmission(serviceClient, formSubmission.chat_id);
+    return {
+      ok: false,
+      status: 429,
+      error: `Too many messages, try again in ${limit.retryAfterSeconds} seconds`,
+      retryAfterSeconds: limit.retryAfterSeconds,
+    };
+  }
+
+  // Generate chat ID
+  const chatId = uuidv4();
+
+  // Insert user message into chats table
+  const { data: chatData, error: chatError } = await supabase
+    .from('chats')
+    .insert({
+      id: chatId,
+      user_id: userId,
+      module,
+      conversation_id: conversation.id,
+      sender: 'user',
+      message,
+      attachments: attachments || null,
+      status: 'queued',
+      reply_to: reply_to || null,
+      idempotency_key: idempotencyKey,
+    })
+    .select()
+    .single();
+
+  if (chatError) {
+    // A concurrent request with the same key got there first; ours never existed
+    const conflict = isIdempotencyConflict(chatError);
+    if (!conflict) console.error('Failed to insert chat:', chatError);
+    if (action) await releaseQuickReply(serviceClient, action);
+    if (formSubmission) await releaseFormSubmission(serviceClient, formSubmission.chat_id);
+
+    if (conflict && idempotencyKey) {
+      const existing = await findIdempotentChat(supabase, { userId, sender: 'user', key: idempotencyKey });
+      if (existing) return replayResult(existing, module, conversation_id);
+    }
+
+    return { ok: false, status: 500, error: 'Failed to save message' };
+  }
+
+  await createJob(serviceClient, { chatId, userId, module });
+  await touchConversation(serviceClient, conversation.id, message || attachments?.[0]?.name);
+
+  // Prepare n8n webhook payload
+  const callbackUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/n8n/callback`;
+
+  const n8nPayload: N8nPayload = {
+    user_id: userId,
+    chat_id: chatId,
+    module,
+    conversation_id: conversation.id,
+    message,
+    attachments: attachments || null,
+    callback_url: callbackUrl,
+  };
+
+  if (reply_to) {
+    n8nPayload.reply_to = reply_to;
+  }
+
+  if (action) {
+    n8nPayload.action = { chat_id: action.chat_id, value: action.value };
+  }
+
+  if (formSubmission) {
+    n8nPayload.form_submission = formSubmission;
+  }
+
+  // Earlier messages, per the module's history window
+  const history = await buildHistory(serviceClient, {
+    userId,
+    conversationId: conversation.id,
+    excludeChatId: chatId,
+    settings: await getModuleSettings(serviceClient, module),
+  });
+
+  if (history.length > 0) {
+    n8nPayload.history = history;
+  }
+
+  // Queue the dispatch so a failed delivery is retried by the outbox worker
+  let outboxEntry;
+
+  try {
+    outboxEntry = await enqueueDispatch(serviceClient, n8nPayload);
+  } catch (enqueueError) {
+    console.error('Failed to queue n8n dispatch:', enqueueError);
+    // Rollback: a message that can never be delivered shouldn't stay in the chat
+    await supabase.from('chats').delete().eq('id', chatId);
+    if (action) await releaseQuickReply(serviceClient, action);
+    if (formSubmission) await releaseFormSubmission(serviceClient, formSubmission.chat_id);
+    return { ok: false, status: 500, error: 'Failed to queue message' };
+  }
+
+  // First attempt inline; failures are left pending for the worker to retry
+  console.log(`Sending to webhook for module ${module}`);
+  const dispatchStatus = await processOutboxEntry(serviceClient, outboxEntry);
+
+  // Return the bubble in the state it reached, realtime covers later changes
+  if (dispatchStatus === 'delivered') {
+    chatData.status = 'dispatched';
+  }
+
+  return { ok: true, chat: chatData as Chat, replayed: false };
+}
@@ -0,0 +1,298 @@
+/**
+ * Response Streaming Module
+ * Assembles bot messages from sequenced chunks sent by n8n
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import { Attachment, Chat, ModuleType } from '@/types';
+import { updateChatStatus } from '@/lib/chat-status';
+import { clearChatActivity } from '@/lib/chat-activity';
+import { touchConversation } from '@/lib/conversations';
+
+// Guards against runaway workflows filling a single message
+export const MAX_STREAM_CHUNKS = 5000;
+export const MAX_CHUNK_LENGTH = 16 * 1024;
+
+export type StreamResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; status: number; error: string; details?: Record<string, unknown> };
+
+/**
+ * Load a bot message that belongs to the user, or null
+ */
+async function getStreamRow(
+  supabase: SupabaseClient,
+  streamId: string,
+  userId: string
+): Promise<Chat | null> {
+  const { data } = await supabase
+    .from('chats')
+    .select('*')
+    .eq('id', streamId)
+    .eq('user_id', userId)
+    .eq('sender', 'bot')
+    .maybeSingle();
+
+  return (data as Chat | null) || null;
+}
+
+/**
+ * Sequence numbers from `start` up to `end` that haven't been received
+ */
+function findMissing(received: number[], start: number, end: number): number[] {
+  const seen = new Set(received);
+  const missing: number[] = [];
+  for (let seq = start; seq < end; seq++) {
+    if (!seen.has(seq)) missing.push(seq);
+  }
+  return missing;
+}
+
+/**
+ * Extend a stream's text with the chunks after the last one applied
+ * Only chunks past `row.stream_seq` are loaded, so each append reads what is new
+ * rather than the whole message. Returns the full text, the last seq included
+ * (-1 when chunk 0 is missing) and the seqs loaded past the previous one.
+ */
+async function assembleChunks(
+  supabase: SupabaseClient,
+  row: Chat
+): Promise<{ text: string; lastSeq: number; received: number[] }> {
+  const appliedSeq = row.stream_seq ?? -1;
+
+  const { data, error } = await supabase
+    .from('chat_chunks')
+    .select('seq, content')
+    .eq('chat_id', row.id)
+    .gt('seq', appliedSeq)
+    .order('seq', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load chunks: ${error.message}`);
+  }
+
+  const chunks = (data || []) as Array<{ seq: number; content: string }>;
+  let text = row.message || '';
+  let lastSeq = appliedSeq;
+
+  for (const chunk of chunks) {
+    if (chunk.seq !== lastSeq + 1) break;
+    text += chunk.content;
+    lastSeq = chunk.seq;
+  }
+
+  return { text, lastSeq, received: chunks.map(c => c.seq) };
+}
+
+/**
+ * Start a streamed bot message, saved empty and filled in by appendChunk
+ * Passing the same streamId twice returns the existing message
+ */
+export async function openStream(
+  supabase: SupabaseClient,
+  options: {
+    userId: string;
+    module: ModuleType;
+    conversationId: string;
+    replyTo: string | null;
+    streamId?: string;
+    // Answering a cancelled message: stored but not shown
+    suppressed?: boolean;
+  }
+): Promise<StreamResult<Chat>> {
+  const { userId, module, conversationId, replyTo } = options;
+  const suppressed = options.suppressed === true;
+  const streamId = options.streamId || uuidv4();
+
+  if (options.streamId) {
+    const existing = await getStreamRow(supabase, streamId, userId);
+    if (existing) {
+      return { ok: true, data: existing };
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('chats')
+    .insert({
+      id: streamId,
+      user_id: userId,
+      module,
+      conversation_id: conversationId,
+      sender: 'bot',
+      message: '',
+      attachments: null,
+      reply_to: replyTo,
+      stream_state: 'streaming',
+      stream_seq: -1,
+      suppressed,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Lost a race with a duplicate open
+    if (error.code === '23505') {
+      const existing = await getStreamRow(supabase, streamId, userId);
+      if (existing) return { ok: true, data: existing };
+    }
+    console.error('[Streaming] Failed to open stream:', error);
+    return { ok: false, status: 500, error: 'Failed to open stream' };
+  }
+
+  if (!suppressed) {
+    await touchConversation(supabase, conversationId);
+  }
+
+  // The growing message replaces the typing indicator
+  if (replyTo && !suppressed) {
+    await clearChatActivity(supabase, replyTo);
+    await updateChatStatus(supabase, replyTo, 'acknowledged', userId);
+  }
+
+  return { ok: true, data: data as Chat };
+}
+
+/**
+ * Store a chunk and extend the visible message as far as the chunks are contiguous
+ * Duplicate chunks are ignored; out-of-order chunks wait until the gap is filled
+ */
+export async function appendChunk(
+  supabase: SupabaseClient,
+  options: {
+    userId: string;
+    streamId: string;
+    seq: number;
+    content: string;
+  }
+): Promise<StreamResult<{ applied_seq: number; missing: number[] }>> {
+  const { userId, streamId, seq, content } = options;
+
+  const row = await getStreamRow(supabase, streamId, userId);
+  if (!row) {
+    return { ok: false, status: 404, error: 'Stream not found' };
+  }
+
+  if (row.stream_state !== 'streaming') {
+    return { ok: false, status: 409, error: 'Stream already completed' };
+  }
+
+  const { error: insertError } = await supabase
+    .from('chat_chunks')
+    .upsert(
+      { chat_id: streamId, seq, content },
+      { onConflict: 'chat_id,seq', ignoreDuplicates: true }
+    );
+
+  if (insertError) {
+    console.error('[Streaming] Failed to store chunk:', insertError);
+    return { ok: false, status: 500, error: 'Failed to store chunk' };
+  }
+
+  const assembled = await assembleChunks(supabase, row);
+
+  // stream_seq only moves forward, so a slower request can't overwrite newer text;
+  // the text for a given stream_seq is the same whichever request wrote it
+  if (assembled.lastSeq > (row.stream_seq ?? -1)) {
+    const { error: updateError } = await supabase
+      .from('chats')
+      .update({ message: assembled.text, stream_seq: assembled.lastSeq })
+      .eq('id', streamId)
+      .eq('stream_state', 'streaming')
+      .lt('stream_seq', assembled.lastSeq);
+
+    if (updateError) {
+      console.error('[Streaming] Failed to update message:', updateError);
+      return { ok: false, status: 500, error: 'Failed to update message' };
+    }
+  }
+
+  // Gaps below the highest chunk received so far
+  const highest = assembled.received[assembled.received.length - 1] ?? -1;
+
+  return {
+    ok: true,
+    data: {
+      applied_seq: assembled.lastSeq,
+      missing: findMissing(assembled.received, assembled.lastSeq + 1, highest),
+    },
+  };
+}
+
+/**
+ * Complete a stream
+ * With totalChunks, refuses to finish until every chunk has arrived.
+ * A final message replaces the assembled text outright.
+ */
+export async function finishStream(
+  supabase: SupabaseClient,
+  options: {
+    userId: string;
+    streamId: string;
+    totalChunks?: number;
+    message?: string;
+    attachments?: Attachment[] | null;
+    failed?: boolean;
+  }
+): Promise<StreamResult<Chat>> {
+  const { userId, streamId, totalChunks, message, attachments, failed } = options;
+
+  const row = await getStreamRow(supabase, streamId, userId);
+  if (!row) {
+    return { ok: false, status: 404, error: 'Stream not found' };
+  }
+
+  // Repeated done calls are harmless
+  if (row.stream_state === 'complete') {
+    return { ok: true, data: row };
+  }
+
+  const updates: Record<string, unknown> = { stream_state: 'complete' };
+
+  if (message !== undefined) {
+    updates.message = message;
+  } else {
+    const assembled = await assembleChunks(supabase, row);
+
+    if (totalChunks !== undefined && assembled.lastSeq < totalChunks - 1) {
+      return {
+        ok: false,
+        status: 409,
+        error: 'Stream has missing chunks',
+        details: {
+          applied_seq: assembled.lastSeq,
+          missing: findMissing(assembled.received, assembled.lastSeq + 1, totalChunks),
+        },
+      };
+    }
+
+    updates.message = assembled.text;
+    updates.stream_seq = assembled.lastSeq;
+  }
+
+  if (attachments && attachments.length > 0) {
+    updates.attachments = attachments;
+  }
+
+  const { data, error } = await supabase
+    .from('chats')
+    .update(updates)
+    .eq('id', streamId)
+    .eq('stream_state', 'streaming')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Streaming] Failed to complete stream:', error);
+    return { ok: false, status: 500, error: 'Failed to complete stream' };
+  }
+
+  // Chunks are only needed while assembling
+  await supabase.from('chat_chunks').delete().eq('chat_id', streamId);
+
+  if (row.reply_to) {
+    await updateChatStatus(supabase, row.reply_to, failed ? 'failed' : 'answered', userId);
+  }
+
+  return { ok: true, data: (data as Chat | null) || { ...row, ...updates } as Chat };
+}
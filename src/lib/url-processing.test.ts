@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { trimUrlMatch, parseMessageToSegments } from './url-processing';
+
+/**
+ * Links found in a message, as their hrefs
+ */
+function hrefs(message: string): Array<string | undefined> {
+  return parseMessageToSegments(message)
+    .filter((segment) => segment.type === 'link')
+    .map((segment) => segment.href);
+}
+
+describe('trimUrlMatch', () => {
+  it('drops sentence punctuation and an unbalanced closing parenthesis', () => {
+    expect(trimUrlMatch('https://x.com/a).')).toBe('https://x.com/a');
+    expect(trimUrlMatch('https://x.com/a,')).toBe('https://x.com/a');
+    expect(trimUrlMatch('https://x.com/a?!')).toBe('https://x.com/a');
+  });
+
+  it('keeps balanced parentheses inside the URL', () => {
+    expect(trimUrlMatch('https://en.wikipedia.org/wiki/Foo_(bar)')).toBe('https://en.wikipedia.org/wiki/Foo_(bar)');
+    expect(trimUrlMatch('https://en.wikipedia.org/wiki/Foo_(bar)).')).toBe('https://en.wikipedia.org/wiki/Foo_(bar)');
+  });
+
+  it('keeps query strings', () => {
+    expect(trimUrlMatch('https://x.com/a?b=1&c=2')).toBe('https://x.com/a?b=1&c=2');
+  });
+});
+
+describe('parseMessageToSegments', () => {
+  it('leaves trailing punctuation after a bare URL as text', () => {
+    const segments = parseMessageToSegments('see https://x.com/a).');
+
+    expect(hrefs('see https://x.com/a).')).toEqual(['https://x.com/a']);
+    expect(segments[0]).toEqual({ type: 'text', content: 'see ' });
+    expect(segments[segments.length - 1]).toEqual({ type: 'text', content: ').' });
+  });
+
+  it('links a URL with parentheses in its path', () => {
+    expect(hrefs('https://en.wikipedia.org/wiki/Foo_(bar)')).toEqual(['https://en.wikipedia.org/wiki/Foo_(bar)']);
+  });
+
+  it('links a parenthesised URL with a query string without the parentheses', () => {
+    const segments = parseMessageToSegments('(https://x.com/a?b=1&c=2)');
+
+    expect(hrefs('(https://x.com/a?b=1&c=2)')).toEqual(['https://x.com/a?b=1&c=2']);
+    expect(segments[0]).toEqual({ type: 'text', content: '(' });
+    expect(segments[segments.length - 1]).toEqual({ type: 'text', content: ')' });
+  });
+
+  it('uses the label of a labeled link whose URL has parentheses', () => {
+    const segments = parseMessageToSegments('[label](https://x.com/q_(1))');
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({ type: 'link', content: 'label', href: 'https://x.com/q_(1)' });
+  });
+});
@@ -4,7 +4,13 @@
  */
 
 // Robust URL pattern matching
-const URL_PATTERN = /https?:\/\/(?:www\.)?[-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b(?:[-a-zA-Z0-9()@:%_\+.~#?&//=]*)/gi;
+export const URL_PATTERN = /https?:\/\/(?:www\.)?[-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b(?:[-a-zA-Z0-9()@:%_\+.~#?&//=]*)/gi;
+
+// Markdown-style labeled link: [label](url)
+export const LABELED_LINK_PATTERN = new RegExp(`\\[([^\\[\\]\\n]{1,200})\\]\\((${URL_PATTERN.source})\\)`, 'gi');
+
+// Characters that usually end a sentence rather than a URL
+const TRAILING_PUNCTUATION = '.,:;!?';
 
 // Google Drive URL patterns
 const GOOGLE_DRIVE_PATTERNS = {
@@ -14,10 +20,14 @@ const GOOGLE_DRIVE_PATTERNS = {
   export: /https?:\/\/drive\.google\.com\/uc\?(?:.*&)?id=([a-zA-Z0-9_-]+)/i,
 };
 
+// What a link points to, used to pick its icon
+export type LinkKind = 'drive' | 'sheet' | 'doc' | 'slides' | 'site';
+
 export interface ProcessedUrl {
   original: string;
   display: string;
   href: string;
+  kind: LinkKind;
   isGoogleDrive: boolean;
   fileId?: string;
 }
@@ -72,6 +82,69 @@ export function isGoogleDriveUrl(url: string): boolean {
   return url.includes('drive.google.com') || url.includes('docs.google.com');
 }
 
+/**
+ * Classify a URL for its label and icon
+ */
+export function getLinkKind(url: string): LinkKind {
+  const docsMatch = url.match(/^https?:\/\/docs\.google\.com\/(document|spreadsheets|presentation)\//i);
+  if (docsMatch) {
+    const kinds: Record<string, LinkKind> = { document: 'doc', spreadsheets: 'sheet', presentation: 'slides' };
+    return kinds[docsMatch[1].toLowerCase()];
+  }
+  return /^https?:\/\/drive\.google\.com\//i.test(url) ? 'drive' : 'site';
+}
+
+const LINK_KIND_LABELS: Record<Exclude<LinkKind, 'site'>, string> = {
+  drive: 'Drive file',
+  sheet: 'Google Sheet',
+  doc: 'Google Doc',
+  slides: 'Google Slides',
+};
+
+/**
+ * Readable label for a bare URL: the Google file type, or the site's domain
+ */
+export function getLinkLabel(url: string, kind: LinkKind = getLinkKind(url)): string {
+  if (kind !== 'site') return LINK_KIND_LABELS[kind];
+
+  try {
+    return new URL(url).hostname.replace(/^www\./i, '');
+  } catch {
+    return '[Link]';
+  }
+}
+
+/**
+ * Drop sentence punctuation and unbalanced closing parentheses that the URL
+ * pattern picks up at the end of a match, e.g. "see https://x.com/a)."
+ */
+export function trimUrlMatch(url: string): string {
+  let end = url.length;
+
+  while (end > 0) {
+    const char = url[end - 1];
+
+    if (TRAILING_PUNCTUATION.includes(char)) {
+      end--;
+      continue;
+    }
+
+    if (char === ')') {
+      const candidate = url.slice(0, end);
+      const opened = candidate.split('(').length - 1;
+      const closed = candidate.split(')').length - 1;
+      if (closed > opened) {
+        end--;
+        continue;
+      }
+    }
+
+    break;
+  }
+
+  return url.slice(0, end);
+}
+
 /**
  * Validate if a string is a valid URL
  */
@@ -94,11 +167,13 @@ export function processUrl(url: string): ProcessedUrl {
       original: url,
       display: '[Link]',
       href: url,
+      kind: 'site',
       isGoogleDrive: false,
     };
   }
   
   const isGDrive = isGoogleDriveUrl(url);
+  const kind = getLinkKind(url);
   let href = url;
   let fileId: string | undefined;
   
@@ -109,8 +184,9 @@ export function processUrl(url: string): ProcessedUrl {
   
   return {
     original: url,
-    display: '[Link]',
+    display: getLinkLabel(url, kind),
     href,
+    kind,
     isGoogleDrive: isGDrive,
     fileId,
   };
@@ -122,7 +198,7 @@ export function processUrl(url: string): ProcessedUrl {
  */
 export function processMessageUrls(message: string): ProcessedMessage {
   const urls: ProcessedUrl[] = [];
-  const matches = message.match(URL_PATTERN) || [];
+  const matches = (message.match(URL_PATTERN) || []).map(trimUrlMatch);
   
   // Process each unique URL
   const uniqueUrls = Array.from(new Set(matches));
@@ -140,24 +216,33 @@ export function processMessageUrls(message: string): ProcessedMessage {
 
 /**
  * Convert message text to React-compatible segments with clickable links
- * This is used by the ChatMessage component
+ * Handles [label](url) links and bare URLs. This is used by the ChatMessage component
  */
 export interface MessageSegment {
   type: 'text' | 'link';
   content: string;
   href?: string;
+  kind?: LinkKind;
 }
 
 export function parseMessageToSegments(message: string): MessageSegment[] {
   const segments: MessageSegment[] = [];
   let lastIndex = 0;
   
-  // Reset regex
-  const urlRegex = new RegExp(URL_PATTERN.source, 'gi');
+  // Labeled links are tried first so their URL isn't also matched on its own
+  const linkRegex = new RegExp(`${LABELED_LINK_PATTERN.source}|${URL_PATTERN.source}`, 'gi');
   let match;
   
-  while ((match = urlRegex.exec(message)) !== null) {
-    // Add text before the URL
+  while ((match = linkRegex.exec(message)) !== null) {
+    const [whole, label, labeledUrl] = match;
+    const url = labeledUrl ?? trimUrlMatch(whole);
+
+    // Punctuation trimmed off a bare URL is read again as text
+    if (!labeledUrl) {
+      linkRegex.lastIndex = match.index + url.length;
+    }
+
+    // Add text before the link
     if (match.index > lastIndex) {
       segments.push({
         type: 'text',
@@ -166,16 +251,16 @@ export function parseMessageToSegments(message: string): MessageSegment[] {
     }
     
     // Process the URL
-    const url = match[0];
     const processed = processUrl(url);
     
     segments.push({
       type: 'link',
-      content: processed.display,
+      content: label ? label.trim() || processed.display : processed.display,
       href: processed.href,
+      kind: processed.kind,
     });
     
-    lastIndex = match.index + url.length;
+    lastIndex = match.index + (labeledUrl ? whole.length : url.length);
   }
   
   // Add remaining text
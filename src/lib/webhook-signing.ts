@@ -0,0 +1,44 @@
+/**
+ * Webhook Signing Module
+ * HMAC-SHA256 signatures for requests exchanged with n8n
+ */
+
+import { createHmac } from 'crypto';
+import { ModuleType } from '@/types';
+
+export const SIGNATURE_HEADER = 'x-signature';
+export const SIGNATURE_TIMESTAMP_HEADER = 'x-signature-timestamp';
+
+/**
+ * Compute the hex HMAC-SHA256 of "<timestamp>.<body>"
+ */
+export function computeSignature(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Build signature headers for an outbound request body
+ * Timestamp is Unix seconds, signature is prefixed with the algorithm
+ */
+export function signRequest(secret: string, body: string): Record<string, string> {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  return {
+    [SIGNATURE_TIMESTAMP_HEADER]: timestamp,
+    [SIGNATURE_HEADER]: `sha256=${computeSignature(secret, timestamp, body)}`,
+  };
+}
+
+/**
+ * Check if the environment enables signing for a module
+ * N8N_SIGNED_MODULES is a comma-separated module list, or "*" for all modules
+ * (the admin panel can also enable it per module)
+ */
+export function isSigningEnabled(module: ModuleType): boolean {
+  const signedModules = (process.env.N8N_SIGNED_MODULES || '')
+    .split(',')
+    .map((m) => m.trim())
+    .filter(Boolean);
+
+  return signedModules.includes('*') || signedModules.includes(module);
+}
@@ -16,6 +16,62 @@ export interface AppSettings {
   updated_by: string;
 }
 
+// Per-module routing, managed from the admin panel
+export interface ModuleSettings {
+  module: ModuleType;
+  webhook_url: string | null;
+  // Receives 'cancelled' events; the main webhook does when unset
+  cancel_webhook_url: string | null;
+  sign_requests: boolean;
+  history_limit: number;
+  history_max_chars: number;
+  history_senders: Array<'user' | 'bot'>;
+  history_include_attachments: boolean;
+  render_markdown: boolean;
+  // Per-scope overrides of the default rate limits
+  rate_limits: Partial<Record<RateLimitScope, RateLimitRule>>;
+  updated_at: string;
+  updated_by: string | null;
+}
+
+// Routes limited per user and module
+export type RateLimitScope = 'send' | 'upload' | 'callback';
+
+// Token bucket: refills per_minute tokens a minute, holds at most burst
+export interface RateLimitRule {
+  per_minute: number;
+  burst: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+// Badge shown in the chat header
+export type ModuleHealthStatus = 'online' | 'degraded' | 'offline';
+
+export interface ModuleHealth {
+  module: ModuleType;
+  circuit_state: CircuitState;
+  consecutive_failures: number;
+  total_successes: number;
+  total_failures: number;
+  avg_latency_ms: number | null;
+  last_success_at: string | null;
+  last_failure_at: string | null;
+  last_error: string | null;
+  opened_at: string | null;
+  updated_at: string;
+}
+
+// Callback signing secret as exposed to the admin panel (never the full secret)
+export interface CallbackSecret {
+  id: string;
+  label: string;
+  secret_hint: string;
+  is_active: boolean;
+  created_at: string;
+  revoked_at: string | null;
+}
+
 export interface AuditLog {
   id: string;
   admin_id: string;
@@ -25,16 +81,144 @@ export interface AuditLog {
   created_at: string;
 }
 
+// Delivery lifecycle of a user message (null for bot messages)
+export type ChatStatus = 'queued' | 'dispatched' | 'acknowledged' | 'answered' | 'failed' | 'cancelled';
+
+// Named thread of messages within a module
+export interface Conversation {
+  id: string;
+  user_id: string;
+  module: ModuleType;
+  // Null until renamed or named after the first message
+  title: string | null;
+  // Archived conversations are hidden from the sidebar and don't take new messages
+  archived_at: string | null;
+  // Started by the app for a send without a conversation; one open per module
+  is_default: boolean;
+  last_message_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Chat {
   id: string;
   user_id: string;
   module: ModuleType;
+  conversation_id: string;
   sender: 'user' | 'bot';
   message: string;
   attachments: Attachment[] | null;
+  status: ChatStatus | null;
+  reply_to: string | null;
+  // Set on bot messages delivered in chunks
+  stream_state: StreamState | null;
+  stream_seq: number | null;
+  // Quick replies offered on bot messages, and the value the user picked
+  actions: QuickReplyAction[] | null;
+  action_selected: string | null;
+  // Structured input requested by a workflow, and the values submitted
+  form: FormSchema | null;
+  form_response: FormValues | null;
+  // Structured content rendered below the message text
+  blocks: ContentBlock[] | null;
+  // Idempotency-Key of the request that created the message
+  idempotency_key: string | null;
+  // Last time the user edited the message text
+  edited_at: string | null;
+  // Bot reply that arrived after its message was cancelled; kept but not shown
+  suppressed: boolean;
   created_at: string;
 }
 
+export type TableCell = string | number | boolean | null;
+
+export interface TableBlock {
+  type: 'table';
+  title?: string;
+  columns: string[];
+  rows: TableCell[][];
+}
+
+export interface KeyValueBlock {
+  type: 'key_value';
+  title?: string;
+  items: Array<{ label: string; value: string }>;
+}
+
+export type CalloutVariant = 'info' | 'success' | 'warning' | 'error';
+
+export interface CalloutBlock {
+  type: 'callout';
+  variant: CalloutVariant;
+  title?: string;
+  text: string;
+}
+
+export interface FileListBlock {
+  type: 'file_list';
+  title?: string;
+  files: Array<{ name: string; url: string; type?: string; size?: number }>;
+}
+
+export type ContentBlock = TableBlock | KeyValueBlock | CalloutBlock | FileListBlock;
+
+export type QuickReplyStyle = 'primary' | 'secondary' | 'danger';
+
+export interface QuickReplyAction {
+  label: string;
+  value: string;
+  style?: QuickReplyStyle;
+}
+
+export type FormFieldType = 'text' | 'textarea' | 'email' | 'number' | 'select' | 'date' | 'checkbox';
+
+export interface FormFieldOption {
+  label: string;
+  value: string;
+}
+
+export interface FormField {
+  name: string;
+  label: string;
+  type: FormFieldType;
+  required?: boolean;
+  placeholder?: string;
+  help?: string;
+  // select
+  options?: FormFieldOption[];
+  // number: numeric bounds; date: YYYY-MM-DD bounds
+  min?: number | string;
+  max?: number | string;
+  // text, textarea, email
+  min_length?: number;
+  max_length?: number;
+  pattern?: string;
+  pattern_message?: string;
+  default?: string | number | boolean;
+}
+
+export interface FormSchema {
+  title?: string;
+  submit_label?: string;
+  fields: FormField[];
+}
+
+// Typed values keyed by field name; empty optional fields are null
+export type FormValues = Record<string, string | number | boolean | null>;
+
+export interface FormSubmission {
+  chat_id: string;
+  values: FormValues;
+}
+
+// Marks a message sent by clicking a quick reply
+export interface ActionMarker {
+  chat_id: string;
+  value: string;
+}
+
+export type StreamState = 'streaming' | 'complete';
+
 export interface Attachment {
   name: string;
   url: string;
@@ -44,25 +228,187 @@ export interface Attachment {
 
 export interface SendMessagePayload {
   module: ModuleType;
+  // Defaults to the most recently active open conversation in the module
+  conversation_id?: string;
   message: string;
   attachments?: Attachment[];
+  reply_to?: string;
+  action?: ActionMarker;
+  form_submission?: FormSubmission;
 }
 
+// Message sent on a schedule by /api/schedules/run
+export interface ScheduledMessage {
+  id: string;
+  user_id: string;
+  module: ModuleType;
+  // Conversation the messages go to; the module's default one when null
+  conversation_id: string | null;
+  message: string;
+  attachments: Attachment[] | null;
+  // Five-field cron expression; null for a one-off send at next_run_at
+  cron: string | null;
+  // IANA zone the cron expression is evaluated in
+  timezone: string;
+  next_run_at: string;
+  last_run_at: string | null;
+  last_chat_id: string | null;
+  last_error: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Events about an earlier message; a payload without an event is a new message
+export type N8nEvent = 'edited' | 'cancelled';
+
 export interface N8nPayload {
+  event?: N8nEvent;
   user_id: string;
   chat_id: string;
   module: ModuleType;
+  conversation_id: string;
   message: string;
   attachments: Attachment[] | null;
   callback_url: string;
+  reply_to?: string;
+  action?: ActionMarker;
+  form_submission?: FormSubmission;
+  history?: N8nHistoryMessage[];
+  // Text before the edit (edited events)
+  previous_message?: string;
+}
+
+// Earlier message in the conversation, oldest first in N8nPayload.history
+export interface N8nHistoryMessage {
+  chat_id: string;
+  sender: 'user' | 'bot';
+  message: string;
+  attachments: Attachment[] | null;
+  created_at: string;
+}
+
+export type OutboxStatus = 'pending' | 'processing' | 'delivered' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  chat_id: string;
+  user_id: string;
+  module: ModuleType;
+  payload: N8nPayload;
+  status: OutboxStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+  delivered_at: string | null;
 }
 
 export interface N8nCallbackPayload {
   chat_id: string;
   user_id: string;
   module: ModuleType;
+  // Echoed from N8nPayload; picks the conversation for replies without a chat_id
+  conversation_id?: string;
+  message?: string;
+  attachments?: Attachment[];
+  actions?: QuickReplyAction[];
+  form?: FormSchema;
+  blocks?: ContentBlock[];
+  // Status update for the user message identified by chat_id
+  status?: Extract<ChatStatus, 'acknowledged' | 'answered' | 'failed'>;
+}
+
+// Progress reported by the workflow while it works on a user message
+export interface ChatActivity {
+  chat_id: string;
+  user_id: string;
+  module: ModuleType;
+  state: string;
+  step: number | null;
+  total_steps: number | null;
+  updated_at: string;
+}
+
+// Row returned by /api/chat/search
+export interface ChatSearchResult {
+  id: string;
+  module: ModuleType;
+  conversation_id: string;
+  sender: 'user' | 'bot';
   message: string;
+  attachments: Attachment[] | null;
+  created_at: string;
+  rank: number;
+  // Message excerpt with matches wrapped in \u0002 ... \u0003
+  snippet: string;
+}
+
+// Lifecycle of the workflow run behind a user message
+export type JobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  // The user message that started the job
+  chat_id: string;
+  user_id: string;
+  module: ModuleType;
+  state: JobState;
+  // Percent complete, 0-100
+  progress: number;
+  step: string | null;
+  error: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Body of /api/n8n/callback/job
+export interface N8nJobPayload {
+  chat_id: string;
+  user_id: string;
+  module: ModuleType;
+  state?: 'running' | 'succeeded' | 'failed';
+  progress?: number;
+  step?: string;
+  error?: string;
+}
+
+// Body of /api/n8n/callback/status
+export interface N8nActivityPayload {
+  chat_id: string;
+  user_id: string;
+  module: ModuleType;
+  state: string;
+  step?: number;
+  total_steps?: number;
+}
+
+export type StreamAction = 'open' | 'append' | 'done';
+
+// Body of /api/n8n/callback/stream
+export interface N8nStreamPayload {
+  action: StreamAction;
+  user_id: string;
+  module: ModuleType;
+  // User message being answered (open)
+  chat_id?: string;
+  // Echoed from N8nPayload (open)
+  conversation_id?: string;
+  // Bot message returned by open; may be chosen by the workflow to make open idempotent
+  stream_id?: string;
+  // Chunk position, starting at 0 (append)
+  seq?: number;
+  chunk?: string;
+  // Number of chunks sent, lets done detect gaps (done)
+  total_chunks?: number;
+  // Final text replacing the assembled chunks (done)
+  message?: string;
   attachments?: Attachment[];
+  status?: Extract<ChatStatus, 'answered' | 'failed'>;
 }
 
 export const MODULE_CONFIG: Record<ModuleType, { name: string; description: string; icon: string; color: string }> = {